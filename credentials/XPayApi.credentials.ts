@@ -5,6 +5,8 @@ import type {
 	INodeProperties,
 } from 'n8n-workflow';
 
+import { GLYPH_CORE_URLS } from '../shared/constants';
+
 export class XPayApi implements ICredentialType {
 	name = 'xPayApi';
 	displayName = 'xpay✦ API';
@@ -39,9 +41,66 @@ export class XPayApi implements ICredentialType {
 					value: 'production',
 					description: 'Live mode - real payments',
 				},
+				{
+					name: 'Custom',
+					value: 'custom',
+					description: 'Self-hosted or local deployment - enter the API base URLs below',
+				},
 			],
 			default: 'sandbox',
-			description: 'Choose Sandbox for testing, Production for live payments',
+			description: 'Choose Sandbox for testing, Production for live payments, or Custom to point at your own deployment',
+		},
+		{
+			displayName: 'Core API URL',
+			name: 'coreUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., http://localhost:4010/core',
+			description: 'Base URL of the Glyphrun Core API (catalog, models, wallet). Required by the nodes that call this API.',
+			displayOptions: {
+				show: {
+					environment: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'Router API URL',
+			name: 'routerUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., http://localhost:4010/router',
+			description: 'Base URL of the Glyphrun Router API (service execution). Required by the nodes that call this API.',
+			displayOptions: {
+				show: {
+					environment: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'Smart Proxy URL',
+			name: 'smartProxyUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., http://localhost:4010/proxy',
+			description: 'Base URL of the Smart Proxy API (xpay✦ HTTP node). Required by the nodes that call this API.',
+			displayOptions: {
+				show: {
+					environment: ['custom'],
+				},
+			},
+		},
+		{
+			displayName: 'Paywall API URL',
+			name: 'paywallUrl',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g., http://localhost:4010/paywall',
+			description: 'Base URL of the Pay-to-Run API (charge-per-use checkout). Leave empty to use the environment selected on the node.',
+			displayOptions: {
+				show: {
+					environment: ['custom'],
+				},
+			},
 		},
 		{
 			displayName: 'Enable Smart Proxy Features',
@@ -77,7 +136,7 @@ export class XPayApi implements ICredentialType {
 	test: ICredentialTestRequest = {
 		request: {
 			// Use Glyphrun Core health endpoint for credential validation
-			baseURL: '={{$credentials.environment === "production" ? "https://7qzahhyw77.execute-api.us-east-1.amazonaws.com/dev" : "https://7qzahhyw77.execute-api.us-east-1.amazonaws.com/dev"}}',
+			baseURL: `={{$credentials.environment === "custom" ? ($credentials.coreUrl || "").replace(/\\/+$/, "") : $credentials.environment === "production" ? "${GLYPH_CORE_URLS.production}" : "${GLYPH_CORE_URLS.sandbox}"}}`,
 			url: '/health',
 			method: 'GET',
 		},
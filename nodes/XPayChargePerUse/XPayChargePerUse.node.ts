@@ -5,11 +5,13 @@ import type {
 	INodeType,
 	INodeTypeDescription,
 	IWebhookResponseData,
-	IHttpRequestOptions,
 	NodeConnectionType,
 } from 'n8n-workflow';
 import * as crypto from 'crypto';
 
+import { paywallRequest, getRetryOptions } from '../../shared/api';
+import { RETRY_OPTION_FIELDS } from '../../shared/descriptions';
+import { XPayOperationError } from '../../shared/errors';
 import type { ChargePricingModel } from '../../shared/types';
 
 export class XPayChargePerUse implements INodeType {
@@ -391,6 +393,7 @@ export class XPayChargePerUse implements INodeType {
 						placeholder: 'https://your-n8n-domain.com/webhook/...',
 						description: 'Override the webhook callback URL. Use this if your n8n is behind a reverse proxy and the auto-detected URL includes an internal port.',
 					},
+					...RETRY_OPTION_FIELDS,
 				],
 			},
 		],
@@ -437,7 +440,11 @@ export class XPayChargePerUse implements INodeType {
 				if (walletType === 'custom') {
 					recipientWallet = this.getNodeParameter('customWalletAddress', '') as string;
 					if (!recipientWallet || !/^0x[a-fA-F0-9]{40}$/.test(recipientWallet)) {
-						throw new Error('Invalid wallet address. Must be 42 characters starting with 0x (e.g., 0x742d35Cc6634C0532925a3b844Bc9e7595f8fE00)');
+						throw new XPayOperationError(
+							this.getNode(),
+							'Invalid wallet address. Must be 42 characters starting with 0x (e.g., 0x742d35Cc6634C0532925a3b844Bc9e7595f8fE00)',
+							{ remediation: 'Enter a valid Base/Ethereum address or switch Recipient Wallet to Default Wallet.' },
+						);
 					}
 				}
 
@@ -491,43 +498,34 @@ export class XPayChargePerUse implements INodeType {
 					required: field.required,
 				}));
 
-				// Determine API base URL based on environment selection
-				const apiBaseUrls: Record<string, string> = {
-					development: 'https://cja09z457f.execute-api.us-east-1.amazonaws.com/dev',
-					staging: 'https://hkrqani0b0.execute-api.us-east-1.amazonaws.com/staging',
-					production: 'https://m8efqvrb1b.execute-api.us-east-1.amazonaws.com/prod',
-				};
-				const apiBaseUrl = apiBaseUrls[environment] || apiBaseUrls.development;
-
 				// Register webhook with xPay API
-				const requestOptions: IHttpRequestOptions = {
-					method: 'POST',
-					url: `${apiBaseUrl}/v1/webhooks/register`,
-					body: {
-						callback_url: webhookUrl,
-						config: {
-							product_name: productName,
-							description: description,
-							price: amount,
-							currency: 'USDC',
-							network: network,
-							recipient_wallet: recipientWallet,
-							fields: fields,
-							redirect_url: redirectUrl,
-							test_mode: testMode,
-							bundles_enabled: enableBundles || pricingModel === 'tiered',
-							pricing_model: pricingModel,
-							pricing_config: pricingConfig,
-						},
+				const registration = {
+					callback_url: webhookUrl,
+					config: {
+						product_name: productName,
+						description: description,
+						price: amount,
+						currency: 'USDC',
+						network: network,
+						recipient_wallet: recipientWallet,
+						fields: fields,
+						redirect_url: redirectUrl,
+						test_mode: testMode,
+						bundles_enabled: enableBundles || pricingModel === 'tiered',
+						pricing_model: pricingModel,
+						pricing_config: pricingConfig,
 					},
-					json: true,
 				};
 
 				try {
-					const response = (await this.helpers.httpRequestWithAuthentication.call(
+					const response = (await paywallRequest(
 						this,
-						'xPayApi',
-						requestOptions,
+						environment,
+						'POST',
+						'/v1/webhooks/register',
+						registration,
+						undefined,
+						{ retry: getRetryOptions(options) },
 					)) as {
 						checkout_id: string;
 						checkout_url: string;
@@ -572,18 +570,11 @@ export class XPayChargePerUse implements INodeType {
 					return true;
 				}
 
-				const apiBaseUrls: Record<string, string> = {
-					development: 'https://cja09z457f.execute-api.us-east-1.amazonaws.com/dev',
-					staging: 'https://hkrqani0b0.execute-api.us-east-1.amazonaws.com/staging',
-					production: 'https://m8efqvrb1b.execute-api.us-east-1.amazonaws.com/prod',
-				};
-				const apiBaseUrl = apiBaseUrls[environment] || apiBaseUrls.development;
+				const options = this.getNodeParameter('options', {}) as IDataObject;
 
 				try {
-					await this.helpers.httpRequestWithAuthentication.call(this, 'xPayApi', {
-						method: 'DELETE',
-						url: `${apiBaseUrl}/v1/webhooks/${checkoutId}`,
-						json: true,
+					await paywallRequest(this, environment, 'DELETE', `/v1/webhooks/${checkoutId}`, undefined, undefined, {
+						retry: getRetryOptions(options),
 					});
 				} catch (error) {
 					console.warn('Failed to delete webhook:', error);
@@ -7,7 +7,15 @@ import type {
 	IHttpRequestOptions,
 } from 'n8n-workflow';
 
-import { smartProxyRequest, handleApiError } from '../../shared/api';
+import {
+	smartProxyRequest,
+	getRetryOptions,
+	getIdempotencyKey,
+	isReplayedResponse,
+	type XPayFullResponse,
+} from '../../shared/api';
+import { RETRY_OPTION_FIELDS } from '../../shared/descriptions';
+import { getErrorOutput, toXPayError } from '../../shared/errors';
 
 export class XPayHttp implements INodeType {
 	description: INodeTypeDescription = {
@@ -380,6 +388,14 @@ export class XPayHttp implements INodeType {
 						default: true,
 						description: 'Whether to fail the workflow if payment would exceed policy limits',
 					},
+					{
+						displayName: 'Idempotency Key',
+						name: 'idempotencyKey',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., {{ $json.orderId }}',
+						description: 'Key the Smart Proxy uses to avoid paying twice if this request is sent again. Leave empty to derive it from the execution ID, node name, item index and request.',
+					},
 				],
 			},
 
@@ -432,6 +448,7 @@ export class XPayHttp implements INodeType {
 						default: false,
 						description: 'Whether to return the full response including headers and status code',
 					},
+					...RETRY_OPTION_FIELDS,
 				],
 			},
 		],
@@ -542,6 +559,7 @@ export class XPayHttp implements INodeType {
 					autoPay402?: boolean;
 					maxPayment?: number;
 					failOnLimit?: boolean;
+					idempotencyKey?: string;
 				};
 
 				// Get options
@@ -551,6 +569,9 @@ export class XPayHttp implements INodeType {
 					ignoreSSL?: boolean;
 					followRedirects?: boolean;
 					fullResponse?: boolean;
+					maxRetries?: number;
+					retryDelay?: number;
+					maxRetryDelay?: number;
 				};
 
 				// Build the proxy request payload
@@ -576,7 +597,14 @@ export class XPayHttp implements INodeType {
 				};
 
 				// Make request through Smart Proxy
-				const response = await smartProxyRequest(this, 'POST', '/proxy', proxyPayload);
+				const idempotencyKey = getIdempotencyKey(this, i, proxyPayload, paymentSettings.idempotencyKey);
+				const fullResponse = await smartProxyRequest(this, 'POST', '/proxy', proxyPayload, undefined, {
+					retry: getRetryOptions(options),
+					idempotencyKey,
+					returnFullResponse: true,
+				}) as XPayFullResponse;
+				const response = fullResponse.body;
+				const replayed = isReplayedResponse(fullResponse);
 
 				// Format result
 				let result: any;
@@ -588,6 +616,8 @@ export class XPayHttp implements INodeType {
 						body: response.body,
 						payment: response.payment,
 						policy: response.policy,
+						idempotencyKey,
+						replayed,
 					};
 				} else {
 					// Just return the body with payment info attached
@@ -596,6 +626,8 @@ export class XPayHttp implements INodeType {
 						_xpay: {
 							payment: response.payment,
 							policy: response.policy,
+							idempotencyKey,
+							replayed,
 						},
 					};
 				}
@@ -605,17 +637,15 @@ export class XPayHttp implements INodeType {
 					pairedItem: { item: i },
 				});
 			} catch (error: any) {
+				const xpayError = toXPayError(this.getNode(), error, 'HTTP Request', i);
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: {
-							error: error.message,
-							statusCode: error.statusCode,
-						},
+						json: getErrorOutput(xpayError),
 						pairedItem: { item: i },
 					});
 					continue;
 				}
-				handleApiError(error, 'HTTP Request');
+				throw xpayError;
 			}
 		}
 
@@ -1,16 +1,151 @@
 import type {
+	IBinaryKeyData,
+	IDataObject,
 	IExecuteFunctions,
 	ILoadOptionsFunctions,
 	INodeExecutionData,
+	INodeListSearchResult,
 	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
 	NodeConnectionType,
+	ResourceMapperFields,
+	ResourceMapperValue,
 } from 'n8n-workflow';
 
-import { glyphCoreRequest, glyphRouterRequest, handleApiError, sleep, parseInputsCollection } from '../../shared/api';
+import {
+	glyphCoreRequest,
+	glyphRouterRequest,
+	parseInputsCollection,
+	getRetryOptions,
+	getIdempotencyKey,
+	isReplayedResponse,
+	requestAllPages,
+	type XPayFullResponse,
+	type XPayRequestOptions,
+} from '../../shared/api';
+import {
+	breakdownRuns,
+	getRunFilterQuery,
+	matchesRunFilters,
+	parseDateFilter,
+	summarizeRuns,
+} from '../../shared/account';
+import {
+	encodeFileInputs,
+	getFileInputMappings,
+	getFilePlaceholders,
+	readBinaryInputs,
+	type FileInputMapping,
+} from '../../shared/binary';
+import { HostRateLimiter, getBatchOptions, runWithConcurrency } from '../../shared/batch';
+import { catalogRequest, catalogRequestAll, getCacheOptions } from '../../shared/cache';
+import { type ModelComparisonRow, scoreSimilarity, summarizeComparison } from '../../shared/compare';
+import { resolveCollectionServices } from '../../shared/collections';
 import { ENDPOINTS, DEFAULTS, MODEL_OPTIONS, SERVICE_TYPE_OPTIONS } from '../../shared/constants';
-import type { ModelCatalogEntry, CostEstimate, RunResult, AsyncRunResult, RunStatusResult } from '../../shared/types';
+import { estimateRunCost, getCostReport, isOverBudget, type RunCostEstimate } from '../../shared/cost';
+import {
+	CACHE_OPTION_FIELDS,
+	FALLBACK_MODELS_OPTION_FIELDS,
+	RESULT_CACHE_OPTION_FIELDS,
+	RETRY_OPTION_FIELDS,
+	SERVICE_CHANGE_OPTION_FIELDS,
+	SERVICE_LOCATOR_MODES,
+	VALIDATE_INPUTS_OPTION_FIELDS,
+} from '../../shared/descriptions';
+import {
+	BudgetExceededError,
+	InputValidationError,
+	ServiceFailedError,
+	XPayOperationError,
+	getErrorOutput,
+	toXPayError,
+} from '../../shared/errors';
+import { getOutputOptions, processRunOutput } from '../../shared/output';
+import { cacheRunResult, getCachedRunOutput, getResultCacheOptions, lookUpCachedResult } from '../../shared/results';
+import {
+	countTokens,
+	estimateTokenCost,
+	getModel,
+	getTextField,
+	getTokenizer,
+	projectOutputTokens,
+	type OutputTokenOptions,
+	type TokenPricingSource,
+} from '../../shared/tokens';
+import {
+	getAttemptsCost,
+	getChainIdempotencyKeys,
+	getModelChain,
+	runWithModelFallback,
+} from '../../shared/fallback';
+import { cancelRun, getCancellationOutput, pollRunStatus } from '../../shared/polling';
+import {
+	type AsyncRun,
+	type CallbackBody,
+	type CallbackState,
+	completeRunResult,
+	createCallbackStateId,
+	getAsyncRunResult,
+	getCallbackState,
+	getCallbackTimeoutOutput,
+	getCallbackUrl,
+	getResumeUrl,
+	resumeAsyncRuns,
+	saveCallbackState,
+	scheduleCallbackFallback,
+} from '../../shared/resume';
+import {
+	type RecommendWeights,
+	getRecommendWeights,
+	recommendServices,
+} from '../../shared/recommend';
+import { getResourceMapperFields, getResourceMapperInputs, getService, validateInputs } from '../../shared/schema';
+import {
+	checkServiceLifecycle,
+	getPinnedService,
+	getPublishedService,
+	getServiceRunFields,
+	getServiceSlug,
+	parseServiceLocator,
+	searchServices,
+} from '../../shared/services';
+import type {
+	Glyph,
+	ModelCatalogEntry,
+	CostEstimate,
+	RunResult,
+	AsyncRunResult,
+	RunStatusResult,
+	RunStatus,
+	CollectionTheme,
+	AccountRun,
+	AccountRunFilters,
+} from '../../shared/types';
+
+type RunOptions = {
+	temperature?: number;
+	maxTokens?: number;
+	idempotencyKey?: string;
+	validateInputs?: boolean;
+	maxCostPerRun?: number;
+	overBudgetAction?: 'error' | 'route';
+	binaryOutputProperty?: string;
+	parseOutput?: boolean;
+	markdownToHtml?: boolean;
+	outputSchema?: string;
+	fallbackModels?: string;
+	cacheResults?: boolean;
+	resultCacheTtl?: number;
+	resultCacheStore?: string;
+	resultCacheFile?: string;
+	resultCacheRedisUrl?: string;
+	serviceVersion?: string;
+	serviceChangeAction?: 'warn' | 'error';
+	expectedSchemaHash?: string;
+};
 
 export class XPayPayPerUse implements INodeType {
 	description: INodeTypeDescription = {
@@ -18,20 +153,31 @@ export class XPayPayPerUse implements INodeType {
 		name: 'xPayPayPerUse',
 		icon: 'file:xpay-pay-per-use.svg',
 		group: ['transform'],
-		version: 1,
+		version: [1, 1.1],
+		defaultVersion: 1.1,
 		subtitle: '={{$parameter["resource"] + ": " + $parameter["operation"]}}',
 		description: 'Discover and execute marketplace services with automatic payment handling',
 		defaults: {
 			name: 'xpay✦ pay-per-use',
 		},
 		inputs: ['main' as NodeConnectionType],
-		outputs: ['main' as NodeConnectionType],
+		outputs: `={{ ($parameter.runOptions || {}).overBudgetAction === "route" ? ["main", { "type": "main", "displayName": "Over Budget" }] : ["main"] }}`,
 		credentials: [
 			{
 				name: 'xPayApi',
 				required: true,
 			},
 		],
+		// Resume URL of executions that wait for a run callback
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: '',
+				restartWebhook: true,
+			},
+		],
 		properties: [
 			// Resource selector
 			{
@@ -45,6 +191,11 @@ export class XPayPayPerUse implements INodeType {
 						value: 'discover',
 						description: 'Search and retrieve services (agents, tools, prompts)',
 					},
+					{
+						name: 'Collection',
+						value: 'collection',
+						description: 'Browse curated and tag-based sets of services',
+					},
 					{
 						name: 'Run',
 						value: 'run',
@@ -55,6 +206,11 @@ export class XPayPayPerUse implements INodeType {
 						value: 'model',
 						description: 'List available LLM models and estimate costs',
 					},
+					{
+						name: 'Account',
+						value: 'account',
+						description: 'Review run history and usage stats',
+					},
 				],
 				default: 'discover',
 			},
@@ -97,6 +253,12 @@ export class XPayPayPerUse implements INodeType {
 						description: 'List services filtered by type',
 						action: 'Browse services by type',
 					},
+					{
+						name: 'Recommend',
+						value: 'recommend',
+						description: 'Rank services by success rate, latency, rating, price and verification',
+						action: 'Recommend services',
+					},
 				],
 				default: 'search',
 			},
@@ -109,29 +271,29 @@ export class XPayPayPerUse implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['discover'],
-						operation: ['search'],
+						operation: ['search', 'recommend'],
 					},
 				},
 				default: '',
 				placeholder: 'e.g., account research, lead scoring',
-				description: 'Keywords to search for in service names and descriptions',
+				description: 'Keywords to search for in service names and descriptions. Recommend ranks every service when empty.',
 			},
 
 			// Service slug/ID
 			{
-				displayName: 'Service Slug or ID',
+				displayName: 'Service',
 				name: 'serviceSlug',
-				type: 'string',
+				type: 'resourceLocator',
 				displayOptions: {
 					show: {
 						resource: ['discover'],
 						operation: ['getService'],
 					},
 				},
-				default: '',
+				default: { mode: 'list', value: '' },
 				required: true,
-				placeholder: 'e.g., account-intel',
-				description: 'The unique slug or ID of the service to retrieve',
+				modes: SERVICE_LOCATOR_MODES,
+				description: 'The service to retrieve, picked from the marketplace or given by slug, ID or marketplace link',
 			},
 
 			// Tags filter
@@ -167,6 +329,34 @@ export class XPayPayPerUse implements INodeType {
 				description: 'Filter services by type',
 			},
 
+			// Pagination and output shape for list operations
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['discover'],
+						operation: ['search', 'browseByTags', 'browseByType'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit. When enabled, Offset sets the starting point.',
+			},
+			{
+				displayName: 'Split Into Items',
+				name: 'splitIntoItems',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['discover'],
+						operation: ['search', 'browseByTags', 'browseByType', 'recommend'],
+					},
+				},
+				default: false,
+				description: 'Whether to output one item per service instead of a single item with a services array',
+			},
+
 			// Discover filters
 			{
 				displayName: 'Filters',
@@ -206,8 +396,13 @@ export class XPayPayPerUse implements INodeType {
 						displayName: 'Limit',
 						name: 'limit',
 						type: 'number',
+						displayOptions: {
+							show: {
+								'/returnAll': [false],
+							},
+						},
 						default: 20,
-						description: 'Maximum number of results to return',
+						description: 'Max number of results to return',
 					},
 					{
 						displayName: 'Offset',
@@ -219,6 +414,204 @@ export class XPayPayPerUse implements INodeType {
 				],
 			},
 
+			// Recommend: limits, weights and hard constraints
+			{
+				displayName: 'Limit',
+				name: 'recommendLimit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['discover'],
+						operation: ['recommend'],
+					},
+				},
+				default: 5,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Weights',
+				name: 'recommendWeights',
+				type: 'collection',
+				placeholder: 'Add Weight',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['discover'],
+						operation: ['recommend'],
+					},
+				},
+				description: 'How much each criterion counts in the score. Criteria that are not set keep their default weight; 0 ignores a criterion.',
+				options: [
+					{
+						displayName: 'Latency',
+						name: 'latency',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 2,
+						description: 'Weight of the average latency (fastest service scores 1)',
+					},
+					{
+						displayName: 'Price',
+						name: 'price',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 2,
+						description: 'Weight of the price per run (cheapest service scores 1, usage-based prices score 0.5)',
+					},
+					{
+						displayName: 'Rating',
+						name: 'rating',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 2,
+						description: 'Weight of the average rating, weighed by how many ratings it is based on',
+					},
+					{
+						displayName: 'Success Rate',
+						name: 'successRate',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 3,
+						description: 'Weight of the share of runs that succeed',
+					},
+					{
+						displayName: 'Verified',
+						name: 'verified',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 1,
+						description: 'Weight of the verified badge',
+					},
+				],
+			},
+			{
+				displayName: 'Constraints',
+				name: 'recommendConstraints',
+				type: 'collection',
+				placeholder: 'Add Constraint',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['discover'],
+						operation: ['recommend'],
+					},
+				},
+				description: 'Services that break a constraint are not ranked; they are listed under excluded with the reasons',
+				options: [
+					{
+						displayName: 'Max Price per Run (USDC)',
+						name: 'maxPrice',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 6,
+						},
+						default: 0.1,
+						description: 'Highest price per run. Services priced by usage (per token or second) are excluded.',
+					},
+					{
+						displayName: 'Min Success Rate',
+						name: 'minSuccessRate',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							maxValue: 1,
+							numberPrecision: 3,
+						},
+						default: 0.95,
+						description: 'Lowest share of successful runs, from 0 to 1',
+					},
+					{
+						displayName: 'Required Tags',
+						name: 'requiredTags',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., sdr, research',
+						description: 'Comma-separated tags a service must all have',
+					},
+				],
+			},
+
+			// ============================================
+			// COLLECTION OPERATIONS
+			// ============================================
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+					},
+				},
+				options: [
+					{
+						name: 'List Collections',
+						value: 'listCollections',
+						description: 'List all service collections',
+						action: 'List collections',
+					},
+					{
+						name: 'Get Collection',
+						value: 'getCollection',
+						description: 'Get a collection by slug or ID',
+						action: 'Get collection',
+					},
+					{
+						name: 'List Services in Collection',
+						value: 'listCollectionServices',
+						description: 'List the services of a collection, resolving curated picks and tag filters',
+						action: 'List services in collection',
+					},
+				],
+				default: 'listCollections',
+			},
+			{
+				displayName: 'Collection Slug or ID',
+				name: 'collectionSlug',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						operation: ['getCollection', 'listCollectionServices'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'e.g., sdr-starter',
+				description: 'The unique slug or ID of the collection',
+			},
+			{
+				displayName: 'Featured Only',
+				name: 'featuredOnly',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						operation: ['listCollections'],
+					},
+				},
+				default: false,
+				description: 'Whether to only return featured collections',
+			},
+			{
+				displayName: 'Split Into Items',
+				name: 'splitIntoItems',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						operation: ['listCollections', 'listCollectionServices'],
+					},
+				},
+				default: false,
+				description: 'Whether to output one item per collection or service instead of a single item with an array',
+			},
+
 			// ============================================
 			// RUN OPERATIONS
 			// ============================================
@@ -245,31 +638,43 @@ export class XPayPayPerUse implements INodeType {
 						description: 'Start async execution (returns immediately with run ID)',
 						action: 'Run async',
 					},
+					{
+						name: 'Compare Models',
+						value: 'compareModels',
+						description: 'Run a service with the same inputs on several models and compare the results',
+						action: 'Compare models',
+					},
 					{
 						name: 'Get Run Status',
 						value: 'getRunStatus',
 						description: 'Poll execution status for an async run',
 						action: 'Get run status',
 					},
+					{
+						name: 'Cancel Run',
+						value: 'cancelRun',
+						description: 'Stop an async run and report whether it was still charged',
+						action: 'Cancel a run',
+					},
 				],
 				default: 'runSync',
 			},
 
 			// Run: Service Slug
 			{
-				displayName: 'Service Slug',
+				displayName: 'Service',
 				name: 'runServiceSlug',
-				type: 'string',
+				type: 'resourceLocator',
 				displayOptions: {
 					show: {
 						resource: ['run'],
-						operation: ['runSync', 'runAsync'],
+						operation: ['runSync', 'runAsync', 'compareModels'],
 					},
 				},
-				default: '',
+				default: { mode: 'list', value: '' },
 				required: true,
-				placeholder: 'e.g., account-intel',
-				description: 'The slug or ID of the service to execute. Use {{ $json.services[0].serviceSlug }} from a Discover operation.',
+				modes: SERVICE_LOCATOR_MODES,
+				description: 'The service to execute. To run services found by a Discover operation, use By Slug with {{ $json.services[0].serviceSlug }}, or {{ $json.serviceSlug }} when it splits results into items.',
 			},
 			{
 				displayName: 'Model',
@@ -288,6 +693,93 @@ export class XPayPayPerUse implements INodeType {
 				required: true,
 				description: 'The LLM model to use for execution',
 			},
+			// Run: Inputs (schema fields from the service, or free-form key/value pairs).
+			// Version 1 nodes keep key/value as the default so existing workflows are unchanged.
+			{
+				displayName: 'Input Mode',
+				name: 'inputMode',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runSync', 'runAsync', 'compareModels'],
+						'@version': [1],
+					},
+				},
+				options: [
+					{
+						name: 'Service Schema',
+						value: 'schema',
+						description: 'Fill in the typed input fields declared by the service',
+					},
+					{
+						name: 'Key/Value',
+						value: 'keyValue',
+						description: 'Enter input names and values manually',
+					},
+				],
+				default: 'keyValue',
+			},
+			{
+				displayName: 'Input Mode',
+				name: 'inputMode',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runSync', 'runAsync', 'compareModels'],
+						'@version': [1.1],
+					},
+				},
+				options: [
+					{
+						name: 'Service Schema',
+						value: 'schema',
+						description: 'Fill in the typed input fields declared by the service',
+					},
+					{
+						name: 'Key/Value',
+						value: 'keyValue',
+						description: 'Enter input names and values manually',
+					},
+				],
+				default: 'schema',
+			},
+			{
+				displayName: 'Inputs',
+				name: 'schemaInputs',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				required: true,
+				typeOptions: {
+					loadOptionsDependsOn: ['runServiceSlug'],
+					resourceMapper: {
+						resourceMapperMethod: 'getServiceInputs',
+						mode: 'add',
+						fieldWords: {
+							singular: 'input',
+							plural: 'inputs',
+						},
+						addAllFields: true,
+						multiKeyMatch: false,
+						supportAutoMap: true,
+						noFieldsError: 'The service could not be loaded. Check the service slug, or switch Input Mode to Key/Value.',
+					},
+				},
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runSync', 'runAsync', 'compareModels'],
+						inputMode: ['schema'],
+					},
+				},
+			},
 			{
 				displayName: 'Inputs',
 				name: 'inputs',
@@ -298,7 +790,8 @@ export class XPayPayPerUse implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['run'],
-						operation: ['runSync', 'runAsync'],
+						operation: ['runSync', 'runAsync', 'compareModels'],
+						inputMode: ['keyValue'],
 					},
 				},
 				default: {},
@@ -330,6 +823,47 @@ export class XPayPayPerUse implements INodeType {
 				],
 			},
 
+			{
+				displayName: 'File Inputs',
+				name: 'fileInputs',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runSync', 'runAsync', 'compareModels'],
+					},
+				},
+				default: {},
+				placeholder: 'Add File Input',
+				description: 'Pass binary data of the incoming item to file inputs. Files are inlined or uploaded depending on what the service expects.',
+				options: [
+					{
+						name: 'files',
+						displayName: 'File',
+						values: [
+							{
+								displayName: 'Input Name',
+								name: 'input',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g., document',
+								description: 'Name of the file input of the service',
+							},
+							{
+								displayName: 'Input Binary Field',
+								name: 'binaryProperty',
+								type: 'string',
+								default: 'data',
+								description: 'Name of the binary property of the incoming item that holds the file',
+							},
+						],
+					},
+				],
+			},
+
 			// Async options
 			{
 				displayName: 'Wait for Completion',
@@ -344,6 +878,33 @@ export class XPayPayPerUse implements INodeType {
 				default: true,
 				description: 'Whether to poll and wait for the async execution to complete',
 			},
+			{
+				displayName: 'Wait Mode',
+				name: 'completionMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runAsync'],
+						waitForCompletion: [true],
+					},
+				},
+				options: [
+					{
+						name: 'Poll Until Done',
+						value: 'poll',
+						description: 'Keep the execution running and poll the run status',
+					},
+					{
+						name: 'Wait for Callback',
+						value: 'callback',
+						description:
+							'Put the execution into waiting until the run reports back on the n8n resume URL; polls if no callback arrives in time',
+					},
+				],
+				default: 'poll',
+				description: 'How to wait for the run. Wait for Callback frees the worker for long runs; the router must be able to reach the n8n webhook URL.',
+			},
 			{
 				displayName: 'Polling Timeout (seconds)',
 				name: 'pollingTimeout',
@@ -358,31 +919,74 @@ export class XPayPayPerUse implements INodeType {
 				default: 180,
 				description: 'Maximum time to wait for completion (in seconds)',
 			},
-
-			// Get Status: Run ID
 			{
-				displayName: 'Run ID',
-				name: 'runId',
-				type: 'string',
+				displayName: 'Callback Timeout (seconds)',
+				name: 'callbackTimeout',
+				type: 'number',
 				displayOptions: {
 					show: {
 						resource: ['run'],
-						operation: ['getRunStatus'],
+						operation: ['runAsync'],
+						waitForCompletion: [true],
+						completionMode: ['callback'],
 					},
 				},
-				default: '',
-				required: true,
-				placeholder: 'e.g., run_abc123',
-				description: 'The run ID from a previous async execution. Use {{ $json.runId }} from a previous Run operation.',
+				default: 3600,
+				description: 'How long to wait for the run callbacks before polling the runs that did not report back. Polling then waits up to the polling timeout.',
 			},
-
-			// Run: Advanced Options
 			{
-				displayName: 'Options',
-				name: 'runOptions',
-				type: 'collection',
-				placeholder: 'Add Option',
-				default: {},
+				displayName: 'Cancel on Timeout',
+				name: 'cancelOnTimeout',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runAsync'],
+						waitForCompletion: [true],
+					},
+				},
+				default: false,
+				description: 'Whether to cancel the run when it does not complete within the polling timeout, so it stops executing and billing',
+			},
+			{
+				displayName: 'Cancel When Execution Stops',
+				name: 'cancelOnStop',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runAsync'],
+						waitForCompletion: [true],
+					},
+				},
+				default: false,
+				description: 'Whether to cancel the run when the n8n execution is stopped while waiting for it',
+			},
+
+			// Get Status: Run ID
+			{
+				displayName: 'Run ID',
+				name: 'runId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['getRunStatus', 'cancelRun'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'e.g., run_abc123',
+				description: 'The run ID from a previous async execution. Use {{ $json.runId }} from a previous Run operation.',
+			},
+
+			// Run: Advanced Options
+			{
+				displayName: 'Options',
+				name: 'runOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
 				displayOptions: {
 					show: {
 						resource: ['run'],
@@ -409,6 +1013,213 @@ export class XPayPayPerUse implements INodeType {
 						default: 4096,
 						description: 'Maximum tokens in the response',
 					},
+					{
+						displayName: 'Idempotency Key',
+						name: 'idempotencyKey',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., {{ $json.leadId }}-enrich',
+						description: 'Key the API uses to deduplicate this paid run if it is sent again. Leave empty to derive it from the execution ID, node name, item index and inputs.',
+					},
+					{
+						displayName: 'Max Cost per Run (USDC)',
+						name: 'maxCostPerRun',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 6,
+						},
+						default: 0,
+						description: 'Estimate the cost before running and do not run when the estimate is higher. Per-token estimates count the inputs and Max Tokens (or 1024) output tokens. 0 means no limit.',
+					},
+					{
+						displayName: 'When Over Budget',
+						name: 'overBudgetAction',
+						type: 'options',
+						options: [
+							{
+								name: 'Stop With Error',
+								value: 'error',
+							},
+							{
+								name: 'Send to Over Budget Output',
+								value: 'route',
+							},
+						],
+						default: 'error',
+						description: 'What to do with an item whose estimated cost is above Max Cost per Run',
+					},
+					{
+						displayName: 'Binary Output Property',
+						name: 'binaryOutputProperty',
+						type: 'string',
+						default: 'data',
+						description: 'Binary property to put the file in when the service returns a file (e.g. a PDF, image or CSV)',
+					},
+					{
+						displayName: 'Parse Output',
+						name: 'parseOutput',
+						type: 'boolean',
+						default: true,
+						description: 'Whether to normalize the output according to the service\'s output schema: parse JSON strings, take code out of fenced blocks and list the code blocks of markdown',
+					},
+					{
+						displayName: 'Convert Markdown to HTML',
+						name: 'markdownToHtml',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to convert markdown outputs to HTML. The markdown is kept in rawOutput.',
+					},
+					{
+						displayName: 'Output JSON Schema',
+						name: 'outputSchema',
+						type: 'json',
+						default: '',
+						placeholder: '{ "type": "object", "required": ["score"] }',
+						description: 'JSON Schema the output should match. Mismatches are listed in outputValidation.',
+					},
+					{
+						displayName: 'Service Version',
+						name: 'serviceVersion',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., 1.2.0',
+						description: 'Pin the run to this version of the service instead of the current one. Inputs are checked against the schema of that version, and the version the router ran is returned in serviceVersion.',
+					},
+					...SERVICE_CHANGE_OPTION_FIELDS,
+					{
+						displayName: 'Expected Schema Hash',
+						name: 'expectedSchemaHash',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., 3f9a1c0b7d2e4a18',
+						description: 'The schemaHash of an earlier run. The run is flagged when the service schema no longer matches it. Mapped inputs (Map Fields mode) are always checked against the fields saved with the workflow.',
+					},
+					...FALLBACK_MODELS_OPTION_FIELDS,
+					...RESULT_CACHE_OPTION_FIELDS,
+					...VALIDATE_INPUTS_OPTION_FIELDS,
+				],
+			},
+			// Run: Compare Models
+			{
+				displayName: 'Models',
+				name: 'compareModelIds',
+				type: 'multiOptions',
+				typeOptions: {
+					loadOptionsMethod: 'getModels',
+				},
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['compareModels'],
+					},
+				},
+				default: [],
+				required: true,
+				description: 'The models to run the service on. Every model is a separate paid run.',
+			},
+			{
+				displayName: 'Split Into Items',
+				name: 'splitIntoItems',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['compareModels'],
+					},
+				},
+				default: false,
+				description: 'Whether to output one item per model instead of a single item with a comparison array',
+			},
+			{
+				displayName: 'Options',
+				name: 'compareOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['compareModels'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Temperature',
+						name: 'temperature',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							maxValue: 2,
+							numberPrecision: 1,
+						},
+						default: 0.7,
+						description: 'Model temperature (0 = deterministic, 2 = creative)',
+					},
+					{
+						displayName: 'Max Tokens',
+						name: 'maxTokens',
+						type: 'number',
+						default: 4096,
+						description: 'Maximum tokens in the response',
+					},
+					{
+						displayName: 'Score Output Similarity',
+						name: 'scoreSimilarity',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to score each output by how similar it is to the outputs of the other models (0-1, by shared words). A cheap model that agrees with the others is usually good enough.',
+					},
+					{
+						displayName: 'Max Cost per Run (USDC)',
+						name: 'maxCostPerRun',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 6,
+						},
+						default: 0,
+						description: 'Estimate the cost of each model before running and skip the models whose estimate is higher. Per-token estimates count the inputs and Max Tokens (or 1024) output tokens. 0 means no limit.',
+					},
+					...VALIDATE_INPUTS_OPTION_FIELDS,
+					...SERVICE_CHANGE_OPTION_FIELDS,
+				],
+			},
+			{
+				displayName: 'Batching',
+				name: 'batching',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['run'],
+						operation: ['runSync', 'runAsync', 'compareModels'],
+					},
+				},
+				description: 'Run several items at the same time. Results are returned in input order.',
+				options: [
+					{
+						displayName: 'Concurrency',
+						name: 'concurrency',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 5,
+						description: 'Maximum number of items running at the same time. Compare Models also runs at most this many models of an item at the same time.',
+					},
+					{
+						displayName: 'Requests per Second (per Host)',
+						name: 'requestsPerSecond',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 1,
+						},
+						default: 10,
+						description: 'Maximum number of API requests started per second against each xpay✦ host, including status polls and retries. 0 means no limit.',
+					},
 				],
 			},
 
@@ -494,50 +1305,354 @@ export class XPayPayPerUse implements INodeType {
 					},
 				],
 			},
-
-			// Cost estimation parameters
+
+			// Cost estimation parameters
+			{
+				displayName: 'Model',
+				name: 'costModelId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getModels',
+				},
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The model to estimate cost for',
+			},
+			{
+				displayName: 'Estimate From',
+				name: 'estimateMode',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+					},
+				},
+				options: [
+					{
+						name: 'Token Counts',
+						value: 'tokens',
+						description: 'Enter the input and output token counts',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Count the input tokens of an item field with the model\'s tokenizer',
+					},
+				],
+				default: 'tokens',
+			},
+			{
+				displayName: 'Input Tokens',
+				name: 'inputTokens',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+						estimateMode: ['tokens'],
+					},
+				},
+				default: 1000,
+				description: 'Estimated number of input tokens',
+			},
+			{
+				displayName: 'Output Tokens',
+				name: 'outputTokens',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+						estimateMode: ['tokens'],
+					},
+				},
+				default: 500,
+				description: 'Estimated number of output tokens',
+			},
+			{
+				displayName: 'Text Field',
+				name: 'textField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+						estimateMode: ['text'],
+					},
+				},
+				default: 'text',
+				required: true,
+				placeholder: 'e.g., prompt or message.content',
+				description: 'Item field holding the input text. Use dots for nested fields; values that are not text are counted as JSON.',
+			},
+			{
+				displayName: 'Output Tokens',
+				name: 'outputTokensSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+						estimateMode: ['text'],
+					},
+				},
+				options: [
+					{
+						name: 'Ratio of Input Tokens',
+						value: 'ratio',
+						description: 'Project the output from the input length',
+					},
+					{
+						name: 'Model Max Output Tokens',
+						value: 'maxOutputTokens',
+						description: 'Assume the longest output the model can produce (upper bound)',
+					},
+				],
+				default: 'ratio',
+			},
+			{
+				displayName: 'Output to Input Ratio',
+				name: 'outputRatio',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 2,
+				},
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+						estimateMode: ['text'],
+						outputTokensSource: ['ratio'],
+					},
+				},
+				default: 1,
+				description: 'Output tokens per input token, capped at the model\'s max output tokens',
+			},
+			{
+				displayName: 'Pricing',
+				name: 'pricingSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+						estimateMode: ['text'],
+					},
+				},
+				options: [
+					{
+						name: 'xpay✦ Estimate API',
+						value: 'api',
+						description: 'Price the token counts with the /models/estimate endpoint',
+					},
+					{
+						name: 'Model Catalog',
+						value: 'catalog',
+						description: 'Compute the cost from the model\'s catalog pricing without another API call',
+					},
+				],
+				default: 'api',
+			},
+			{
+				displayName: 'Batch Total',
+				name: 'batchTotal',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['model'],
+						operation: ['estimateCost'],
+						estimateMode: ['text'],
+					},
+				},
+				default: false,
+				description: 'Whether to return a single item with the token counts and cost of all input items instead of one estimate per item. Every item must use the same Model and Pricing.',
+			},
+
+			// ============================================
+			// ACCOUNT OPERATIONS
+			// ============================================
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['account'],
+					},
+				},
+				options: [
+					{
+						name: 'List Runs',
+						value: 'listRuns',
+						description: 'List past runs of this account',
+						action: 'List runs',
+					},
+					{
+						name: 'Get Stats',
+						value: 'getStats',
+						description: 'Get usage stats with optional per-service and per-model breakdowns',
+						action: 'Get usage stats',
+					},
+				],
+				default: 'listRuns',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['account'],
+						operation: ['listRuns'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['account'],
+						operation: ['listRuns'],
+						returnAll: [false],
+					},
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Filters',
+				name: 'runFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['account'],
+						operation: ['listRuns', 'getStats'],
+					},
+				},
+				options: [
+					{
+						displayName: 'End Date',
+						name: 'endDate',
+						type: 'dateTime',
+						default: '',
+						description: 'Only include runs started on or before this date. A date without a time includes that whole day.',
+					},
+					{
+						displayName: 'Min Cost (USDC)',
+						name: 'minCost',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 4,
+						},
+						default: 0,
+						description: 'Only include runs that cost at least this much',
+					},
+					{
+						displayName: 'Model',
+						name: 'modelId',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., gpt-4o-mini',
+						description: 'Only include runs that used this model',
+					},
+					{
+						displayName: 'Service Slug',
+						name: 'serviceSlug',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., account-intel',
+						description: 'Only include runs of this service',
+					},
+					{
+						displayName: 'Start Date',
+						name: 'startDate',
+						type: 'dateTime',
+						default: '',
+						description: 'Only include runs started on or after this date',
+					},
+					{
+						displayName: 'Status',
+						name: 'status',
+						type: 'options',
+						options: [
+							{ name: 'Failed', value: 'failed' },
+							{ name: 'Processing', value: 'processing' },
+							{ name: 'Success', value: 'success' },
+						],
+						default: 'success',
+						description: 'Only include runs with this status',
+					},
+				],
+			},
 			{
-				displayName: 'Model',
-				name: 'costModelId',
-				type: 'options',
-				typeOptions: {
-					loadOptionsMethod: 'getModels',
-				},
+				displayName: 'Breakdowns',
+				name: 'breakdowns',
+				type: 'multiOptions',
 				displayOptions: {
 					show: {
-						resource: ['model'],
-						operation: ['estimateCost'],
+						resource: ['account'],
+						operation: ['getStats'],
 					},
 				},
-				default: '',
-				required: true,
-				description: 'The model to estimate cost for',
+				options: [
+					{
+						name: 'By Service',
+						value: 'service',
+						description: 'Runs, cost and success rate per service',
+					},
+					{
+						name: 'By Model',
+						value: 'model',
+						description: 'Runs, cost and success rate per model',
+					},
+				],
+				default: [],
+				description: 'Usage breakdowns to compute from the run history (matching the filters)',
 			},
 			{
-				displayName: 'Input Tokens',
-				name: 'inputTokens',
-				type: 'number',
+				displayName: 'Split Into Items',
+				name: 'splitIntoItems',
+				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['model'],
-						operation: ['estimateCost'],
+						resource: ['account'],
+						operation: ['listRuns'],
 					},
 				},
-				default: 1000,
-				description: 'Estimated number of input tokens',
+				default: false,
+				description: 'Whether to output one item per run instead of a single item with a runs array',
 			},
+
+			// ============================================
+			// REQUEST OPTIONS (all operations)
+			// ============================================
 			{
-				displayName: 'Output Tokens',
-				name: 'outputTokens',
-				type: 'number',
-				displayOptions: {
-					show: {
-						resource: ['model'],
-						operation: ['estimateCost'],
-					},
-				},
-				default: 500,
-				description: 'Estimated number of output tokens',
+				displayName: 'Request Options',
+				name: 'requestOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [...RETRY_OPTION_FIELDS, ...CACHE_OPTION_FIELDS],
 			},
 		],
 	};
@@ -546,7 +1661,7 @@ export class XPayPayPerUse implements INodeType {
 		loadOptions: {
 			async getModels(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
 				try {
-					const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.MODELS);
+					const response = await catalogRequest(this, ENDPOINTS.MODELS);
 					const models = response.models || response || [];
 
 					return models.map((model: ModelCatalogEntry) => ({
@@ -559,18 +1674,236 @@ export class XPayPayPerUse implements INodeType {
 				}
 			},
 		},
+		listSearch: {
+			async searchServices(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return searchServices(this, filter, paginationToken);
+			},
+		},
+		resourceMapping: {
+			async getServiceInputs(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				const locator = this.getCurrentNodeParameter('runServiceSlug') as unknown;
+				const value = locator && typeof locator === 'object' ? (locator as { value?: unknown }).value : locator;
+				const serviceSlug = String(value ?? '').startsWith('=') ? undefined : parseServiceLocator(locator);
+				if (!serviceSlug) {
+					return {
+						fields: [],
+						emptyFieldsNotice: 'Pick a service or enter a fixed service slug to load its inputs',
+					};
+				}
+
+				const glyph = await getService(this, serviceSlug);
+				return getResourceMapperFields(glyph.schema?.inputs);
+			},
+		},
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+		// Collected per item and flattened at the end, so batched runs keep the input order
+		const returnData: INodeExecutionData[][] = items.map(() => []);
+		const overBudgetData: INodeExecutionData[][] = items.map(() => []);
+
+		const isRunOperation =
+			items.length > 0 &&
+			this.getNodeParameter('resource', 0) === 'run' &&
+			['runSync', 'runAsync', 'compareModels'].includes(this.getNodeParameter('operation', 0) as string);
+		const runOptions = isRunOperation ? (this.getNodeParameter('runOptions', 0, {}) as IDataObject) : {};
+		const batchOptions = getBatchOptions(
+			isRunOperation ? (this.getNodeParameter('batching', 0, {}) as IDataObject) : {},
+		);
+		const rateLimiter = batchOptions.requestsPerSecond
+			? new HostRateLimiter(batchOptions.requestsPerSecond)
+			: undefined;
+		// Estimate From Text with Batch Total: items are only counted, the total is priced at the end
+		const isBatchEstimate =
+			items.length > 0 &&
+			this.getNodeParameter('resource', 0) === 'model' &&
+			this.getNodeParameter('operation', 0) === 'estimateCost' &&
+			this.getNodeParameter('estimateMode', 0, 'tokens') === 'text' &&
+			(this.getNodeParameter('batchTotal', 0, false) as boolean);
+		const tokenCounts: Array<{ inputTokens: number; outputTokens: number } | undefined> = items.map(() => undefined);
+		// Run Async items set to Wait for Callback, started once every item is prepared
+		const callbackRuns: Array<{
+			run: AsyncRun;
+			start: (callbackUrl?: string) => Promise<{ run: AsyncRun }>;
+		}> = [];
+
+		// Shared by Run Sync and Run Async: resolves, checks and prices the run of item i. Returns undefined
+		// when the item is already answered, from the result cache or on the over budget output
+		const prepareRun = async (i: number, options: RunOptions, requestOptions: XPayRequestOptions) => {
+			const serviceSlug = getServiceSlug(this.getNode(), this.getNodeParameter('runServiceSlug', i), i);
+			const modelId = this.getNodeParameter('runModelId', i) as string;
+			const outputOptions = getOutputOptions(this.getNode(), options, i);
+
+			const inputs =
+				this.getNodeParameter('inputMode', i) === 'schema'
+					? getResourceMapperInputs(this.getNodeParameter('schemaInputs', i) as ResourceMapperValue, items[i].json)
+					: parseInputsCollection(
+						this.getNodeParameter('inputs', i) as { inputValues?: Array<{ key: string; value: string }> },
+					);
+			const files = await readBinaryInputs(
+				this,
+				i,
+				getFileInputMappings(this.getNodeParameter('fileInputs', i, {}) as { files?: FileInputMapping[] }),
+			);
+			Object.assign(inputs, getFilePlaceholders(files));
+
+			const serviceVersion = options.serviceVersion?.trim() || undefined;
+			// A pinned version is checked, validated and priced with its own schema; the current version only adds warnings
+			const currentGlyph = serviceVersion
+				? await getService(this, serviceSlug, requestOptions)
+				: await getPublishedService(this, serviceSlug, requestOptions, i);
+			const glyph = serviceVersion
+				? await getPinnedService(this, currentGlyph, serviceVersion, requestOptions, i)
+				: currentGlyph;
+			const serviceWarnings = checkServiceLifecycle(
+				this.getNode(),
+				glyph,
+				{
+					savedFields:
+						this.getNodeParameter('inputMode', i) === 'schema'
+							? (this.getNodeParameter('schemaInputs', i) as ResourceMapperValue).schema
+							: undefined,
+					expectedSchemaHash: options.expectedSchemaHash,
+					current: currentGlyph,
+					action: options.serviceChangeAction,
+				},
+				i,
+			);
+			if (options.validateInputs !== false) {
+				const inputErrors = validateInputs(inputs, glyph.schema?.inputs);
+				if (inputErrors.length) {
+					throw new InputValidationError(this.getNode(), serviceSlug, inputErrors, i);
+				}
+			}
+
+			const models = getModelChain(modelId, options.fallbackModels);
+
+			// A cached result of an identical run is returned without paying (or checking the budget) again
+			const resultCache = getResultCacheOptions(options);
+			const cacheLookup = await lookUpCachedResult(this, resultCache, {
+				serviceSlug,
+				serviceVersion: glyph.version,
+				modelId,
+				fallbackModels: models.slice(1),
+				inputs,
+				temperature: options.temperature,
+				maxTokens: options.maxTokens,
+			});
+			if (cacheLookup?.cached) {
+				const cachedOutput = await getCachedRunOutput(
+					this,
+					cacheLookup.cached,
+					serviceSlug,
+					modelId,
+					glyph.schema?.outputs,
+					outputOptions,
+				);
+				returnData[i].push({
+					json: { ...cachedOutput.json, ...getServiceRunFields(glyph, currentGlyph, serviceWarnings) },
+					...(cachedOutput.binary ? { binary: cachedOutput.binary } : {}),
+					pairedItem: { item: i },
+				});
+				return undefined;
+			}
 
-		for (let i = 0; i < items.length; i++) {
+			let costEstimate: RunCostEstimate | undefined;
+			if (options.maxCostPerRun) {
+				costEstimate = await estimateRunCost(this, glyph, modelId, inputs, options.maxTokens, requestOptions);
+				if (isOverBudget(costEstimate, options.maxCostPerRun)) {
+					if (options.overBudgetAction !== 'route') {
+						throw new BudgetExceededError(
+							this.getNode(),
+							serviceSlug,
+							costEstimate.estimatedCost!,
+							options.maxCostPerRun,
+							i,
+						);
+					}
+					overBudgetData[i].push({
+						json: {
+							status: 'over_budget',
+							serviceSlug,
+							modelId,
+							costReport: getCostReport(costEstimate, options.maxCostPerRun),
+						},
+						pairedItem: { item: i },
+					});
+					return undefined;
+				}
+			}
+
+			const costEstimates = new Map<string, RunCostEstimate>();
+			if (costEstimate) {
+				costEstimates.set(modelId, costEstimate);
+			}
+			// Fallback models whose estimate is over budget are skipped
+			const skipOverBudget = async (fallbackModelId: string) => {
+				const estimate = await estimateRunCost(this, glyph, fallbackModelId, inputs, options.maxTokens, requestOptions);
+				costEstimates.set(fallbackModelId, estimate);
+				return isOverBudget(estimate, options.maxCostPerRun!)
+					? `Estimated cost of ${estimate.estimatedCost} USDC exceeds the max cost per run`
+					: undefined;
+			};
+
+			const runParams: any = {
+				glyphSlug: serviceSlug,
+				modelId,
+				inputs,
+			};
+
+			if (options.temperature !== undefined) {
+				runParams.temperature = options.temperature;
+			}
+			if (options.maxTokens !== undefined) {
+				runParams.maxTokens = options.maxTokens;
+			}
+			if (serviceVersion) {
+				runParams.glyphVersion = serviceVersion;
+			}
+
+			const idempotencyKeys = getChainIdempotencyKeys(this, i, runParams, models, options.idempotencyKey);
+			if (Object.keys(files).length) {
+				runParams.inputs = await encodeFileInputs(this, inputs, files, glyph.schema?.inputs, requestOptions);
+			}
+
+			return {
+				serviceSlug,
+				modelId,
+				outputOptions,
+				glyph,
+				currentGlyph,
+				serviceWarnings,
+				inputs,
+				files,
+				resultCache,
+				cacheLookup,
+				costEstimate,
+				costEstimates,
+				skipOverBudget,
+				runParams,
+				models,
+				idempotencyKeys,
+			};
+		};
+
+		const executeItem = async (i: number): Promise<void> => {
 			try {
 				const resource = this.getNodeParameter('resource', i) as string;
 				const operation = this.getNodeParameter('operation', i) as string;
+				const requestOptionsParameter = this.getNodeParameter('requestOptions', i, {}) as IDataObject;
+				const requestOptions: XPayRequestOptions = {
+					retry: getRetryOptions(requestOptionsParameter),
+					cache: getCacheOptions(requestOptionsParameter),
+					rateLimiter,
+				};
 
 				let result: any;
+				let binary: IBinaryKeyData | undefined;
 
 				// ============================================
 				// DISCOVER OPERATIONS
@@ -591,10 +1924,13 @@ export class XPayPayPerUse implements INodeType {
 						if (filters.verified) query.verified = true;
 						if (filters.featured) query.featured = true;
 						if (filters.trending) query.trending = true;
-						if (filters.limit) query.limit = filters.limit;
+						const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+						if (filters.limit && !returnAll) query.limit = filters.limit;
 						if (filters.offset) query.offset = filters.offset;
 
-						const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.GLYPHS, undefined, query);
+						const response = returnAll
+							? await catalogRequestAll(this, ENDPOINTS.GLYPHS, 'glyphs', query, requestOptions)
+							: await catalogRequest(this, ENDPOINTS.GLYPHS, query, requestOptions);
 						const services = (response.glyphs || response || []).map((g: any) => ({
 							...g,
 							serviceId: g.id,
@@ -604,11 +1940,11 @@ export class XPayPayPerUse implements INodeType {
 							services,
 							total: response.total,
 							query: searchQuery,
+							...(response.truncated ? { truncated: true } : {}),
 						};
 					} else if (operation === 'getService') {
-						const serviceSlug = this.getNodeParameter('serviceSlug', i) as string;
-						const response = await glyphCoreRequest(this, 'GET', `${ENDPOINTS.GLYPH}/${serviceSlug}`);
-						const glyph = response.glyph || response;
+						const serviceSlug = getServiceSlug(this.getNode(), this.getNodeParameter('serviceSlug', i), i);
+						const glyph = await getPublishedService(this, serviceSlug, requestOptions, i);
 						result = {
 							service: {
 								...glyph,
@@ -631,10 +1967,13 @@ export class XPayPayPerUse implements INodeType {
 						if (filters.verified) query.verified = true;
 						if (filters.featured) query.featured = true;
 						if (filters.trending) query.trending = true;
-						if (filters.limit) query.limit = filters.limit;
+						const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+						if (filters.limit && !returnAll) query.limit = filters.limit;
 						if (filters.offset) query.offset = filters.offset;
 
-						const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.GLYPHS, undefined, query);
+						const response = returnAll
+							? await catalogRequestAll(this, ENDPOINTS.GLYPHS, 'glyphs', query, requestOptions)
+							: await catalogRequest(this, ENDPOINTS.GLYPHS, query, requestOptions);
 						const services = (response.glyphs || response || []).map((g: any) => ({
 							...g,
 							serviceId: g.id,
@@ -644,6 +1983,7 @@ export class XPayPayPerUse implements INodeType {
 							services,
 							total: response.total,
 							tags: tagList,
+							...(response.truncated ? { truncated: true } : {}),
 						};
 					} else if (operation === 'browseByType') {
 						const serviceType = this.getNodeParameter('serviceType', i) as string;
@@ -659,10 +1999,13 @@ export class XPayPayPerUse implements INodeType {
 						if (filters.verified) query.verified = true;
 						if (filters.featured) query.featured = true;
 						if (filters.trending) query.trending = true;
-						if (filters.limit) query.limit = filters.limit;
+						const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+						if (filters.limit && !returnAll) query.limit = filters.limit;
 						if (filters.offset) query.offset = filters.offset;
 
-						const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.GLYPHS, undefined, query);
+						const response = returnAll
+							? await catalogRequestAll(this, ENDPOINTS.GLYPHS, 'glyphs', query, requestOptions)
+							: await catalogRequest(this, ENDPOINTS.GLYPHS, query, requestOptions);
 						const services = (response.glyphs || response || []).map((g: any) => ({
 							...g,
 							serviceId: g.id,
@@ -672,41 +2015,133 @@ export class XPayPayPerUse implements INodeType {
 							services,
 							total: response.total,
 							type: serviceType,
+							...(response.truncated ? { truncated: true } : {}),
+						};
+					} else if (operation === 'recommend') {
+						const searchQuery = this.getNodeParameter('searchQuery', i) as string;
+						const weights = getRecommendWeights(
+							this.getNodeParameter('recommendWeights', i, {}) as Partial<RecommendWeights>,
+						);
+						const constraints = this.getNodeParameter('recommendConstraints', i, {}) as {
+							maxPrice?: number;
+							minSuccessRate?: number;
+							requiredTags?: string;
+						};
+						if (Object.values(weights).some((weight) => weight < 0) || !Object.values(weights).some((weight) => weight > 0)) {
+							throw new XPayOperationError(this.getNode(), 'Recommend weights must be 0 or more, with at least one above 0', {
+								remediation: 'Check the Weights option.',
+								itemIndex: i,
+							});
+						}
+
+						const response = await catalogRequestAll(
+							this,
+							ENDPOINTS.GLYPHS,
+							'glyphs',
+							searchQuery ? { search: searchQuery } : {},
+							requestOptions,
+						);
+						const glyphs: Glyph[] = response.glyphs || response || [];
+						const { recommendations, excluded } = recommendServices(glyphs, weights, {
+							maxPrice: constraints.maxPrice,
+							minSuccessRate: constraints.minSuccessRate,
+							requiredTags: (constraints.requiredTags ?? '').split(',').map((t) => t.trim()).filter((t) => t),
+						});
+						result = {
+							recommendations: recommendations.slice(0, this.getNodeParameter('recommendLimit', i, 5) as number),
+							candidates: glyphs.length,
+							excluded,
+							weights,
+							query: searchQuery,
 						};
 					}
 				}
 
 				// ============================================
-				// RUN OPERATIONS
+				// COLLECTION OPERATIONS
 				// ============================================
-				else if (resource === 'run') {
-					if (operation === 'runSync') {
-						const serviceSlug = this.getNodeParameter('runServiceSlug', i) as string;
-						const modelId = this.getNodeParameter('runModelId', i) as string;
-						const inputsCollection = this.getNodeParameter('inputs', i) as {
-							inputValues?: Array<{ key: string; value: string }>;
+				else if (resource === 'collection') {
+					if (operation === 'listCollections') {
+						const featuredOnly = this.getNodeParameter('featuredOnly', i, false) as boolean;
+						const response = await catalogRequest(this, ENDPOINTS.COLLECTIONS, undefined, requestOptions);
+						let collections: CollectionTheme[] = response.collections || response || [];
+						if (featuredOnly) {
+							collections = collections.filter((c) => c.featured);
+						}
+						result = {
+							collections,
+							total: collections.length,
 						};
-						const options = this.getNodeParameter('runOptions', i) as {
-							temperature?: number;
-							maxTokens?: number;
+					} else if (operation === 'getCollection') {
+						const collectionSlug = this.getNodeParameter('collectionSlug', i) as string;
+						const response = await catalogRequest(this, `${ENDPOINTS.COLLECTION}/${collectionSlug}`, undefined, requestOptions);
+						result = {
+							collection: response.collection || response,
 						};
-
-						const inputs = parseInputsCollection(inputsCollection);
-
-						const runParams: any = {
-							glyphSlug: serviceSlug,
-							modelId,
-							inputs,
+					} else if (operation === 'listCollectionServices') {
+						const collectionSlug = this.getNodeParameter('collectionSlug', i) as string;
+						const response = await catalogRequest(this, `${ENDPOINTS.COLLECTION}/${collectionSlug}`, undefined, requestOptions);
+						const collection: CollectionTheme = response.collection || response;
+						const { glyphs, missingGlyphIds } = await resolveCollectionServices(this, collection, requestOptions);
+						result = {
+							collection: {
+								id: collection.id,
+								slug: collection.slug,
+								name: collection.name,
+								collectionType: collection.collectionType,
+							},
+							services: glyphs.map((g) => ({
+								...g,
+								serviceId: g.id,
+								serviceSlug: g.slug,
+							})),
+							total: glyphs.length,
+							missingGlyphIds,
 						};
+					}
+				}
 
-						if (options.temperature !== undefined) {
-							runParams.temperature = options.temperature;
-						}
-						if (options.maxTokens !== undefined) {
-							runParams.maxTokens = options.maxTokens;
+				// ============================================
+				// RUN OPERATIONS
+				// ============================================
+				else if (resource === 'run') {
+					if (operation === 'runSync') {
+						const options = this.getNodeParameter('runOptions', i) as RunOptions;
+						const prepared = await prepareRun(i, options, requestOptions);
+						if (!prepared) {
+							return;
 						}
-
-						const response = await glyphRouterRequest(this, 'POST', ENDPOINTS.RUN, runParams) as RunResult;
+						const {
+							serviceSlug,
+							modelId,
+							outputOptions,
+							glyph,
+							currentGlyph,
+							serviceWarnings,
+							cacheLookup,
+							costEstimate,
+							costEstimates,
+							skipOverBudget,
+							runParams,
+							models,
+							idempotencyKeys,
+						} = prepared;
+						const fallback = await runWithModelFallback(
+							models,
+							async (attemptModelId) =>
+								glyphRouterRequest(this, 'POST', ENDPOINTS.RUN, { ...runParams, modelId: attemptModelId }, undefined, {
+									...requestOptions,
+									idempotencyKey: idempotencyKeys[attemptModelId],
+									returnFullResponse: true,
+								}) as Promise<XPayFullResponse>,
+							{
+								skip: options.maxCostPerRun ? skipOverBudget : undefined,
+								getRunId: (fullResponse) => (fullResponse.body as RunResult).runId,
+								getCost: (fullResponse) => (fullResponse.body as RunResult).cost,
+							},
+						);
+						const fullResponse = fallback.result;
+						const response = fullResponse.body as RunResult;
 
 						result = {
 							runId: response.runId,
@@ -716,105 +2151,295 @@ export class XPayPayPerUse implements INodeType {
 							cost: response.cost,
 							duration: response.duration || response.latencyMs,
 							serviceSlug,
-							modelId,
+							modelId: fallback.modelId,
+							idempotencyKey: idempotencyKeys[fallback.modelId],
+							replayed: isReplayedResponse(fullResponse),
+							...getServiceRunFields(glyph, currentGlyph, serviceWarnings, response.glyphVersion),
 						};
+						if (models.length > 1) {
+							result.requestedModelId = modelId;
+							result.attempts = fallback.attempts;
+							result.totalCost = getAttemptsCost(fallback.attempts);
+						}
+						if (result.status === 'completed') {
+							const processed = await processRunOutput(
+								this,
+								result.output,
+								glyph.schema?.outputs,
+								outputOptions,
+								`${serviceSlug}-${result.runId}`,
+							);
+							Object.assign(result, processed.fields);
+							binary = processed.binary;
+						}
+						if (costEstimate) {
+							result.costReport = getCostReport(
+								costEstimates.get(fallback.modelId) ?? costEstimate,
+								options.maxCostPerRun!,
+								response.cost,
+							);
+						}
+						if (cacheLookup) {
+							await cacheRunResult(cacheLookup, result, {
+								runId: response.runId,
+								modelId: fallback.modelId,
+								output: response.output,
+								cost: response.cost,
+								duration: result.duration,
+							});
+						}
 					} else if (operation === 'runAsync') {
-						const serviceSlug = this.getNodeParameter('runServiceSlug', i) as string;
-						const modelId = this.getNodeParameter('runModelId', i) as string;
-						const inputsCollection = this.getNodeParameter('inputs', i) as {
-							inputValues?: Array<{ key: string; value: string }>;
-						};
 						const waitForCompletion = this.getNodeParameter('waitForCompletion', i) as boolean;
 						const pollingTimeout = this.getNodeParameter('pollingTimeout', i, 180) as number;
-						const options = this.getNodeParameter('runOptions', i) as {
+						const options = this.getNodeParameter('runOptions', i) as RunOptions;
+						const prepared = await prepareRun(i, options, requestOptions);
+						if (!prepared) {
+							return;
+						}
+						const {
+							serviceSlug,
+							modelId,
+							outputOptions,
+							glyph,
+							currentGlyph,
+							serviceWarnings,
+							resultCache,
+							cacheLookup,
+							costEstimate,
+							costEstimates,
+							skipOverBudget,
+							runParams,
+							models,
+							idempotencyKeys,
+						} = prepared;
+						const run: AsyncRun = {
+							item: i,
+							runId: '',
+							serviceSlug,
+							requestedModelId: modelId,
+							modelId,
+							idempotencyKey: idempotencyKeys[modelId],
+							replayed: false,
+							serviceFields: getServiceRunFields(glyph, currentGlyph, serviceWarnings),
+							outputs: glyph.schema?.outputs,
+							outputOptions,
+							pollingTimeout,
+							cancelOnTimeout: this.getNodeParameter('cancelOnTimeout', i, false) as boolean,
+							cancelOnStop: this.getNodeParameter('cancelOnStop', i, false) as boolean,
+							costEstimate,
+							maxCostPerRun: options.maxCostPerRun,
+							resultCache: cacheLookup ? { options: resultCache, key: cacheLookup.key, error: cacheLookup.error } : undefined,
+							startedAt: Date.now(),
+						};
+						// Falls back when the run cannot be started; the run itself is not restarted
+						const startRun = async (callbackUrl?: string) => {
+							const fallback = await runWithModelFallback(
+								models,
+								async (attemptModelId) =>
+									glyphRouterRequest(
+										this,
+										'POST',
+										ENDPOINTS.RUN_ASYNC,
+										{ ...runParams, modelId: attemptModelId, ...(callbackUrl ? { callbackUrl } : {}) },
+										undefined,
+										{ ...requestOptions, idempotencyKey: idempotencyKeys[attemptModelId], returnFullResponse: true },
+									) as Promise<XPayFullResponse>,
+								{
+									skip: options.maxCostPerRun ? skipOverBudget : undefined,
+									getRunId: (fullResponse) => (fullResponse.body as AsyncRunResult).runId,
+								},
+							);
+							const asyncResult = fallback.result.body as AsyncRunResult;
+							if (!asyncResult.accepted || !asyncResult.runId) {
+								throw new ServiceFailedError(this.getNode(), {
+									message: asyncResult.error || 'Failed to start async execution',
+									upstream: asyncResult,
+									itemIndex: i,
+								});
+							}
+							const startedRun: AsyncRun = {
+								...run,
+								runId: asyncResult.runId,
+								modelId: fallback.modelId,
+								idempotencyKey: idempotencyKeys[fallback.modelId],
+								replayed: isReplayedResponse(fallback.result),
+								serviceFields: getServiceRunFields(glyph, currentGlyph, serviceWarnings, asyncResult.glyphVersion),
+								attempts: models.length > 1 ? fallback.attempts : undefined,
+								costEstimate: costEstimate ? (costEstimates.get(fallback.modelId) ?? costEstimate) : undefined,
+								startedAt: Date.now(),
+							};
+							return { asyncResult, run: startedRun };
+						};
+
+						// Runs that report back are started together once every item is prepared
+						if (waitForCompletion && this.getNodeParameter('completionMode', i, 'poll') === 'callback') {
+							callbackRuns.push({ run, start: startRun });
+							return;
+						}
+
+						const started = await startRun();
+						if (!waitForCompletion) {
+							result = {
+								runId: started.run.runId,
+								status: 'processing',
+								statusUrl: started.asyncResult.statusUrl,
+								message: started.asyncResult.message || 'Execution started',
+								serviceSlug,
+								modelId: started.run.modelId,
+								idempotencyKey: started.run.idempotencyKey,
+								replayed: started.run.replayed,
+								...started.run.serviceFields,
+							};
+							await completeRunResult(this, started.run, result);
+						} else {
+							const poll = await pollRunStatus(
+								this,
+								started.run.runId,
+								pollingTimeout * 1000,
+								requestOptions,
+								this.getExecutionCancelSignal(),
+							);
+							({ json: result, binary } = await getAsyncRunResult(this, started.run, poll, requestOptions));
+						}
+					} else if (operation === 'compareModels') {
+						const serviceSlug = getServiceSlug(this.getNode(), this.getNodeParameter('runServiceSlug', i), i);
+						const modelIds = [...new Set(this.getNodeParameter('compareModelIds', i) as string[])];
+						const options = this.getNodeParameter('compareOptions', i, {}) as {
 							temperature?: number;
 							maxTokens?: number;
+							scoreSimilarity?: boolean;
+							validateInputs?: boolean;
+							maxCostPerRun?: number;
+							serviceChangeAction?: 'warn' | 'error';
 						};
+						if (!modelIds.length) {
+							throw new XPayOperationError(this.getNode(), 'Select at least one model to compare', { itemIndex: i });
+						}
 
-						const inputs = parseInputsCollection(inputsCollection);
+						const inputs =
+							this.getNodeParameter('inputMode', i) === 'schema'
+								? getResourceMapperInputs(this.getNodeParameter('schemaInputs', i) as ResourceMapperValue, items[i].json)
+								: parseInputsCollection(
+									this.getNodeParameter('inputs', i) as { inputValues?: Array<{ key: string; value: string }> },
+								);
+						const files = await readBinaryInputs(
+							this,
+							i,
+							getFileInputMappings(this.getNodeParameter('fileInputs', i, {}) as { files?: FileInputMapping[] }),
+						);
+						Object.assign(inputs, getFilePlaceholders(files));
+
+						const glyph = await getPublishedService(this, serviceSlug, requestOptions, i);
+						const serviceWarnings = checkServiceLifecycle(
+							this.getNode(),
+							glyph,
+							{
+								savedFields:
+									this.getNodeParameter('inputMode', i) === 'schema'
+										? (this.getNodeParameter('schemaInputs', i) as ResourceMapperValue).schema
+										: undefined,
+								action: options.serviceChangeAction,
+							},
+							i,
+						);
+						if (options.validateInputs !== false) {
+							const inputErrors = validateInputs(inputs, glyph.schema?.inputs);
+							if (inputErrors.length) {
+								throw new InputValidationError(this.getNode(), serviceSlug, inputErrors, i);
+							}
+						}
 
 						const runParams: any = {
 							glyphSlug: serviceSlug,
-							modelId,
 							inputs,
 						};
-
 						if (options.temperature !== undefined) {
 							runParams.temperature = options.temperature;
 						}
 						if (options.maxTokens !== undefined) {
 							runParams.maxTokens = options.maxTokens;
 						}
-
-						const asyncResult = await glyphRouterRequest(
-							this,
-							'POST',
-							ENDPOINTS.RUN_ASYNC,
-							runParams,
-						) as AsyncRunResult;
-
-						if (!asyncResult.accepted || !asyncResult.runId) {
-							throw new Error(asyncResult.error || 'Failed to start async execution');
+						const idempotencyKeys = Object.fromEntries(
+							modelIds.map((modelId) => [modelId, getIdempotencyKey(this, i, { ...runParams, modelId })]),
+						);
+						if (Object.keys(files).length) {
+							runParams.inputs = await encodeFileInputs(this, inputs, files, glyph.schema?.inputs, requestOptions);
 						}
 
-						if (!waitForCompletion) {
-							result = {
-								runId: asyncResult.runId,
-								status: 'processing',
-								statusUrl: asyncResult.statusUrl,
-								message: asyncResult.message || 'Execution started',
-								serviceSlug,
-								modelId,
-							};
-						} else {
+						// Up to Concurrency models run at the same time; a failed or over budget model is reported in its row
+						const comparison: ModelComparisonRow[] = [];
+						await runWithConcurrency(modelIds.length, batchOptions.concurrency, async (index) => {
+							const modelId = modelIds[index];
 							const startTime = Date.now();
-							const timeoutMs = pollingTimeout * 1000;
-
-							while (true) {
-								if (Date.now() - startTime > timeoutMs) {
-									result = {
-										runId: asyncResult.runId,
-										status: 'timeout',
-										error: `Execution did not complete within ${pollingTimeout} seconds`,
-										serviceSlug,
-										modelId,
-									};
-									break;
+							let costEstimate: RunCostEstimate | undefined;
+							try {
+								if (options.maxCostPerRun) {
+									costEstimate = await estimateRunCost(this, glyph, modelId, inputs, options.maxTokens, requestOptions);
+									if (isOverBudget(costEstimate, options.maxCostPerRun)) {
+										comparison[index] = {
+											modelId,
+											success: false,
+											status: 'over_budget',
+											error: `Estimated cost of ${costEstimate.estimatedCost} USDC exceeds the max cost per run`,
+											cost: null,
+											latencyMs: 0,
+											costReport: getCostReport(costEstimate, options.maxCostPerRun),
+										};
+										return;
+									}
 								}
-
-								await sleep(DEFAULTS.POLLING_INTERVAL_MS);
-
-								const statusResult = await glyphRouterRequest(
+								const response = await glyphRouterRequest(
 									this,
-									'GET',
-									`${ENDPOINTS.RUN_STATUS}/${asyncResult.runId}`,
-								) as RunStatusResult;
-
-								if (statusResult.status === 'success' || statusResult.status === 'completed') {
-									result = {
-										runId: asyncResult.runId,
-										status: 'completed',
-										output: statusResult.output,
-										cost: statusResult.cost,
-										duration: statusResult.duration,
-										serviceSlug,
-										modelId,
-									};
-									break;
-								}
-
-								if (statusResult.status === 'failed' || statusResult.status === 'error') {
-									result = {
-										runId: asyncResult.runId,
-										status: 'failed',
-										error: statusResult.error,
-										serviceSlug,
-										modelId,
-									};
-									break;
-								}
+									'POST',
+									ENDPOINTS.RUN,
+									{ ...runParams, modelId },
+									undefined,
+									{ ...requestOptions, idempotencyKey: idempotencyKeys[modelId] },
+								) as RunResult;
+								comparison[index] = {
+									modelId,
+									success: !!response.success,
+									status: response.success ? 'completed' : 'failed',
+									output: response.output,
+									...(response.error ? { error: response.error } : {}),
+									cost: response.cost ?? null,
+									latencyMs: Date.now() - startTime,
+									duration: response.duration || response.latencyMs,
+									runId: response.runId,
+									...(costEstimate ? { costReport: getCostReport(costEstimate, options.maxCostPerRun!, response.cost) } : {}),
+								};
+							} catch (error) {
+								const xpayError = toXPayError(this.getNode(), error, 'run/compareModels', i);
+								comparison[index] = {
+									modelId,
+									success: false,
+									status: 'error',
+									error: xpayError.message,
+									cost: null,
+									latencyMs: Date.now() - startTime,
+								};
 							}
+						});
+						if (options.scoreSimilarity) {
+							scoreSimilarity(comparison);
 						}
+
+						// Every row carries the service fields, so split rows keep the version and warnings
+						const serviceFields = getServiceRunFields(glyph, glyph, serviceWarnings);
+						result = {
+							serviceSlug,
+							...serviceFields,
+							comparison: comparison.map((row) => ({ serviceSlug, ...row, ...serviceFields })),
+							summary: summarizeComparison(comparison),
+						};
+					} else if (operation === 'cancelRun') {
+						const runId = this.getNodeParameter('runId', i) as string;
+						const cancelResult = await cancelRun(this, runId, requestOptions);
+
+						result = {
+							runId: cancelResult.runId || runId,
+							...getCancellationOutput(cancelResult),
+						};
 					} else if (operation === 'getRunStatus') {
 						const runId = this.getNodeParameter('runId', i) as string;
 
@@ -822,6 +2447,9 @@ export class XPayPayPerUse implements INodeType {
 							this,
 							'GET',
 							`${ENDPOINTS.RUN_STATUS}/${runId}`,
+							undefined,
+							undefined,
+							requestOptions,
 						) as RunStatusResult;
 
 						result = {
@@ -855,21 +2483,79 @@ export class XPayPayPerUse implements INodeType {
 						if (modelFilters.tier) query.tier = modelFilters.tier;
 						if (modelFilters.featured) query.featured = true;
 
-						const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.MODELS, undefined, query);
+						const response = await catalogRequest(this, ENDPOINTS.MODELS, query, requestOptions);
 						result = {
 							models: response.models || response || [],
 							total: response.total,
 						};
-					} else if (operation === 'estimateCost') {
+					} else if (operation === 'estimateCost' && this.getNodeParameter('estimateMode', i, 'tokens') === 'text') {
 						const modelId = this.getNodeParameter('costModelId', i) as string;
-						const inputTokens = this.getNodeParameter('inputTokens', i) as number;
-						const outputTokens = this.getNodeParameter('outputTokens', i) as number;
+						const textField = this.getNodeParameter('textField', i) as string;
+						const text = getTextField(items[i].json, textField);
+						if (text === undefined) {
+							throw new XPayOperationError(this.getNode(), `The item has no field "${textField}" to count`, {
+								remediation: 'Check the Text Field name. Use dots for nested fields, e.g. message.content.',
+								itemIndex: i,
+							});
+						}
+						// The batch total is priced once with the first item's model and pricing
+						if (
+							isBatchEstimate &&
+							(modelId !== this.getNodeParameter('costModelId', 0) ||
+								this.getNodeParameter('pricingSource', i, 'api') !== this.getNodeParameter('pricingSource', 0, 'api'))
+						) {
+							throw new XPayOperationError(this.getNode(), 'Batch Total needs the same Model and Pricing for every item', {
+								remediation: 'Set Model and Pricing to fixed values, or turn off Batch Total to price each item on its own.',
+								itemIndex: i,
+							});
+						}
+						const model = await getModel(this, modelId, requestOptions, i);
+						const outputTokensSource = this.getNodeParameter('outputTokensSource', i, 'ratio') as OutputTokenOptions['source'];
+						const inputTokens = await countTokens(text, model);
+						const outputTokens = projectOutputTokens(inputTokens, model, {
+							source: outputTokensSource,
+							ratio: this.getNodeParameter('outputRatio', i, 1) as number,
+						});
+
+						// Batch totals are priced once, after all items are counted
+						if (isBatchEstimate) {
+							tokenCounts[i] = { inputTokens, outputTokens };
+							return;
+						}
 
-						const response = await glyphCoreRequest(this, 'POST', ENDPOINTS.MODELS_ESTIMATE, {
+						result = {
+							estimate: await estimateTokenCost(
+								this,
+								model,
+								inputTokens,
+								outputTokens,
+								this.getNodeParameter('pricingSource', i, 'api') as TokenPricingSource,
+								requestOptions,
+							),
 							modelId,
+							provider: model.provider,
+							tokenizer: getTokenizer(model).encoding,
 							inputTokens,
 							outputTokens,
-						});
+							outputTokensSource,
+						};
+					} else if (operation === 'estimateCost') {
+						const modelId = this.getNodeParameter('costModelId', i) as string;
+						const inputTokens = this.getNodeParameter('inputTokens', i) as number;
+						const outputTokens = this.getNodeParameter('outputTokens', i) as number;
+
+						const response = await glyphCoreRequest(
+							this,
+							'POST',
+							ENDPOINTS.MODELS_ESTIMATE,
+							{
+								modelId,
+								inputTokens,
+								outputTokens,
+							},
+							undefined,
+							{ ...requestOptions, idempotent: true },
+						);
 
 						result = {
 							estimate: response as CostEstimate,
@@ -880,24 +2566,215 @@ export class XPayPayPerUse implements INodeType {
 					}
 				}
 
-				returnData.push({
+				// ============================================
+				// ACCOUNT OPERATIONS
+				// ============================================
+				else if (resource === 'account') {
+					const filterParameters = this.getNodeParameter('runFilters', i, {}) as IDataObject;
+					const runFilters: AccountRunFilters = {
+						startDate: parseDateFilter(this.getNode(), filterParameters.startDate, 'Start Date', i),
+						endDate: parseDateFilter(this.getNode(), filterParameters.endDate, 'End Date', i, { endOfDay: true }),
+						glyphSlug: (filterParameters.serviceSlug as string) || undefined,
+						modelId: (filterParameters.modelId as string) || undefined,
+						status: (filterParameters.status as RunStatus) || undefined,
+						minCost: filterParameters.minCost as number | undefined,
+					};
+					const query = getRunFilterQuery(runFilters);
+					const fetchRuns = async (maxEntries?: number): Promise<{ runs: AccountRun[]; truncated: boolean }> => {
+						const response = await requestAllPages(
+							async (page) =>
+								glyphCoreRequest(this, 'GET', ENDPOINTS.ACCOUNT_RUNS, undefined, { ...query, ...page }, requestOptions),
+							'runs',
+							{
+								pageSize: DEFAULTS.PAGINATION_PAGE_SIZE,
+								filter: (run: AccountRun) => matchesRunFilters(run, runFilters),
+								maxEntries,
+							},
+						);
+						return { runs: response.runs, truncated: response.truncated };
+					};
+
+					if (operation === 'listRuns') {
+						const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+						const { runs, truncated } = await fetchRuns(returnAll ? undefined : (this.getNodeParameter('limit', i) as number));
+						result = {
+							runs,
+							total: runs.length,
+							...(truncated ? { truncated: true } : {}),
+						};
+					} else if (operation === 'getStats') {
+						const breakdowns = this.getNodeParameter('breakdowns', i, []) as string[];
+						const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.ACCOUNT_STATS, undefined, undefined, requestOptions);
+						result = {
+							stats: response.stats || response,
+						};
+
+						// Stats for a period or subset, and breakdowns, are computed from the run history
+						if (breakdowns.length || Object.keys(query).length) {
+							const { runs, truncated } = await fetchRuns();
+							result.period = {
+								startDate: runFilters.startDate !== undefined ? new Date(runFilters.startDate).toISOString() : null,
+								endDate: runFilters.endDate !== undefined ? new Date(runFilters.endDate).toISOString() : null,
+							};
+							result.summary = summarizeRuns(runs);
+							if (breakdowns.includes('service')) {
+								result.byService = breakdownRuns(runs, 'glyphSlug', 'serviceSlug');
+							}
+							if (breakdowns.includes('model')) {
+								result.byModel = breakdownRuns(runs, 'modelId', 'modelId');
+							}
+							if (truncated) {
+								result.truncated = true;
+							}
+						}
+					}
+				}
+
+				const listKey =
+					({
+						listCollections: 'collections',
+						listRuns: 'runs',
+						compareModels: 'comparison',
+						recommend: 'recommendations',
+					} as Record<string, string>)[operation] ?? 'services';
+				if (
+					(['discover', 'collection', 'account'].includes(resource) || operation === 'compareModels') &&
+					Array.isArray(result[listKey]) &&
+					this.getNodeParameter('splitIntoItems', i, false)
+				) {
+					returnData[i].push(
+						...result[listKey].map((entry: IDataObject) => ({
+							json: entry,
+							pairedItem: { item: i },
+						})),
+					);
+					return;
+				}
+
+				returnData[i].push({
 					json: result,
+					...(binary ? { binary } : {}),
 					pairedItem: { item: i },
 				});
 			} catch (error: any) {
+				const xpayError = toXPayError(
+					this.getNode(),
+					error,
+					`${this.getNodeParameter('resource', i)}/${this.getNodeParameter('operation', i)}`,
+					i,
+				);
 				if (this.continueOnFail()) {
-					returnData.push({
-						json: {
-							error: error.message,
-						},
+					returnData[i].push({
+						json: getErrorOutput(xpayError),
 						pairedItem: { item: i },
 					});
-					continue;
+					return;
+				}
+				throw xpayError;
+			}
+		};
+
+		await runWithConcurrency(items.length, batchOptions.concurrency, executeItem);
+
+		if (callbackRuns.length) {
+			const id = createCallbackStateId();
+			const callbackUrl = getCallbackUrl(getResumeUrl(this), id);
+			const startedRuns: AsyncRun[] = [];
+			// Every run reports back on the same URL; the execution resumes once all of them are done
+			await runWithConcurrency(callbackRuns.length, batchOptions.concurrency, async (index) => {
+				const { run, start } = callbackRuns[index];
+				try {
+					startedRuns.push((await start(callbackUrl)).run);
+				} catch (error: any) {
+					const xpayError = toXPayError(this.getNode(), error, 'run/runAsync', run.item);
+					if (!this.continueOnFail()) {
+						throw xpayError;
+					}
+					returnData[run.item].push({ json: getErrorOutput(xpayError), pairedItem: { item: run.item } });
 				}
-				handleApiError(error, `${this.getNodeParameter('resource', i)}/${this.getNodeParameter('operation', i)}`);
+			});
+
+			if (startedRuns.length) {
+				const callbackTimeoutMs =
+					Math.max(...startedRuns.map((run) => this.getNodeParameter('callbackTimeout', run.item, 3600) as number)) * 1000;
+				const pollingTimeoutMs = Math.max(...startedRuns.map((run) => run.pollingTimeout)) * 1000;
+				const pollUntil = Date.now() + callbackTimeoutMs + pollingTimeoutMs;
+				const waitTill = new Date(pollUntil + DEFAULTS.CALLBACK_WAIT_MARGIN_MS);
+				const state: CallbackState = {
+					id,
+					callbackUrl,
+					runs: startedRuns,
+					ready: [
+						...returnData.flat().map((item) => ({ output: 0, item })),
+						...overBudgetData.flat().map((item) => ({ output: 1, item })),
+					],
+					outputs: runOptions.overBudgetAction === 'route' ? 2 : 1,
+					pollUntil,
+					expiresAt: waitTill.getTime(),
+				};
+				saveCallbackState(this, state);
+				scheduleCallbackFallback(this, id, callbackUrl, callbackTimeoutMs);
+				await this.putExecutionToWait(waitTill);
+				return getCallbackTimeoutOutput(state);
+			}
+		}
+
+		const countedItems = tokenCounts.flatMap((counts, i) => (counts ? [i] : []));
+		if (isBatchEstimate && countedItems.length) {
+			try {
+				const modelId = this.getNodeParameter('costModelId', 0) as string;
+				const requestOptionsParameter = this.getNodeParameter('requestOptions', 0, {}) as IDataObject;
+				const requestOptions: XPayRequestOptions = {
+					retry: getRetryOptions(requestOptionsParameter),
+					cache: getCacheOptions(requestOptionsParameter),
+				};
+				const model = await getModel(this, modelId, requestOptions, 0);
+				const inputTokens = countedItems.reduce((total, i) => total + tokenCounts[i]!.inputTokens, 0);
+				const outputTokens = countedItems.reduce((total, i) => total + tokenCounts[i]!.outputTokens, 0);
+
+				// Error items (with Continue On Fail) follow the total
+				returnData.unshift([
+					{
+						json: {
+							estimate: (await estimateTokenCost(
+								this,
+								model,
+								inputTokens,
+								outputTokens,
+								this.getNodeParameter('pricingSource', 0, 'api') as TokenPricingSource,
+								requestOptions,
+							)) as unknown as IDataObject,
+							modelId,
+							provider: model.provider,
+							tokenizer: getTokenizer(model).encoding,
+							items: countedItems.length,
+							inputTokens,
+							outputTokens,
+							outputTokensSource: this.getNodeParameter('outputTokensSource', 0, 'ratio') as string,
+							perItem: countedItems.map((i) => ({ item: i, ...tokenCounts[i] })),
+						},
+						pairedItem: countedItems.map((i) => ({ item: i })),
+					},
+				]);
+			} catch (error: any) {
+				const xpayError = toXPayError(this.getNode(), error, 'model/estimateCost');
+				if (!this.continueOnFail()) {
+					throw xpayError;
+				}
+				returnData.unshift([{ json: getErrorOutput(xpayError), pairedItem: countedItems.map((i) => ({ item: i })) }]);
 			}
 		}
 
-		return [returnData];
+		const mainData = returnData.flat();
+		return runOptions.overBudgetAction === 'route' ? [mainData, overBudgetData.flat()] : [mainData];
+	}
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		const requestOptionsParameter = this.getNodeParameter('requestOptions', {}) as IDataObject;
+		const workflowData = await resumeAsyncRuns(this, getCallbackState(this), this.getBodyData() as CallbackBody, {
+			retry: getRetryOptions(requestOptionsParameter),
+			cache: getCacheOptions(requestOptionsParameter),
+		});
+		// While other runs are still going, the callback is answered and the execution keeps waiting
+		return workflowData ? { workflowData } : { webhookResponse: { received: true } };
 	}
 }
@@ -14,8 +14,27 @@ import type {
 	SupplyData,
 } from 'n8n-workflow';
 
-import { glyphCoreRequest, glyphRouterRequest } from '../../shared/api';
+import {
+	glyphRouterRequest,
+	getRetryOptions,
+	hashValue,
+	isReplayedResponse,
+	type XPayFullResponse,
+	type XPayRequestOptions,
+} from '../../shared/api';
+import { catalogRequest, getCacheOptions } from '../../shared/cache';
 import { ENDPOINTS } from '../../shared/constants';
+import {
+	CACHE_OPTION_FIELDS,
+	FALLBACK_MODELS_OPTION_FIELDS,
+	RETRY_OPTION_FIELDS,
+	SERVICE_CHANGE_OPTION_FIELDS,
+	VALIDATE_INPUTS_OPTION_FIELDS,
+} from '../../shared/descriptions';
+import { InputValidationError, getErrorOutput, toXPayError } from '../../shared/errors';
+import { getAttemptsCost, getChainIdempotencyKeys, getModelChain, runWithModelFallback } from '../../shared/fallback';
+import { validateInputs } from '../../shared/schema';
+import { checkServiceLifecycle, getPublishedService, getServiceRunFields } from '../../shared/services';
 import type { RunResult } from '../../shared/types';
 
 export class XPayPayPerUseTool implements INodeType {
@@ -128,6 +147,19 @@ export class XPayPayPerUseTool implements INodeType {
 						default: 4096,
 						description: 'Maximum tokens in the response',
 					},
+					{
+						displayName: 'Idempotency Key',
+						name: 'idempotencyKey',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g., {{ $json.ticketId }}-agent',
+						description: 'Prefix of the keys the API uses to deduplicate paid runs. Each run the agent starts gets this prefix followed by a hash of its service, model and inputs, so different calls are never deduplicated against each other. Leave empty to derive the keys from the execution ID, node name and inputs.',
+					},
+					...FALLBACK_MODELS_OPTION_FIELDS,
+					...VALIDATE_INPUTS_OPTION_FIELDS,
+					...SERVICE_CHANGE_OPTION_FIELDS,
+					...RETRY_OPTION_FIELDS,
+					...CACHE_OPTION_FIELDS,
 				],
 			},
 		],
@@ -143,6 +175,19 @@ export class XPayPayPerUseTool implements INodeType {
 		const options = this.getNodeParameter('options', itemIndex) as {
 			temperature?: number;
 			maxTokens?: number;
+			maxRetries?: number;
+			retryDelay?: number;
+			maxRetryDelay?: number;
+			cacheTtl?: number;
+			bypassCache?: boolean;
+			validateInputs?: boolean;
+			fallbackModels?: string;
+			idempotencyKey?: string;
+			serviceChangeAction?: 'warn' | 'error';
+		};
+		const requestOptions: XPayRequestOptions = {
+			retry: getRetryOptions(options),
+			cache: getCacheOptions(options),
 		};
 
 		const context = this;
@@ -167,7 +212,7 @@ export class XPayPayPerUseTool implements INodeType {
 						if (filters.verified) query.verified = true;
 						if (filters.limit) query.limit = filters.limit;
 
-						const response = await glyphCoreRequest(context, 'GET', ENDPOINTS.GLYPHS, undefined, query);
+						const response = await catalogRequest(context, ENDPOINTS.GLYPHS, query, requestOptions);
 
 						const services = (response.glyphs || response || []).map((g: any) => ({
 							serviceSlug: g.slug,
@@ -204,6 +249,22 @@ export class XPayPayPerUseTool implements INodeType {
 							inputs: inputs || {},
 						};
 
+						// Drafts, archived services and invalid inputs come back to the agent as errors (invalid inputs
+						// with fieldErrors) so it can correct them; lifecycle warnings are returned with the result
+						const glyph = await getPublishedService(context, serviceSlug, requestOptions, itemIndex);
+						const serviceWarnings = checkServiceLifecycle(
+							context.getNode(),
+							glyph,
+							{ action: options.serviceChangeAction },
+							itemIndex,
+						);
+						if (options.validateInputs !== false) {
+							const inputErrors = validateInputs(runParams.inputs, glyph.schema?.inputs);
+							if (inputErrors.length) {
+								throw new InputValidationError(context.getNode(), serviceSlug, inputErrors, itemIndex);
+							}
+						}
+
 						if (options.temperature !== undefined) {
 							runParams.temperature = options.temperature;
 						}
@@ -211,12 +272,27 @@ export class XPayPayPerUseTool implements INodeType {
 							runParams.maxTokens = options.maxTokens;
 						}
 
-						const response = (await glyphRouterRequest(
-							context,
-							'POST',
-							ENDPOINTS.RUN,
-							runParams,
-						)) as RunResult;
+						const models = getModelChain(runParams.modelId, options.fallbackModels);
+						// The agent may call the tool many times per item, so a custom key is made unique per call
+						const customKey = options.idempotencyKey?.trim()
+							? `${options.idempotencyKey.trim()}-${hashValue(runParams).slice(0, 16)}`
+							: undefined;
+						const idempotencyKeys = getChainIdempotencyKeys(context, itemIndex, runParams, models, customKey);
+						const fallback = await runWithModelFallback(
+							models,
+							async (attemptModelId) =>
+								glyphRouterRequest(context, 'POST', ENDPOINTS.RUN, { ...runParams, modelId: attemptModelId }, undefined, {
+									...requestOptions,
+									idempotencyKey: idempotencyKeys[attemptModelId],
+									returnFullResponse: true,
+								}) as Promise<XPayFullResponse>,
+							{
+								getRunId: (fullResponse) => (fullResponse.body as RunResult).runId,
+								getCost: (fullResponse) => (fullResponse.body as RunResult).cost,
+							},
+						);
+						const fullResponse = fallback.result;
+						const response = fullResponse.body as RunResult;
 
 						return JSON.stringify(
 							{
@@ -227,7 +303,16 @@ export class XPayPayPerUseTool implements INodeType {
 								cost: response.cost ? `$${response.cost}` : undefined,
 								duration: response.duration || response.latencyMs,
 								serviceSlug,
-								modelId: modelId || defaultModelId,
+								modelId: fallback.modelId,
+								replayed: isReplayedResponse(fullResponse),
+								...getServiceRunFields(glyph, glyph, serviceWarnings, response.glyphVersion),
+								...(models.length > 1
+									? {
+										requestedModelId: runParams.modelId,
+										attempts: fallback.attempts,
+										totalCost: getAttemptsCost(fallback.attempts),
+									}
+									: {}),
 							},
 							null,
 							2,
@@ -237,7 +322,7 @@ export class XPayPayPerUseTool implements INodeType {
 					return JSON.stringify({ error: `Unknown action: ${action}. Use "discover" or "run".` });
 				} catch (error: any) {
 					return JSON.stringify({
-						error: error.message || 'Failed to execute action',
+						...getErrorOutput(toXPayError(context.getNode(), error, action)),
 						action,
 						serviceSlug,
 					});
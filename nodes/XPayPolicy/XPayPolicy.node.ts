@@ -1,4 +1,5 @@
 import type {
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
@@ -6,8 +7,10 @@ import type {
 	NodeConnectionType,
 } from 'n8n-workflow';
 
-import { glyphCoreRequest, handleApiError } from '../../shared/api';
+import { glyphCoreRequest, getRetryOptions, type XPayRequestOptions } from '../../shared/api';
 import { ENDPOINTS } from '../../shared/constants';
+import { RETRY_OPTION_FIELDS } from '../../shared/descriptions';
+import { getErrorOutput, toXPayError } from '../../shared/errors';
 
 export class XPayPolicy implements INodeType {
 	description: INodeTypeDescription = {
@@ -219,6 +222,18 @@ export class XPayPolicy implements INodeType {
 					},
 				],
 			},
+
+			// ============================================
+			// REQUEST OPTIONS (all operations)
+			// ============================================
+			{
+				displayName: 'Request Options',
+				name: 'requestOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [...RETRY_OPTION_FIELDS],
+			},
 		],
 	};
 
@@ -229,13 +244,16 @@ export class XPayPolicy implements INodeType {
 		for (let i = 0; i < items.length; i++) {
 			try {
 				const operation = this.getNodeParameter('operation', i) as string;
+				const requestOptions: XPayRequestOptions = {
+					retry: getRetryOptions(this.getNodeParameter('requestOptions', i, {}) as IDataObject),
+				};
 				let result: any;
 
 				// ============================================
 				// GET BALANCE
 				// ============================================
 				if (operation === 'getBalance') {
-					const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.WALLET_BALANCE);
+					const response = await glyphCoreRequest(this, 'GET', ENDPOINTS.WALLET_BALANCE, undefined, undefined, requestOptions);
 
 					result = {
 						balance: {
@@ -309,8 +327,8 @@ export class XPayPolicy implements INodeType {
 				// ============================================
 				else if (operation === 'getSpending') {
 					// Get account stats for spending info
-					const statsResponse = await glyphCoreRequest(this, 'GET', ENDPOINTS.ACCOUNT_STATS);
-					const balanceResponse = await glyphCoreRequest(this, 'GET', ENDPOINTS.WALLET_BALANCE);
+					const statsResponse = await glyphCoreRequest(this, 'GET', ENDPOINTS.ACCOUNT_STATS, undefined, undefined, requestOptions);
+					const balanceResponse = await glyphCoreRequest(this, 'GET', ENDPOINTS.WALLET_BALANCE, undefined, undefined, requestOptions);
 
 					result = {
 						spending: {
@@ -334,16 +352,15 @@ export class XPayPolicy implements INodeType {
 					pairedItem: { item: i },
 				});
 			} catch (error: any) {
+				const xpayError = toXPayError(this.getNode(), error, this.getNodeParameter('operation', i) as string, i);
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: {
-							error: error.message,
-						},
+						json: getErrorOutput(xpayError),
 						pairedItem: { item: i },
 					});
 					continue;
 				}
-				handleApiError(error, this.getNodeParameter('operation', i) as string);
+				throw xpayError;
 			}
 		}
 
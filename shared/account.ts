@@ -0,0 +1,129 @@
+/**
+ * Account helpers for xpay n8n nodes
+ * Filters run history and aggregates it into usage summaries
+ */
+
+import type { INode } from 'n8n-workflow';
+
+import { XPayOperationError } from './errors';
+import type { AccountRun, AccountRunFilters, RunUsageSummary } from './types';
+
+const SUCCESS_STATUSES = ['success', 'completed'];
+const FAILURE_STATUSES = ['failed', 'error'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a dateTime node parameter to epoch milliseconds (undefined when empty).
+ * With `endOfDay`, a date without a time (2025-01-31) means the last millisecond
+ * of that day, so the day's runs stay in an inclusive range.
+ */
+export function parseDateFilter(
+	node: INode,
+	value: unknown,
+	label: string,
+	itemIndex: number,
+	{ endOfDay = false }: { endOfDay?: boolean } = {},
+): number | undefined {
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+	const timestamp = typeof value === 'number' ? value : Date.parse(String(value));
+	if (isNaN(timestamp)) {
+		throw new XPayOperationError(node, `Invalid ${label}: ${String(value)}`, {
+			itemIndex,
+			remediation: 'Use an ISO 8601 date such as 2025-01-31 or 2025-01-31T09:00:00Z.',
+		});
+	}
+	if (endOfDay && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+		return timestamp + DAY_MS - 1;
+	}
+	return timestamp;
+}
+
+// Runs report createdAt in epoch milliseconds or as an ISO date
+function getRunTimestamp(run: AccountRun): number {
+	return typeof run.createdAt === 'number' ? run.createdAt : Date.parse(run.createdAt);
+}
+
+/**
+ * Query parameters for /account/runs. The same filters are also applied
+ * client-side with filterRuns, so results are correct either way.
+ */
+export function getRunFilterQuery(filters: AccountRunFilters): Record<string, string | number> {
+	const query: Record<string, string | number> = {};
+	if (filters.startDate !== undefined) query.startDate = filters.startDate;
+	if (filters.endDate !== undefined) query.endDate = filters.endDate;
+	if (filters.glyphSlug) query.glyphSlug = filters.glyphSlug;
+	if (filters.modelId) query.modelId = filters.modelId;
+	if (filters.status) query.status = filters.status;
+	if (filters.minCost !== undefined) query.minCost = filters.minCost;
+	return query;
+}
+
+/**
+ * Whether a run matches the filters (date range is inclusive, cost is a lower bound)
+ */
+export function matchesRunFilters(run: AccountRun, filters: AccountRunFilters): boolean {
+	if (filters.startDate !== undefined && !(getRunTimestamp(run) >= filters.startDate)) return false;
+	if (filters.endDate !== undefined && !(getRunTimestamp(run) <= filters.endDate)) return false;
+	if (filters.glyphSlug && run.glyphSlug !== filters.glyphSlug) return false;
+	if (filters.modelId && run.modelId !== filters.modelId) return false;
+	if (filters.status && !isSameStatus(run.status, filters.status)) return false;
+	if (filters.minCost !== undefined && (Number(run.cost) || 0) < filters.minCost) return false;
+	return true;
+}
+
+export function filterRuns(runs: AccountRun[], filters: AccountRunFilters): AccountRun[] {
+	return runs.filter((run) => matchesRunFilters(run, filters));
+}
+
+/**
+ * Totals and averages over a set of runs
+ */
+export function summarizeRuns(runs: AccountRun[]): RunUsageSummary {
+	const successfulRuns = runs.filter((run) => SUCCESS_STATUSES.includes(run.status)).length;
+	const failedRuns = runs.filter((run) => FAILURE_STATUSES.includes(run.status)).length;
+	const totalCost = runs.reduce((sum, run) => sum + (Number(run.cost) || 0), 0);
+	const durations = runs.map((run) => run.duration).filter((duration): duration is number => typeof duration === 'number');
+
+	return {
+		runs: runs.length,
+		successfulRuns,
+		failedRuns,
+		successRate: runs.length ? round(successfulRuns / runs.length, 4) : 0,
+		totalCost: round(totalCost),
+		averageCost: runs.length ? round(totalCost / runs.length) : 0,
+		averageDurationMs: durations.length ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length) : 0,
+	};
+}
+
+/**
+ * Usage summary per value of `key` (e.g. per service or per model), most expensive first
+ */
+export function breakdownRuns(
+	runs: AccountRun[],
+	key: 'glyphSlug' | 'modelId',
+	label: string,
+): Array<RunUsageSummary & Record<string, string | number>> {
+	const groups = new Map<string, AccountRun[]>();
+	for (const run of runs) {
+		const value = run[key] ?? 'unknown';
+		groups.set(value, [...(groups.get(value) ?? []), run]);
+	}
+
+	return [...groups.entries()]
+		.map(([value, groupRuns]) => ({ [label]: value, ...summarizeRuns(groupRuns) }))
+		.sort((a, b) => b.totalCost - a.totalCost);
+}
+
+function isSameStatus(status: string, expected: string): boolean {
+	if (SUCCESS_STATUSES.includes(expected)) return SUCCESS_STATUSES.includes(status);
+	if (FAILURE_STATUSES.includes(expected)) return FAILURE_STATUSES.includes(status);
+	return status === expected;
+}
+
+function round(value: number, digits = 6): number {
+	const factor = 10 ** digits;
+	return Math.round(value * factor) / factor;
+}
@@ -3,22 +3,86 @@
  * Provides helper functions for making authenticated API requests
  */
 
-import type { IExecuteFunctions, ILoadOptionsFunctions, ISupplyDataFunctions, IHttpRequestOptions } from 'n8n-workflow';
+import type {
+	IExecuteFunctions,
+	IHookFunctions,
+	ILoadOptionsFunctions,
+	ISupplyDataFunctions,
+	IWebhookFunctions,
+	IHttpRequestOptions,
+} from 'n8n-workflow';
+import * as crypto from 'crypto';
+
+import { XPayOperationError } from './errors';
 
 // Type alias for all function contexts that can make API requests
-type ApiContext = IExecuteFunctions | ILoadOptionsFunctions | ISupplyDataFunctions;
+export type ApiContext =
+	| IExecuteFunctions
+	| IHookFunctions
+	| ILoadOptionsFunctions
+	| ISupplyDataFunctions
+	| IWebhookFunctions;
 import {
 	type Environment,
+	type PaywallEnvironment,
+	DEFAULTS,
 	GLYPH_CORE_URLS,
 	GLYPH_ROUTER_URLS,
 	SMART_PROXY_URLS,
+	PAYWALL_URLS,
 } from './constants';
 
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RetryOptions {
+	maxRetries: number;
+	initialDelayMs: number;
+	maxDelayMs: number;
+}
+
+export interface CacheOptions {
+	// How long a catalog response is reused; 0 disables the cache
+	ttlMs?: number;
+	// Always call the API and refresh the cached response
+	bypass?: boolean;
+}
+
+// Spaces out requests (see batch.ts)
+export interface RequestRateLimiter {
+	acquire(url: string): Promise<void>;
+}
+
+export interface XPayRequestOptions {
+	headers?: Record<string, string>;
+	retry?: Partial<RetryOptions>;
+	// Only used by catalogRequest (see cache.ts)
+	cache?: CacheOptions;
+	// Set for read-only POST endpoints (e.g. cost estimates) that are always safe to retry
+	idempotent?: boolean;
+	// Sent as the Idempotency-Key header so the API can deduplicate paid calls
+	idempotencyKey?: string;
+	// Resolve with { body, headers, statusCode } instead of the parsed body
+	returnFullResponse?: boolean;
+	// Waited on before every attempt, including retries
+	rateLimiter?: RequestRateLimiter;
+}
+
+export interface XPayFullResponse {
+	body: any;
+	headers: Record<string, any>;
+	statusCode: number;
+}
+
 export interface XPayCredentials {
 	apiKey: string;
 	environment: Environment;
 	smartProxyEnabled?: boolean;
 	customerId?: string;
+	// Base URL overrides, only used when environment is 'custom'
+	coreUrl?: string;
+	routerUrl?: string;
+	smartProxyUrl?: string;
+	paywallUrl?: string;
 }
 
 /**
@@ -33,48 +97,101 @@ export async function getXPayCredentials(
 		environment: (credentials.environment as Environment) || 'sandbox',
 		smartProxyEnabled: credentials.smartProxyEnabled as boolean | undefined,
 		customerId: credentials.customerId as string | undefined,
+		coreUrl: credentials.coreUrl as string | undefined,
+		routerUrl: credentials.routerUrl as string | undefined,
+		smartProxyUrl: credentials.smartProxyUrl as string | undefined,
+		paywallUrl: credentials.paywallUrl as string | undefined,
 	};
 }
 
+/**
+ * Pick the custom URL when the credential uses the 'custom' environment, otherwise
+ * the hosted URL. Empty for 'custom' without a URL, which requireBaseUrl rejects.
+ */
+function resolveBaseUrl(
+	credentials: XPayCredentials,
+	customUrl: string | undefined,
+	hostedUrls: Record<'sandbox' | 'production', string>,
+): string {
+	if (credentials.environment === 'custom') {
+		return trimTrailingSlash(customUrl);
+	}
+	return hostedUrls[credentials.environment] ?? hostedUrls.sandbox;
+}
+
+/**
+ * Fail instead of sending the API key anywhere when a Custom credential leaves the URL empty
+ */
+function requireBaseUrl(context: ApiContext, baseUrl: string, field: string): string {
+	if (!baseUrl) {
+		throw new XPayOperationError(context.getNode(), `The xpay✦ credential has no ${field}`, {
+			remediation: `Set ${field} on the credential, or choose the Sandbox or Production environment.`,
+		});
+	}
+	return baseUrl;
+}
+
+function trimTrailingSlash(url: string | undefined): string {
+	return (url ?? '').trim().replace(/\/+$/, '');
+}
+
 /**
  * Get the base URL for Glyphrun Core API
  */
-export function getCoreBaseUrl(environment: Environment): string {
-	return GLYPH_CORE_URLS[environment];
+export function getCoreBaseUrl(credentials: XPayCredentials): string {
+	return resolveBaseUrl(credentials, credentials.coreUrl, GLYPH_CORE_URLS);
 }
 
 /**
  * Get the base URL for Glyphrun Router API
  */
-export function getRouterBaseUrl(environment: Environment): string {
-	return GLYPH_ROUTER_URLS[environment];
+export function getRouterBaseUrl(credentials: XPayCredentials): string {
+	return resolveBaseUrl(credentials, credentials.routerUrl, GLYPH_ROUTER_URLS);
 }
 
 /**
  * Get the base URL for Smart Proxy API
  */
-export function getSmartProxyBaseUrl(environment: Environment): string {
-	return SMART_PROXY_URLS[environment];
+export function getSmartProxyBaseUrl(credentials: XPayCredentials): string {
+	return resolveBaseUrl(credentials, credentials.smartProxyUrl, SMART_PROXY_URLS);
 }
 
 /**
- * Make an authenticated request to Glyphrun Core API
+ * Get the base URL for the Pay-to-Run (paywall) API.
+ * A custom credential URL overrides the environment chosen on the charge-per-use node.
  */
-export async function glyphCoreRequest(
+export function getPaywallBaseUrl(credentials: XPayCredentials, paywallEnvironment: string): string {
+	if (credentials.environment === 'custom' && trimTrailingSlash(credentials.paywallUrl)) {
+		return trimTrailingSlash(credentials.paywallUrl);
+	}
+	return PAYWALL_URLS[paywallEnvironment as PaywallEnvironment] || PAYWALL_URLS.development;
+}
+
+/**
+ * Make an authenticated request to an xpay API, retrying transient failures.
+ *
+ * Retries on network errors and on the status codes in DEFAULTS.RETRYABLE_STATUS_CODES
+ * using exponential backoff with full jitter. A `Retry-After` header on the failed
+ * response takes precedence over the computed delay. POST and PATCH requests are
+ * only retried when they carry an `Idempotency-Key` header, so a paid call is never
+ * re-sent without the server being able to deduplicate it.
+ */
+export async function xpayRequest(
 	context: ApiContext,
-	method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+	baseUrl: string,
+	method: HttpMethod,
 	endpoint: string,
 	body?: object,
 	query?: Record<string, string | number | boolean>,
+	requestOptions: XPayRequestOptions = {},
 ): Promise<any> {
-	const credentials = await getXPayCredentials(context);
-	const baseUrl = getCoreBaseUrl(credentials.environment);
-
 	const options: IHttpRequestOptions = {
 		method,
 		url: `${baseUrl}${endpoint}`,
 		headers: {
 			'Content-Type': 'application/json',
+			...requestOptions.headers,
+			...(requestOptions.idempotencyKey ? { 'Idempotency-Key': requestOptions.idempotencyKey } : {}),
 		},
 		json: true,
 	};
@@ -87,7 +204,40 @@ export async function glyphCoreRequest(
 		options.qs = query;
 	}
 
-	return context.helpers.httpRequestWithAuthentication.call(context, 'xPayApi', options);
+	if (requestOptions.returnFullResponse) {
+		options.returnFullResponse = true;
+	}
+
+	const retry = resolveRetryOptions(requestOptions.retry);
+	const canRetry = requestOptions.idempotent ?? isIdempotentRequest(method, options.headers as Record<string, string>);
+
+	for (let attempt = 0; ; attempt++) {
+		await requestOptions.rateLimiter?.acquire(options.url);
+		try {
+			return await context.helpers.httpRequestWithAuthentication.call(context, 'xPayApi', options);
+		} catch (error) {
+			if (!canRetry || attempt >= retry.maxRetries || !isRetryableError(error)) {
+				throw error;
+			}
+			await sleep(getRetryDelay(error, attempt, retry));
+		}
+	}
+}
+
+/**
+ * Make an authenticated request to Glyphrun Core API
+ */
+export async function glyphCoreRequest(
+	context: ApiContext,
+	method: HttpMethod,
+	endpoint: string,
+	body?: object,
+	query?: Record<string, string | number | boolean>,
+	requestOptions?: XPayRequestOptions,
+): Promise<any> {
+	const credentials = await getXPayCredentials(context);
+	const baseUrl = requireBaseUrl(context, getCoreBaseUrl(credentials), 'Core API URL');
+	return xpayRequest(context, baseUrl, method, endpoint, body, query, requestOptions);
 }
 
 /**
@@ -95,32 +245,15 @@ export async function glyphCoreRequest(
  */
 export async function glyphRouterRequest(
 	context: ApiContext,
-	method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+	method: HttpMethod,
 	endpoint: string,
 	body?: object,
 	query?: Record<string, string | number | boolean>,
+	requestOptions?: XPayRequestOptions,
 ): Promise<any> {
 	const credentials = await getXPayCredentials(context);
-	const baseUrl = getRouterBaseUrl(credentials.environment);
-
-	const options: IHttpRequestOptions = {
-		method,
-		url: `${baseUrl}${endpoint}`,
-		headers: {
-			'Content-Type': 'application/json',
-		},
-		json: true,
-	};
-
-	if (body) {
-		options.body = body;
-	}
-
-	if (query) {
-		options.qs = query;
-	}
-
-	return context.helpers.httpRequestWithAuthentication.call(context, 'xPayApi', options);
+	const baseUrl = requireBaseUrl(context, getRouterBaseUrl(credentials), 'Router API URL');
+	return xpayRequest(context, baseUrl, method, endpoint, body, query, requestOptions);
 }
 
 /**
@@ -128,39 +261,246 @@ export async function glyphRouterRequest(
  */
 export async function smartProxyRequest(
 	context: ApiContext,
-	method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+	method: HttpMethod,
 	endpoint: string,
 	body?: object,
 	query?: Record<string, string | number | boolean>,
+	requestOptions?: XPayRequestOptions,
 ): Promise<any> {
 	const credentials = await getXPayCredentials(context);
-	const baseUrl = getSmartProxyBaseUrl(credentials.environment);
+	const baseUrl = requireBaseUrl(context, getSmartProxyBaseUrl(credentials), 'Smart Proxy URL');
+	return xpayRequest(context, baseUrl, method, endpoint, body, query, requestOptions);
+}
 
-	const options: IHttpRequestOptions = {
-		method,
-		url: `${baseUrl}${endpoint}`,
-		headers: {
-			'Content-Type': 'application/json',
-		},
-		json: true,
+/**
+ * Make an authenticated request to the Pay-to-Run (paywall) API
+ */
+export async function paywallRequest(
+	context: ApiContext,
+	paywallEnvironment: string,
+	method: HttpMethod,
+	endpoint: string,
+	body?: object,
+	query?: Record<string, string | number | boolean>,
+	requestOptions?: XPayRequestOptions,
+): Promise<any> {
+	const credentials = await getXPayCredentials(context);
+	const baseUrl = getPaywallBaseUrl(credentials, paywallEnvironment);
+	return xpayRequest(context, baseUrl, method, endpoint, body, query, requestOptions);
+}
+
+/**
+ * Fill in retry defaults for any option the node did not set
+ */
+export function resolveRetryOptions(retry: Partial<RetryOptions> = {}): RetryOptions {
+	return {
+		maxRetries: retry.maxRetries ?? DEFAULTS.RETRY_MAX_RETRIES,
+		initialDelayMs: retry.initialDelayMs ?? DEFAULTS.RETRY_INITIAL_DELAY_MS,
+		maxDelayMs: retry.maxDelayMs ?? DEFAULTS.RETRY_MAX_DELAY_MS,
 	};
+}
 
-	if (body) {
-		options.body = body;
+/**
+ * Read the retry settings from a node's request options collection
+ */
+export function getRetryOptions(requestOptions: {
+	maxRetries?: number;
+	retryDelay?: number;
+	maxRetryDelay?: number;
+} = {}): Partial<RetryOptions> {
+	return {
+		maxRetries: requestOptions.maxRetries,
+		initialDelayMs: requestOptions.retryDelay,
+		maxDelayMs: requestOptions.maxRetryDelay,
+	};
+}
+
+/**
+ * Whether a request can safely be sent more than once
+ */
+export function isIdempotentRequest(method: HttpMethod, headers: Record<string, string> = {}): boolean {
+	if (method !== 'POST' && method !== 'PATCH') {
+		return true;
 	}
+	return Object.keys(headers).some((name) => name.toLowerCase() === 'idempotency-key' && !!headers[name]);
+}
 
-	if (query) {
-		options.qs = query;
+/**
+ * Get the status code, headers and body of a failed request.
+ * n8n wraps the underlying HTTP client error in a NodeApiError, so look at both.
+ */
+export function getErrorResponse(error: any): {
+	status?: number;
+	headers: Record<string, any>;
+	body?: any;
+} {
+	const response = error?.response ?? error?.cause?.response;
+	const status = Number(response?.status ?? error?.httpCode ?? error?.statusCode) || undefined;
+	return {
+		status,
+		headers: response?.headers ?? {},
+		body: response?.data ?? response?.body,
+	};
+}
+
+/**
+ * Whether a failed request is worth retrying
+ */
+export function isRetryableError(error: any): boolean {
+	const { status } = getErrorResponse(error);
+	if (status !== undefined) {
+		return DEFAULTS.RETRYABLE_STATUS_CODES.includes(status);
+	}
+	const code = error?.code ?? error?.cause?.code;
+	return DEFAULTS.RETRYABLE_ERROR_CODES.includes(code);
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+	const seconds = Number(value);
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(String(value));
+	if (!isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+	return undefined;
+}
+
+/**
+ * Delay before the next attempt: the server's `Retry-After` if present,
+ * otherwise exponential backoff with full jitter. Both are capped at maxDelayMs.
+ */
+export function getRetryDelay(error: any, attempt: number, retry: RetryOptions): number {
+	const { headers } = getErrorResponse(error);
+	const retryAfter = parseRetryAfter(headers['retry-after'] ?? headers['Retry-After']);
+	if (retryAfter !== undefined) {
+		return Math.min(retryAfter, retry.maxDelayMs);
+	}
+	const ceiling = Math.min(retry.maxDelayMs, retry.initialDelayMs * 2 ** attempt);
+	return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted, so equal inputs always hash the same
+ */
+export function canonicalJson(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map((entry) => canonicalJson(entry)).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.keys(value as Record<string, unknown>)
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
 	}
+	return JSON.stringify(value) ?? 'null';
+}
 
-	return context.helpers.httpRequestWithAuthentication.call(context, 'xPayApi', options);
+/**
+ * SHA-256 hex digest of a value's canonical JSON form
+ */
+export function hashValue(value: unknown): string {
+	return crypto.createHash('sha256').update(canonicalJson(value)).digest('hex');
 }
 
 /**
- * Sleep utility for polling
+ * Idempotency key for a paid call.
+ *
+ * Uses the user-supplied key when given. Otherwise the key is derived from the
+ * execution ID, node name, item index and a hash of the request payload, so a
+ * node retry or a worker resuming the same execution re-sends the same key and
+ * the API returns the original result instead of charging again.
  */
-export function sleep(ms: number): Promise<void> {
-	return new Promise((resolve) => setTimeout(resolve, ms));
+export function getIdempotencyKey(
+	context: IExecuteFunctions | ISupplyDataFunctions,
+	itemIndex: number,
+	payload: unknown,
+	customKey?: string,
+): string {
+	if (customKey && customKey.trim() !== '') {
+		return customKey.trim();
+	}
+	const digest = hashValue([context.getExecutionId(), context.getNode().name, itemIndex, hashValue(payload)]);
+	return `n8n_${digest.slice(0, 48)}`;
+}
+
+/**
+ * Whether the API answered a request from its idempotency store instead of executing it again
+ */
+export function isReplayedResponse(response: XPayFullResponse): boolean {
+	const header = response.headers?.['idempotent-replayed'] ?? response.headers?.['x-idempotent-replayed'];
+	return String(header).toLowerCase() === 'true' || response.body?.replayed === true;
+}
+
+/**
+ * Collect every page of a limit/offset paginated list.
+ *
+ * Starts at `offset` and requests `pageSize` entries at a time until the reported
+ * `total` is reached or a short page comes back. With `filter`, only matching
+ * entries are kept; with `maxEntries`, paging stops once that many were kept.
+ * Returns `{ [listKey]: entries, total, truncated }`, where `truncated` is set when
+ * DEFAULTS.PAGINATION_MAX_PAGES pages were read and more entries remain.
+ */
+export async function requestAllPages(
+	fetchPage: (page: { limit: number; offset: number }) => Promise<any>,
+	listKey: string,
+	{
+		pageSize,
+		offset = 0,
+		filter,
+		maxEntries,
+	}: { pageSize: number; offset?: number; filter?: (entry: any) => boolean; maxEntries?: number },
+): Promise<{ [listKey: string]: any; total?: number; truncated: boolean }> {
+	let entries: unknown[] = [];
+	let total: number | undefined;
+	let truncated = true;
+
+	for (let page = 0; page < DEFAULTS.PAGINATION_MAX_PAGES; page++) {
+		const response = await fetchPage({ limit: pageSize, offset });
+		const pageEntries: unknown[] = (Array.isArray(response) ? response : response?.[listKey]) ?? [];
+		entries.push(...(filter ? pageEntries.filter(filter) : pageEntries));
+		offset += pageEntries.length;
+		total = typeof response?.total === 'number' ? response.total : total;
+
+		if (maxEntries !== undefined && entries.length >= maxEntries) {
+			entries = entries.slice(0, maxEntries);
+			truncated = false;
+			break;
+		}
+		if (pageEntries.length < pageSize || (total !== undefined && offset >= total)) {
+			truncated = false;
+			break;
+		}
+	}
+
+	return { [listKey]: entries, total: total ?? entries.length, truncated };
+}
+
+/**
+ * Sleep utility for polling. Resolves early when the abort signal fires.
+ */
+export function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (abortSignal?.aborted) {
+			resolve();
+			return;
+		}
+		const done = () => {
+			clearTimeout(timer);
+			abortSignal?.removeEventListener('abort', done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		abortSignal?.addEventListener('abort', done, { once: true });
+	});
 }
 
 /**
@@ -193,33 +533,3 @@ export function parseInputsCollection(
 	}
 	return inputs;
 }
-
-/**
- * Handle API errors consistently
- */
-export function handleApiError(error: any, operation: string): never {
-	const message = error.response?.data?.error || error.message || 'Unknown error';
-	const statusCode = error.response?.status || error.statusCode;
-
-	if (statusCode === 401) {
-		throw new Error(`Authentication failed for ${operation}. Please check your API key.`);
-	}
-
-	if (statusCode === 403) {
-		throw new Error(`Access denied for ${operation}. You may not have permission.`);
-	}
-
-	if (statusCode === 404) {
-		throw new Error(`Resource not found for ${operation}.`);
-	}
-
-	if (statusCode === 402) {
-		throw new Error(`Payment required for ${operation}. Please check your wallet balance.`);
-	}
-
-	if (statusCode === 429) {
-		throw new Error(`Rate limit exceeded for ${operation}. Please try again later.`);
-	}
-
-	throw new Error(`${operation} failed: ${message}`);
-}
@@ -0,0 +1,79 @@
+/**
+ * Batch helpers for xpay n8n nodes
+ * Runs items with a concurrency limit and spaces out requests per host
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+import { type RequestRateLimiter, sleep } from './api';
+
+export interface BatchOptions {
+	// Items processed at the same time; 1 runs them one after another
+	concurrency: number;
+	// Requests started per second against each host; 0 disables rate limiting
+	requestsPerSecond: number;
+}
+
+/**
+ * Map the node's Batching collection to batch options
+ */
+export function getBatchOptions(parameter: IDataObject = {}): BatchOptions {
+	return {
+		concurrency: Math.max(1, Math.floor(Number(parameter.concurrency ?? 1)) || 1),
+		requestsPerSecond: Math.max(0, Number(parameter.requestsPerSecond ?? 0) || 0),
+	};
+}
+
+/**
+ * Starts at most `requestsPerSecond` requests per second for each host.
+ * Requests are given evenly spaced start slots in the order they ask for one.
+ */
+export class HostRateLimiter implements RequestRateLimiter {
+	private readonly intervalMs: number;
+	private readonly nextSlot = new Map<string, number>();
+
+	constructor(requestsPerSecond: number) {
+		this.intervalMs = 1000 / requestsPerSecond;
+	}
+
+	async acquire(url: string): Promise<void> {
+		const host = new URL(url).host;
+		const now = Date.now();
+		const slot = Math.max(now, this.nextSlot.get(host) ?? now);
+		this.nextSlot.set(host, slot + this.intervalMs);
+		if (slot > now) {
+			await sleep(slot - now);
+		}
+	}
+}
+
+/**
+ * Call `task` for every index from 0 to count - 1 with at most `concurrency`
+ * calls in flight. Indexes are started in order. When a task fails no new
+ * tasks are started, and the first failure is thrown once the running tasks
+ * have settled.
+ */
+export async function runWithConcurrency(
+	count: number,
+	concurrency: number,
+	task: (index: number) => Promise<void>,
+): Promise<void> {
+	let next = 0;
+	let failure: { error: unknown } | undefined;
+
+	const worker = async () => {
+		while (!failure && next < count) {
+			const index = next++;
+			try {
+				await task(index);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+	if (failure) {
+		throw failure.error;
+	}
+}
@@ -0,0 +1,231 @@
+/**
+ * Binary data helpers for xpay n8n nodes
+ * Passes n8n binary properties to file inputs and turns file outputs into n8n binary data
+ */
+
+import type { IBinaryKeyData, IDataObject, IExecuteFunctions, IWebhookFunctions } from 'n8n-workflow';
+import * as crypto from 'crypto';
+
+import { type XPayRequestOptions, glyphRouterRequest } from './api';
+import { DEFAULTS, ENDPOINTS } from './constants';
+import type { GlyphSchema, GlyphSchemaField } from './types';
+
+export interface FileInputMapping {
+	// Name of the service input
+	input: string;
+	// Binary property of the incoming item
+	binaryProperty: string;
+}
+
+export interface BinaryFile {
+	data: Buffer;
+	fileName: string;
+	mimeType: string;
+}
+
+// Output types that stay in the JSON output
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'text/html'];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+	'application/pdf': '.pdf',
+	'application/json': '.json',
+	'application/zip': '.zip',
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+	'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+	'audio/mpeg': '.mp3',
+	'image/gif': '.gif',
+	'image/jpeg': '.jpg',
+	'image/png': '.png',
+	'image/svg+xml': '.svg',
+	'image/webp': '.webp',
+	'text/csv': '.csv',
+	'text/markdown': '.md',
+	'text/plain': '.txt',
+};
+
+/**
+ * Map the node's File Inputs collection to input/binary property pairs
+ */
+export function getFileInputMappings(parameter: { files?: FileInputMapping[] } | undefined): FileInputMapping[] {
+	return (parameter?.files ?? []).filter((mapping) => mapping.input && mapping.binaryProperty);
+}
+
+/**
+ * Read the mapped binary properties of an item
+ */
+export async function readBinaryInputs(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	mappings: FileInputMapping[],
+): Promise<Record<string, BinaryFile>> {
+	const files: Record<string, BinaryFile> = {};
+	for (const { input, binaryProperty } of mappings) {
+		const binaryData = context.helpers.assertBinaryData(itemIndex, binaryProperty);
+		files[input] = {
+			data: await context.helpers.getBinaryDataBuffer(itemIndex, binaryProperty),
+			fileName: binaryData.fileName ?? binaryProperty,
+			mimeType: binaryData.mimeType,
+		};
+	}
+	return files;
+}
+
+/**
+ * Stand-ins for file inputs while the run inputs are validated, priced and
+ * hashed into the idempotency key. The contents are represented by their hash.
+ */
+export function getFilePlaceholders(files: Record<string, BinaryFile>): Record<string, IDataObject> {
+	const placeholders: Record<string, IDataObject> = {};
+	for (const [input, file] of Object.entries(files)) {
+		placeholders[input] = {
+			fileName: file.fileName,
+			mimeType: file.mimeType,
+			fileSize: file.data.length,
+			sha256: crypto.createHash('sha256').update(file.data).digest('hex'),
+		};
+	}
+	return placeholders;
+}
+
+/**
+ * Replace the file inputs with the values the service expects
+ */
+export async function encodeFileInputs(
+	context: IExecuteFunctions,
+	inputs: Record<string, any>,
+	files: Record<string, BinaryFile>,
+	fields: GlyphSchemaField[] | undefined,
+	requestOptions: XPayRequestOptions = {},
+): Promise<Record<string, any>> {
+	const encoded = { ...inputs };
+	for (const [input, file] of Object.entries(files)) {
+		const field = fields?.find((f) => f.name === input);
+		encoded[input] = await encodeFileInput(context, file, field, requestOptions);
+	}
+	return encoded;
+}
+
+/**
+ * Turn a file into the input value a service expects: a data URI, or the URL of
+ * an upload. Fields that do not say how files are passed get inline files up to
+ * INLINE_FILE_MAX_BYTES and uploads above that.
+ */
+export async function encodeFileInput(
+	context: IExecuteFunctions,
+	file: BinaryFile,
+	field: GlyphSchemaField | undefined,
+	requestOptions: XPayRequestOptions = {},
+): Promise<string> {
+	const transport = field?.fileTransport ?? (file.data.length > DEFAULTS.INLINE_FILE_MAX_BYTES ? 'upload' : 'inline');
+	if (transport === 'inline') {
+		return `data:${file.mimeType};base64,${file.data.toString('base64')}`;
+	}
+
+	const response = await glyphRouterRequest(
+		context,
+		'POST',
+		ENDPOINTS.FILES,
+		{
+			fileName: file.fileName,
+			mimeType: file.mimeType,
+			data: file.data.toString('base64'),
+		},
+		undefined,
+		{ ...requestOptions, idempotent: true },
+	);
+	return response.url;
+}
+
+/**
+ * Whether a service returns a file rather than JSON or text
+ */
+export function isFileOutput(outputs: GlyphSchema['outputs']): boolean {
+	if (!outputs) {
+		return false;
+	}
+	if (outputs.downloadable) {
+		return true;
+	}
+	const mimeType = outputs.mimeType?.toLowerCase();
+	if (!mimeType) {
+		return false;
+	}
+	return !/^application\/([\w.-]+\+)?json$/.test(mimeType) && !TEXT_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Get the file from a run output. The output can be a data URI, a download URL,
+ * the file content as text, or an object with fileName, mimeType and one of
+ * url, data (base64) or content (text).
+ */
+export async function getOutputFile(
+	context: IExecuteFunctions | IWebhookFunctions,
+	output: unknown,
+	outputs: GlyphSchema['outputs'],
+	baseName: string,
+): Promise<BinaryFile> {
+	const file = (output && typeof output === 'object' ? output : { content: output }) as IDataObject;
+	let fileName = (file.fileName ?? file.filename) as string | undefined;
+	let mimeType = (file.mimeType as string | undefined) ?? outputs?.mimeType;
+	let data: Buffer;
+
+	const source = (file.url ?? file.content ?? '') as string;
+	const dataUri = typeof source === 'string' ? /^data:([^;,]*)(;base64)?,(.*)$/s.exec(source) : null;
+
+	if (typeof file.data === 'string') {
+		data = Buffer.from(file.data, 'base64');
+	} else if (dataUri) {
+		data = dataUri[2] ? Buffer.from(dataUri[3], 'base64') : Buffer.from(decodeURIComponent(dataUri[3]));
+		mimeType = dataUri[1] || mimeType;
+	} else if (typeof source === 'string' && /^https?:\/\//i.test(source)) {
+		const response = await context.helpers.httpRequest({
+			method: 'GET',
+			url: source,
+			encoding: 'arraybuffer',
+			returnFullResponse: true,
+			json: false,
+		});
+		data = Buffer.from(response.body);
+		const contentType = response.headers?.['content-type'] as string | undefined;
+		mimeType = mimeType ?? contentType?.split(';')[0].trim();
+		fileName = fileName ?? (decodeURIComponent(new URL(source).pathname.split('/').pop() ?? '') || undefined);
+	} else {
+		data = Buffer.from(typeof source === 'string' ? source : JSON.stringify(source));
+	}
+
+	mimeType = mimeType || 'application/octet-stream';
+	return {
+		data,
+		fileName: fileName ?? `${baseName}${FILE_EXTENSIONS[mimeType] ?? ''}`,
+		mimeType,
+	};
+}
+
+/**
+ * Move a file output into n8n binary data. Returns undefined when the service
+ * does not return files; otherwise the JSON output describes the file.
+ */
+export async function getBinaryOutput(
+	context: IExecuteFunctions | IWebhookFunctions,
+	output: unknown,
+	outputs: GlyphSchema['outputs'],
+	binaryProperty: string,
+	baseName: string,
+): Promise<{ output: IDataObject; binary: IBinaryKeyData } | undefined> {
+	if (output === undefined || output === null || !isFileOutput(outputs)) {
+		return undefined;
+	}
+
+	const file = await getOutputFile(context, output, outputs, baseName);
+	return {
+		output: {
+			binaryProperty,
+			fileName: file.fileName,
+			mimeType: file.mimeType,
+			fileSize: file.data.length,
+		},
+		binary: {
+			[binaryProperty]: await context.helpers.prepareBinaryData(file.data, file.fileName, file.mimeType),
+		},
+	};
+}
@@ -0,0 +1,170 @@
+/**
+ * In-process cache for xpay catalog reads (glyph lists, single glyphs, models, collections)
+ *
+ * Entries are shared by every node instance in the n8n process and keyed by
+ * credential (API key), environment and base URL, so two credentials never
+ * see each other's catalog.
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+import {
+	type ApiContext,
+	type CacheOptions,
+	type XPayRequestOptions,
+	getCoreBaseUrl,
+	getXPayCredentials,
+	glyphCoreRequest,
+	hashValue,
+	canonicalJson,
+	requestAllPages,
+} from './api';
+import { DEFAULTS } from './constants';
+
+interface CacheEntry<T> {
+	value: Promise<T>;
+	expiresAt: number;
+}
+
+/**
+ * Map of promises with a per-entry TTL and a size cap (oldest entries are evicted first).
+ * Storing the pending promise lets concurrent identical reads share one request.
+ */
+export class TtlCache<T = unknown> {
+	private readonly entries = new Map<string, CacheEntry<T>>();
+
+	constructor(private readonly maxEntries: number) {}
+
+	get(key: string): Promise<T> | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return undefined;
+		}
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+		return entry.value;
+	}
+
+	set(key: string, value: Promise<T>, ttlMs: number): void {
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+
+	/**
+	 * Remove an entry. When `value` is given, only remove it if it is still the cached promise.
+	 */
+	delete(key: string, value?: Promise<T>): void {
+		if (value === undefined || this.entries.get(key)?.value === value) {
+			this.entries.delete(key);
+		}
+	}
+
+	/**
+	 * Remove all entries, or only those whose key starts with `prefix`
+	 */
+	clear(prefix?: string): void {
+		if (prefix === undefined) {
+			this.entries.clear();
+			return;
+		}
+		for (const key of [...this.entries.keys()]) {
+			if (key.startsWith(prefix)) {
+				this.entries.delete(key);
+			}
+		}
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
+
+const catalogCache = new TtlCache<any>(DEFAULTS.CATALOG_CACHE_MAX_ENTRIES);
+
+/**
+ * Read the cache settings from a node's request options collection
+ */
+export function getCacheOptions(requestOptions: IDataObject = {}): CacheOptions {
+	const cacheTtl = requestOptions.cacheTtl as number | undefined;
+	return {
+		ttlMs: cacheTtl !== undefined ? cacheTtl * 1000 : undefined,
+		bypass: requestOptions.bypassCache as boolean | undefined,
+	};
+}
+
+/**
+ * GET a catalog endpoint of Glyphrun Core through the shared cache.
+ *
+ * A cached response is reused until its TTL expires. With `bypass` the API is
+ * always called and the fresh response replaces the cached one; a TTL of 0
+ * disables caching for the call. Failed requests are never cached.
+ * Callers get their own copy of the response and may modify it.
+ */
+export async function catalogRequest(
+	context: ApiContext,
+	endpoint: string,
+	query?: Record<string, string | number | boolean>,
+	requestOptions: XPayRequestOptions = {},
+): Promise<any> {
+	const { ttlMs = DEFAULTS.CATALOG_CACHE_TTL_MS, bypass = false } = requestOptions.cache ?? {};
+	if (ttlMs <= 0) {
+		return glyphCoreRequest(context, 'GET', endpoint, undefined, query, requestOptions);
+	}
+
+	const key = `${await getCacheScope(context)}:${endpoint}?${canonicalJson(query ?? {})}`;
+	let pending = bypass ? undefined : catalogCache.get(key);
+	if (!pending) {
+		const request = glyphCoreRequest(context, 'GET', endpoint, undefined, query, requestOptions);
+		request.catch(() => catalogCache.delete(key, request));
+		catalogCache.set(key, request, ttlMs);
+		pending = request;
+	}
+
+	return clone(await pending);
+}
+
+/**
+ * GET every page of a paginated catalog endpoint through the shared cache.
+ * `query.limit` is used as the page size and `query.offset` as the starting point.
+ */
+export async function catalogRequestAll(
+	context: ApiContext,
+	endpoint: string,
+	listKey: string,
+	query: Record<string, string | number | boolean> = {},
+	requestOptions: XPayRequestOptions = {},
+): Promise<any> {
+	const { limit, offset, ...filters } = query;
+	return requestAllPages(
+		async (page) => catalogRequest(context, endpoint, { ...filters, ...page }, requestOptions),
+		listKey,
+		{ pageSize: Number(limit) || DEFAULTS.PAGINATION_PAGE_SIZE, offset: Number(offset) || 0 },
+	);
+}
+
+/**
+ * Drop cached catalog responses, either all of them or only those of the context's credential
+ */
+export async function clearCatalogCache(context?: ApiContext): Promise<void> {
+	catalogCache.clear(context ? `${await getCacheScope(context)}:` : undefined);
+}
+
+/**
+ * Hash of the context's API key, environment and base URL, so entries of one
+ * credential are never served to another
+ */
+export async function getCacheScope(context: ApiContext): Promise<string> {
+	const credentials = await getXPayCredentials(context);
+	return hashValue([credentials.apiKey, credentials.environment, getCoreBaseUrl(credentials)]).slice(0, 32);
+}
+
+function clone<T>(value: T): T {
+	return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
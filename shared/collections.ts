@@ -0,0 +1,87 @@
+/**
+ * Collection helpers for xpay n8n nodes
+ * Resolves the services of curated, tag-based and hybrid collections
+ */
+
+import { type ApiContext, type XPayRequestOptions, getErrorResponse } from './api';
+import { catalogRequest, catalogRequestAll } from './cache';
+import { ENDPOINTS } from './constants';
+import type { CollectionTheme, Glyph } from './types';
+
+export interface CollectionServices {
+	glyphs: Glyph[];
+	// Curated glyph IDs that no longer resolve (unpublished or deleted)
+	missingGlyphIds: string[];
+}
+
+/**
+ * Whether a glyph matches the tag, type and category filters of a collection.
+ * Tags match if any tag is shared; types and categories only apply when set.
+ */
+export function matchesCollectionFilters(glyph: Glyph, collection: CollectionTheme): boolean {
+	const { filterTags = [], filterTypes = [], filterCategories = [] } = collection;
+
+	if (filterTags.length && !(glyph.tags ?? []).some((tag) => filterTags.includes(tag))) {
+		return false;
+	}
+	if (filterTypes.length && !filterTypes.includes(glyph.type)) {
+		return false;
+	}
+	if (filterCategories.length && !filterCategories.includes(glyph.category)) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Resolve the services of a collection.
+ *
+ * Curated collections list their `glyphIds` in the curator's order. Tag-based
+ * collections match the catalog against `filterTags`, `filterTypes` and
+ * `filterCategories`. Hybrid collections return the curated services first,
+ * followed by any filter match not already included.
+ */
+export async function resolveCollectionServices(
+	context: ApiContext,
+	collection: CollectionTheme,
+	requestOptions: XPayRequestOptions = {},
+): Promise<CollectionServices> {
+	const glyphs: Glyph[] = [];
+	const missingGlyphIds: string[] = [];
+
+	if (collection.collectionType === 'curated' || collection.collectionType === 'hybrid') {
+		for (const glyphId of collection.glyphIds ?? []) {
+			try {
+				const response = await catalogRequest(context, `${ENDPOINTS.GLYPH}/${glyphId}`, undefined, requestOptions);
+				glyphs.push(response.glyph || response);
+			} catch (error) {
+				if (getErrorResponse(error).status !== 404) {
+					throw error;
+				}
+				missingGlyphIds.push(glyphId);
+			}
+		}
+	}
+
+	const hasFilters = !!(
+		collection.filterTags?.length ||
+		collection.filterTypes?.length ||
+		collection.filterCategories?.length
+	);
+	if (collection.collectionType === 'tag_based' || (collection.collectionType === 'hybrid' && hasFilters)) {
+		const query: Record<string, string> = {};
+		if (collection.filterTags?.length) query.tags = collection.filterTags.join(',');
+		if (collection.filterTypes?.length === 1) query.type = collection.filterTypes[0];
+
+		const response = await catalogRequestAll(context, ENDPOINTS.GLYPHS, 'glyphs', query, requestOptions);
+		const seen = new Set(glyphs.map((glyph) => glyph.id));
+		for (const glyph of response.glyphs as Glyph[]) {
+			if (!seen.has(glyph.id) && matchesCollectionFilters(glyph, collection)) {
+				seen.add(glyph.id);
+				glyphs.push(glyph);
+			}
+		}
+	}
+
+	return { glyphs, missingGlyphIds };
+}
@@ -0,0 +1,108 @@
+/**
+ * Model comparison helpers for xpay n8n nodes
+ * Scores how similar the outputs of the same run on different models are and
+ * summarizes cost, latency and success side by side
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+import { canonicalJson } from './api';
+
+export interface ModelComparisonRow {
+	modelId: string;
+	success: boolean;
+	status: string;
+	output?: unknown;
+	error?: string;
+	cost: number | null;
+	// Round trip measured by the node
+	latencyMs: number;
+	// Run duration reported by the service
+	duration?: number;
+	runId?: string;
+	// Mean similarity (0-1) to the outputs of the other successful models
+	similarity?: number | null;
+	// Estimated versus actual cost, when a max cost per run is set
+	costReport?: IDataObject;
+}
+
+/**
+ * Output as text for comparing: strings as they are, anything else as canonical JSON
+ */
+export function toComparableText(output: unknown): string {
+	if (output === undefined || output === null) {
+		return '';
+	}
+	return typeof output === 'string' ? output : canonicalJson(output);
+}
+
+function countWords(text: string): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+		counts.set(word, (counts.get(word) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * Cosine similarity of the word counts of two texts, from 0 (no words in
+ * common) to 1 (same words in the same proportions). Two empty texts are equal.
+ */
+export function textSimilarity(a: string, b: string): number {
+	const countsA = countWords(a);
+	const countsB = countWords(b);
+	if (!countsA.size || !countsB.size) {
+		return countsA.size === countsB.size ? 1 : 0;
+	}
+
+	let dot = 0;
+	for (const [word, count] of countsA) {
+		dot += count * (countsB.get(word) ?? 0);
+	}
+	const norm = (counts: Map<string, number>) =>
+		Math.sqrt(Array.from(counts.values()).reduce((sum, count) => sum + count * count, 0));
+	return Math.round((dot / (norm(countsA) * norm(countsB))) * 1000) / 1000;
+}
+
+/**
+ * Set each successful row's similarity to the mean of its similarity to the
+ * other successful rows. Rows get null when there is nothing to compare with.
+ */
+export function scoreSimilarity(rows: ModelComparisonRow[]): void {
+	const successful = rows.filter((row) => row.success);
+	const texts = new Map(successful.map((row) => [row, toComparableText(row.output)]));
+
+	for (const row of rows) {
+		const others = successful.filter((other) => other !== row);
+		if (!row.success || !others.length) {
+			row.similarity = null;
+			continue;
+		}
+		const total = others.reduce((sum, other) => sum + textSimilarity(texts.get(row)!, texts.get(other)!), 0);
+		row.similarity = Math.round((total / others.length) * 1000) / 1000;
+	}
+}
+
+/**
+ * Cheapest and fastest successful models, and the success count. Models that
+ * were not run because their estimate is over budget count as skipped.
+ */
+export function summarizeComparison(rows: ModelComparisonRow[]): IDataObject {
+	const successful = rows.filter((row) => row.success);
+	const skipped = rows.filter((row) => row.status === 'over_budget').length;
+	const pick = (score: (row: ModelComparisonRow) => number) =>
+		successful.reduce<ModelComparisonRow | undefined>(
+			(best, row) => (best === undefined || score(row) < score(best) ? row : best),
+			undefined,
+		)?.modelId ?? null;
+
+	return {
+		models: rows.length,
+		succeeded: successful.length,
+		failed: rows.length - successful.length - skipped,
+		skipped,
+		cheapestModelId: pick((row) => row.cost ?? Infinity),
+		fastestModelId: pick((row) => row.latencyMs),
+		totalCost: Math.round(rows.reduce((sum, row) => sum + (row.cost ?? 0), 0) * 1e6) / 1e6,
+	};
+}
@@ -2,32 +2,40 @@
  * API Endpoint Constants for xpay n8n nodes
  */
 
-export type Environment = 'sandbox' | 'production';
+export type HostedEnvironment = 'sandbox' | 'production';
+// 'custom' reads every base URL from the credential (self-hosted or local stand-in)
+export type Environment = HostedEnvironment | 'custom';
+// Environments of the charge-per-use paywall (selected on the node, not the credential)
+export type PaywallEnvironment = 'development' | 'staging' | 'production';
 
 // Glyphrun Core API (Catalog, Wallet, Users)
-export const GLYPH_CORE_URLS: Record<Environment, string> = {
+export const GLYPH_CORE_URLS: Record<HostedEnvironment, string> = {
 	sandbox: 'https://7qzahhyw77.execute-api.us-east-1.amazonaws.com/dev',
 	production: 'https://7qzahhyw77.execute-api.us-east-1.amazonaws.com/dev', // TODO: Update for production
 };
 
 // Glyphrun Router API (Execution)
-export const GLYPH_ROUTER_URLS: Record<Environment, string> = {
+export const GLYPH_ROUTER_URLS: Record<HostedEnvironment, string> = {
 	sandbox: 'https://zn3nt9p4tf.execute-api.us-east-1.amazonaws.com/dev',
 	production: 'https://zn3nt9p4tf.execute-api.us-east-1.amazonaws.com/dev', // TODO: Update for production
 };
 
 // Smart Proxy API
-export const SMART_PROXY_URLS: Record<Environment, string> = {
+export const SMART_PROXY_URLS: Record<HostedEnvironment, string> = {
 	sandbox: 'https://9o3kiqjr72.execute-api.us-east-1.amazonaws.com/dev',
 	production: 'https://9o3kiqjr72.execute-api.us-east-1.amazonaws.com/dev', // TODO: Update for production
 };
 
-// Pay-to-Run API (for XPayTrigger - kept for reference)
-export const PAYWALL_URLS: Record<Environment, string> = {
-	sandbox: 'https://cja09z457f.execute-api.us-east-1.amazonaws.com/dev',
+// Pay-to-Run API (charge-per-use webhook registration)
+export const PAYWALL_URLS: Record<PaywallEnvironment, string> = {
+	development: 'https://cja09z457f.execute-api.us-east-1.amazonaws.com/dev',
+	staging: 'https://hkrqani0b0.execute-api.us-east-1.amazonaws.com/staging',
 	production: 'https://m8efqvrb1b.execute-api.us-east-1.amazonaws.com/prod',
 };
 
+// Marketplace web app (service pages live under /{slug})
+export const MARKETPLACE_URL = 'https://app.xpay.sh/marketplace';
+
 // API Endpoints
 export const ENDPOINTS = {
 	// Glyphrun Core
@@ -45,6 +53,8 @@ export const ENDPOINTS = {
 	RUN: '/run',
 	RUN_ASYNC: '/run/async',
 	RUN_STATUS: '/run/status', // + /{runId}
+	RUN_CANCEL: '/run/cancel', // + /{runId}
+	FILES: '/files',
 
 	// Smart Proxy
 	PROXY: '/n8n/proxy',
@@ -57,8 +67,28 @@ export const ENDPOINTS = {
 // Default values
 export const DEFAULTS = {
 	POLLING_INTERVAL_MS: 2000,
+	POLLING_MAX_INTERVAL_MS: 15000,
+	POLLING_BACKOFF_FACTOR: 1.5,
+	POLLING_MAX_CONSECUTIVE_ERRORS: 5,
 	POLLING_TIMEOUT_MS: 180000, // 3 minutes
+	// Extra time a callback wait is kept open after the callback timeout and the polling fallback
+	CALLBACK_WAIT_MARGIN_MS: 300000, // 5 minutes
 	STREAMING_POLLING_INTERVAL_MS: 1000,
+	RETRY_MAX_RETRIES: 3,
+	RETRY_INITIAL_DELAY_MS: 500,
+	RETRY_MAX_DELAY_MS: 10000,
+	RETRYABLE_STATUS_CODES: [408, 425, 429, 500, 502, 503, 504],
+	RETRYABLE_ERROR_CODES: ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'],
+	CATALOG_CACHE_TTL_MS: 300000, // 5 minutes
+	CATALOG_CACHE_MAX_ENTRIES: 500,
+	RESULT_CACHE_TTL_MS: 86400000, // 24 hours
+	RESULT_CACHE_REDIS_TIMEOUT_MS: 5000,
+	PAGINATION_PAGE_SIZE: 100,
+	PAGINATION_MAX_PAGES: 100,
+	SERVICE_SEARCH_PAGE_SIZE: 50,
+	INLINE_FILE_MAX_BYTES: 5 * 1024 * 1024, // 5 MB
+	CHARS_PER_TOKEN: 4,
+	ESTIMATE_OUTPUT_TOKENS: 1024,
 };
 
 // Model options for dropdown (commonly used models)
@@ -0,0 +1,101 @@
+/**
+ * Run cost helpers for xpay n8n nodes
+ * Estimates what a Glyph run will cost before it is paid for and compares
+ * the estimate with the cost that was actually charged
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+import { glyphCoreRequest, type ApiContext, type XPayRequestOptions } from './api';
+import { DEFAULTS, ENDPOINTS } from './constants';
+import type { CostEstimate, Glyph, PricingModel } from './types';
+
+export interface RunCostEstimate {
+	// null when the pricing model cannot be estimated up front (per-second)
+	estimatedCost: number | null;
+	pricingModel: PricingModel;
+	modelId?: string;
+	inputTokens?: number;
+	outputTokens?: number;
+	currency: string;
+}
+
+function roundCost(cost: number): number {
+	return Math.round(cost * 1e6) / 1e6;
+}
+
+/**
+ * Rough token count for a text (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / DEFAULTS.CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the cost of running a service. Per-run services are priced from
+ * GlyphPricing; per-token services (and services without pricing) are priced
+ * with /models/estimate, using the serialized inputs for the input tokens and
+ * maxTokens (or a default) for the output tokens.
+ */
+export async function estimateRunCost(
+	context: ApiContext,
+	glyph: Glyph,
+	modelId: string,
+	inputs: Record<string, any>,
+	maxTokens?: number,
+	requestOptions: XPayRequestOptions = {},
+): Promise<RunCostEstimate> {
+	const pricingModel = glyph.pricing?.model ?? 'per-token';
+	const currency = glyph.pricing?.currency ?? 'USDC';
+
+	if (pricingModel === 'free') {
+		return { estimatedCost: 0, pricingModel, currency };
+	}
+	if (pricingModel === 'per-run') {
+		return { estimatedCost: roundCost(glyph.pricing!.amount), pricingModel, currency };
+	}
+	if (pricingModel === 'per-second') {
+		return { estimatedCost: null, pricingModel, currency };
+	}
+
+	const inputTokens = estimateTokens(JSON.stringify(inputs));
+	const outputTokens = maxTokens || DEFAULTS.ESTIMATE_OUTPUT_TOKENS;
+	const estimate = await glyphCoreRequest(
+		context,
+		'POST',
+		ENDPOINTS.MODELS_ESTIMATE,
+		{ modelId, inputTokens, outputTokens },
+		undefined,
+		{ ...requestOptions, idempotent: true },
+	) as CostEstimate;
+
+	return {
+		estimatedCost: roundCost(estimate.total),
+		pricingModel,
+		modelId,
+		inputTokens,
+		outputTokens,
+		currency: estimate.currency || currency,
+	};
+}
+
+/**
+ * Whether an estimate is above the max cost per run. Estimates that cannot be
+ * made are let through.
+ */
+export function isOverBudget(estimate: RunCostEstimate, maxCost: number): boolean {
+	return estimate.estimatedCost !== null && estimate.estimatedCost > maxCost;
+}
+
+/**
+ * Estimated versus actual cost of a run. The actual cost is null until the run has finished.
+ */
+export function getCostReport(estimate: RunCostEstimate, maxCost: number, actualCost?: number): IDataObject {
+	const actual = typeof actualCost === 'number' ? actualCost : null;
+	return {
+		...estimate,
+		maxCost,
+		actualCost: actual,
+		difference: actual !== null && estimate.estimatedCost !== null ? roundCost(actual - estimate.estimatedCost) : null,
+	};
+}
@@ -0,0 +1,347 @@
+/**
+ * Error taxonomy for xpay n8n nodes
+ * Maps API failures to typed errors with machine-readable codes and remediation hints
+ */
+
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import type { INode, JsonObject } from 'n8n-workflow';
+
+import { getErrorResponse, parseRetryAfter } from './api';
+
+export type XPayErrorCode =
+	| 'AUTH_INVALID'
+	| 'ACCESS_DENIED'
+	| 'PAYMENT_REQUIRED'
+	| 'POLICY_LIMIT_EXCEEDED'
+	| 'NOT_FOUND'
+	| 'RATE_LIMITED'
+	| 'SERVICE_FAILED'
+	| 'NETWORK_ERROR'
+	| 'REQUEST_FAILED'
+	| 'INVALID_PARAMETER'
+	| 'INVALID_INPUT'
+	| 'BUDGET_EXCEEDED'
+	| 'SERVICE_UNAVAILABLE'
+	| 'SERVICE_DEPRECATED'
+	| 'SCHEMA_CHANGED';
+
+export interface XPayErrorDetails {
+	message?: string;
+	description?: string;
+	code?: XPayErrorCode;
+	remediation?: string;
+	statusCode?: number;
+	requestId?: string;
+	// Error code reported by the xpay API itself (e.g. INSUFFICIENT_BALANCE)
+	upstreamCode?: string;
+	// Response body returned by the xpay API
+	upstream?: unknown;
+	retryAfterMs?: number;
+	itemIndex?: number;
+}
+
+/**
+ * Base class for errors returned by the xpay APIs
+ */
+export class XPayApiError extends NodeApiError {
+	readonly xpayCode: XPayErrorCode;
+	readonly remediation: string;
+	readonly statusCode?: number;
+	readonly requestId?: string;
+	readonly upstreamCode?: string;
+	readonly upstream?: unknown;
+
+	constructor(
+		node: INode,
+		details: XPayErrorDetails,
+		defaults: { code: XPayErrorCode; message: string; remediation: string },
+	) {
+		const upstream = details.upstream && typeof details.upstream === 'object' ? details.upstream : {};
+		const remediation = details.remediation ?? defaults.remediation;
+		super(node, upstream as JsonObject, {
+			message: details.message || defaults.message,
+			description: details.description ? `${details.description}\n\n${remediation}` : remediation,
+			httpCode: details.statusCode ? String(details.statusCode) : undefined,
+			itemIndex: details.itemIndex,
+		});
+		this.xpayCode = details.code ?? defaults.code;
+		this.remediation = remediation;
+		this.statusCode = details.statusCode;
+		this.requestId = details.requestId;
+		this.upstreamCode = details.upstreamCode;
+		this.upstream = details.upstream;
+	}
+}
+
+export class AuthInvalidError extends XPayApiError {
+	constructor(node: INode, details: XPayErrorDetails = {}) {
+		super(node, details, {
+			code: 'AUTH_INVALID',
+			message: 'Authentication failed. Please check your API key.',
+			remediation: 'Check the API secret and environment on the xpay✦ credential. Keys are managed at app.xpay.sh/settings/api-keys.',
+		});
+	}
+}
+
+export class PaymentRequiredError extends XPayApiError {
+	constructor(node: INode, details: XPayErrorDetails = {}) {
+		super(node, details, {
+			code: 'PAYMENT_REQUIRED',
+			message: 'Payment required. Your wallet balance is too low for this call.',
+			remediation: 'Top up your wallet at app.xpay.sh or choose a cheaper service or model.',
+		});
+	}
+}
+
+export class PolicyLimitExceededError extends XPayApiError {
+	constructor(node: INode, details: XPayErrorDetails = {}) {
+		super(node, details, {
+			code: 'POLICY_LIMIT_EXCEEDED',
+			message: 'The call was rejected by a spending policy.',
+			remediation: 'Raise the per-call, daily or monthly limit in your xpay✦ policy, or allow the target domain.',
+		});
+	}
+}
+
+export class ResourceNotFoundError extends XPayApiError {
+	constructor(node: INode, details: XPayErrorDetails = {}) {
+		super(node, details, {
+			code: 'NOT_FOUND',
+			message: 'Resource not found.',
+			remediation: 'Check the service slug, run ID or other identifier. It may be unpublished or belong to another environment.',
+		});
+	}
+}
+
+export class RateLimitedError extends XPayApiError {
+	readonly retryAfterMs?: number;
+
+	constructor(node: INode, details: XPayErrorDetails = {}) {
+		super(node, details, {
+			code: 'RATE_LIMITED',
+			message: 'Rate limit exceeded. Please try again later.',
+			remediation: 'Reduce the number of parallel calls or raise Max Retries in the node\'s request options.',
+		});
+		this.retryAfterMs = details.retryAfterMs;
+	}
+}
+
+export class ServiceFailedError extends XPayApiError {
+	constructor(node: INode, details: XPayErrorDetails = {}) {
+		super(node, details, {
+			code: 'SERVICE_FAILED',
+			message: 'The xpay✦ service failed to process the request.',
+			remediation: 'Retry later. If the failure persists, try another model or contact the service owner with the request ID.',
+		});
+	}
+}
+
+/**
+ * Error raised by the node itself (invalid parameters, unexpected responses) rather than by the API
+ */
+export class XPayOperationError extends NodeOperationError {
+	readonly xpayCode: XPayErrorCode;
+	readonly remediation?: string;
+	readonly upstream?: unknown;
+
+	constructor(node: INode, message: string, details: XPayErrorDetails = {}) {
+		super(node, message, {
+			description: details.description ?? details.remediation,
+			itemIndex: details.itemIndex,
+		});
+		this.xpayCode = details.code ?? 'INVALID_PARAMETER';
+		this.remediation = details.remediation;
+		this.upstream = details.upstream;
+	}
+}
+
+export interface InputFieldError {
+	field: string;
+	label: string;
+	// required | type | min | max | option | url | accept
+	rule: string;
+	message: string;
+}
+
+/**
+ * Run inputs that do not match the service schema (raised before anything is paid for)
+ */
+export class InputValidationError extends XPayOperationError {
+	readonly fieldErrors: InputFieldError[];
+
+	constructor(node: INode, serviceSlug: string, fieldErrors: InputFieldError[], itemIndex?: number) {
+		super(node, `Invalid inputs for ${serviceSlug}: ${fieldErrors.map((e) => e.message).join('; ')}`, {
+			code: 'INVALID_INPUT',
+			remediation: 'Fix the listed inputs. Nothing was charged. Validation can be turned off with the Validate Inputs option.',
+			itemIndex,
+		});
+		this.fieldErrors = fieldErrors;
+	}
+}
+
+/**
+ * Estimated run cost above the configured Max Cost per Run (raised before anything is paid for)
+ */
+export class BudgetExceededError extends XPayOperationError {
+	readonly estimatedCost: number;
+	readonly maxCost: number;
+
+	constructor(node: INode, serviceSlug: string, estimatedCost: number, maxCost: number, itemIndex?: number) {
+		super(node, `Estimated cost of ${serviceSlug} (${estimatedCost} USDC) exceeds the max cost per run (${maxCost} USDC)`, {
+			code: 'BUDGET_EXCEEDED',
+			remediation: 'Nothing was charged. Raise Max Cost per Run, choose a cheaper model or shorten the inputs.',
+			itemIndex,
+		});
+		this.estimatedCost = estimatedCost;
+		this.maxCost = maxCost;
+	}
+}
+
+export type XPayError = XPayApiError | XPayOperationError;
+
+/**
+ * Whether an error has already been mapped to the xpay taxonomy
+ */
+export function isXPayError(error: unknown): error is XPayError {
+	return error instanceof XPayApiError || error instanceof XPayOperationError;
+}
+
+function getRequestId(headers: Record<string, any>, body: any): string | undefined {
+	return (
+		headers['x-request-id'] ??
+		headers['x-amzn-requestid'] ??
+		headers['apigw-requestid'] ??
+		body?.requestId ??
+		body?.request_id
+	);
+}
+
+function getUpstreamCode(body: any): string | undefined {
+	const code = body?.code ?? body?.errorCode ?? body?.error_code ?? body?.error?.code;
+	return typeof code === 'string' ? code : undefined;
+}
+
+function getUpstreamMessage(body: any): string | undefined {
+	if (typeof body === 'string') return body || undefined;
+	if (typeof body?.error === 'string') return body.error;
+	return body?.error?.message ?? body?.message;
+}
+
+/**
+ * Map any error thrown while calling an xpay API to a typed xpay error
+ */
+export function toXPayError(node: INode, error: any, operation: string, itemIndex?: number): XPayError {
+	if (isXPayError(error)) {
+		return error;
+	}
+
+	const { status, headers, body: responseBody } = getErrorResponse(error);
+	const body = responseBody ?? error?.context?.data;
+	const upstreamCode = getUpstreamCode(body);
+	const upstreamMessage = getUpstreamMessage(body);
+	const details: XPayErrorDetails = {
+		description: upstreamMessage,
+		statusCode: status,
+		requestId: getRequestId(headers, body),
+		upstreamCode,
+		upstream: body,
+		itemIndex,
+	};
+	const isPolicyRejection = /policy|limit/i.test(`${upstreamCode ?? ''} ${upstreamMessage ?? ''}`);
+
+	if (status === 401) {
+		return new AuthInvalidError(node, { ...details, message: `Authentication failed for ${operation}. Please check your API key.` });
+	}
+
+	if (status === 402 && !isPolicyRejection) {
+		return new PaymentRequiredError(node, { ...details, message: `Payment required for ${operation}. Please check your wallet balance.` });
+	}
+
+	if ((status === 402 || status === 403) && isPolicyRejection) {
+		return new PolicyLimitExceededError(node, {
+			...details,
+			message: `Policy limit exceeded for ${operation}${upstreamMessage ? `: ${upstreamMessage}` : '.'}`,
+		});
+	}
+
+	if (status === 403) {
+		return new AuthInvalidError(node, {
+			...details,
+			code: 'ACCESS_DENIED',
+			message: `Access denied for ${operation}. You may not have permission.`,
+			remediation: 'Check that this API key has access to the requested resource and that Smart Proxy features are enabled on the credential if needed.',
+		});
+	}
+
+	if (status === 404) {
+		return new ResourceNotFoundError(node, { ...details, message: `Resource not found for ${operation}.` });
+	}
+
+	if (status === 429) {
+		return new RateLimitedError(node, {
+			...details,
+			message: `Rate limit exceeded for ${operation}. Please try again later.`,
+			retryAfterMs: parseRetryAfter(headers['retry-after'] ?? headers['Retry-After']),
+		});
+	}
+
+	if (status !== undefined && status >= 500) {
+		return new ServiceFailedError(node, {
+			...details,
+			message: `${operation} failed: ${upstreamMessage || error?.message || 'Unknown error'}`,
+		});
+	}
+
+	if (status === undefined && (error?.code ?? error?.cause?.code)) {
+		return new ServiceFailedError(node, {
+			...details,
+			code: 'NETWORK_ERROR',
+			message: `${operation} failed: ${error?.message || 'Network error'}`,
+			remediation: 'The xpay✦ API could not be reached. Check your network and the environment URLs on the credential.',
+		});
+	}
+
+	return new XPayApiError(
+		node,
+		{ ...details, message: `${operation} failed: ${upstreamMessage || error?.message || 'Unknown error'}` },
+		{
+			code: 'REQUEST_FAILED',
+			message: `${operation} failed`,
+			remediation: 'Check the node parameters. The upstream response is included in the error details.',
+		},
+	);
+}
+
+/**
+ * Structured error output for items when "Continue On Fail" is enabled
+ */
+export function getErrorOutput(error: any): JsonObject {
+	if (!isXPayError(error)) {
+		return { error: error?.message ?? String(error) };
+	}
+
+	const output: JsonObject = {
+		error: error.message,
+		code: error.xpayCode,
+	};
+	if (error.remediation) output.remediation = error.remediation;
+
+	if (error instanceof XPayApiError) {
+		if (error.statusCode) output.statusCode = error.statusCode;
+		if (error.requestId) output.requestId = error.requestId;
+		if (error.upstreamCode) output.upstreamCode = error.upstreamCode;
+		if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+			output.retryAfterMs = error.retryAfterMs;
+		}
+	}
+	if (error instanceof InputValidationError) {
+		output.fieldErrors = error.fieldErrors as unknown as JsonObject[];
+	}
+	if (error instanceof BudgetExceededError) {
+		output.estimatedCost = error.estimatedCost;
+		output.maxCost = error.maxCost;
+	}
+	if (error.upstream !== undefined) output.upstream = error.upstream as JsonObject;
+
+	return output;
+}
@@ -0,0 +1,134 @@
+/**
+ * Model fallback helpers for xpay n8n nodes
+ * Retries a run on the next model of an ordered chain when a model is down or rate-limited
+ */
+
+import type { IDataObject, IExecuteFunctions, ISupplyDataFunctions } from 'n8n-workflow';
+
+import { getErrorResponse, getIdempotencyKey, isRetryableError } from './api';
+
+export interface ModelAttempt {
+	modelId: string;
+	// skipped: the model was not tried (e.g. its estimate is over budget)
+	status: 'success' | 'failed' | 'skipped';
+	cost: number;
+	durationMs: number;
+	runId?: string;
+	// Why the attempt failed or was skipped
+	error?: string;
+	statusCode?: number;
+}
+
+export interface ModelFallbackOptions<T> {
+	// Reason not to try a fallback model; the requested model is always tried
+	skip?: (modelId: string) => Promise<string | undefined>;
+	getRunId?: (result: T) => string | undefined;
+	getCost?: (result: T) => number | undefined;
+}
+
+export interface ModelFallbackResult<T> {
+	result: T;
+	// Model that served the request
+	modelId: string;
+	attempts: ModelAttempt[];
+}
+
+/**
+ * The requested model followed by the fallback models (comma-separated or a
+ * list), without blanks and duplicates
+ */
+export function getModelChain(modelId: string, fallbackModels?: string | string[]): string[] {
+	const fallbacks = Array.isArray(fallbackModels) ? fallbackModels : String(fallbackModels ?? '').split(',');
+	return [...new Set([modelId, ...fallbacks].map((model) => model.trim()).filter(Boolean))];
+}
+
+/**
+ * Call `run` with each model of the chain until one succeeds. Only retryable
+ * failures (rate limits, 5xx, network errors; after the request's own retries)
+ * move on to the next model; other errors are thrown right away. When every
+ * model fails, the last error is thrown.
+ */
+export async function runWithModelFallback<T>(
+	models: string[],
+	run: (modelId: string) => Promise<T>,
+	options: ModelFallbackOptions<T> = {},
+): Promise<ModelFallbackResult<T>> {
+	const attempts: ModelAttempt[] = [];
+	let lastError: unknown;
+
+	for (const [index, modelId] of models.entries()) {
+		if (index > 0 && options.skip) {
+			const reason = await options.skip(modelId);
+			if (reason) {
+				attempts.push({ modelId, status: 'skipped', cost: 0, durationMs: 0, error: reason });
+				continue;
+			}
+		}
+
+		const startTime = Date.now();
+		try {
+			const result = await run(modelId);
+			const attempt: ModelAttempt = {
+				modelId,
+				status: 'success',
+				cost: options.getCost?.(result) ?? 0,
+				durationMs: Date.now() - startTime,
+			};
+			const runId = options.getRunId?.(result);
+			if (runId) attempt.runId = runId;
+			attempts.push(attempt);
+			return { result, modelId, attempts };
+		} catch (error) {
+			if (!isRetryableError(error)) {
+				throw error;
+			}
+			const { status, body } = getErrorResponse(error);
+			attempts.push({
+				modelId,
+				status: 'failed',
+				// Failed attempts are free unless the API reports a charge
+				cost: Number(body?.cost) || 0,
+				durationMs: Date.now() - startTime,
+				error: (error as Error).message,
+				...(status !== undefined ? { statusCode: status } : {}),
+			});
+			lastError = error;
+		}
+	}
+
+	throw lastError;
+}
+
+/**
+ * Sum of the costs of all attempts, rounded to 6 decimals
+ */
+export function getAttemptsCost(attempts: ModelAttempt[]): number {
+	return Math.round(attempts.reduce((total, attempt) => total + attempt.cost, 0) * 1e6) / 1e6;
+}
+
+/**
+ * Idempotency key for every model of a chain. The requested model keeps the
+ * run's key; fallback models get their own, so the API does not answer them
+ * with the failed attempt. `runParams` is the payload for the requested model.
+ */
+export function getChainIdempotencyKeys(
+	context: IExecuteFunctions | ISupplyDataFunctions,
+	itemIndex: number,
+	runParams: IDataObject,
+	models: string[],
+	customKey?: string,
+): Record<string, string> {
+	const keys: Record<string, string> = {};
+	for (const [index, modelId] of models.entries()) {
+		keys[modelId] =
+			index === 0
+				? getIdempotencyKey(context, itemIndex, runParams, customKey)
+				: getIdempotencyKey(
+					context,
+					itemIndex,
+					{ ...runParams, modelId },
+					customKey?.trim() ? `${customKey.trim()}-${modelId}` : undefined,
+				);
+	}
+	return keys;
+}
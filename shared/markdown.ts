@@ -0,0 +1,141 @@
+/**
+ * Markdown helpers for xpay n8n nodes
+ * Extracts fenced code blocks and renders the common subset of markdown
+ * services return (headings, paragraphs, lists, quotes, code, links, emphasis)
+ */
+
+export interface CodeBlock {
+	language?: string;
+	code: string;
+}
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})[ \t]*([\w+#.-]*)[^\n]*\n([\s\S]*?)\n?^\1[ \t]*$/gm;
+
+/**
+ * Fenced code blocks of a markdown text, in order
+ */
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+	return Array.from(markdown.matchAll(FENCE_PATTERN), (match) => ({
+		...(match[2] ? { language: match[2].toLowerCase() } : {}),
+		code: match[3],
+	}));
+}
+
+export function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Links and images may only point to web, mail or relative URLs
+function isSafeUrl(url: string): boolean {
+	return /^(https?:|mailto:|\/|#)/i.test(url);
+}
+
+function renderInline(text: string): string {
+	// Code spans are split out first so their content is left alone
+	return text
+		.split(/(`[^`]+`)/)
+		.map((part) => {
+			if (/^`[^`]+`$/.test(part)) {
+				return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+			}
+			return escapeHtml(part)
+				.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (match, alt, src) =>
+					isSafeUrl(src) ? `<img src="${src}" alt="${alt}">` : alt,
+				)
+				.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, href) =>
+					isSafeUrl(href) ? `<a href="${href}">${label}</a>` : label,
+				)
+				.replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '<strong>$1</strong>')
+				.replace(/(?<!\w)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '<strong>$1</strong>')
+				.replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+				.replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '<em>$1</em>');
+		})
+		.join('');
+}
+
+/**
+ * Render markdown as HTML. Raw HTML in the markdown is escaped.
+ */
+export function markdownToHtml(markdown: string): string {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	const html: string[] = [];
+	let paragraph: string[] = [];
+	let list: { tag: 'ul' | 'ol'; items: string[] } | undefined;
+	let quote: string[] = [];
+
+	const flush = () => {
+		if (paragraph.length) {
+			html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+			paragraph = [];
+		}
+		if (list) {
+			html.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+			list = undefined;
+		}
+		if (quote.length) {
+			html.push(`<blockquote>${markdownToHtml(quote.join('\n'))}</blockquote>`);
+			quote = [];
+		}
+	};
+
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index];
+
+		const fence = /^(`{3,}|~{3,})[ \t]*([\w+#.-]*)/.exec(line);
+		if (fence) {
+			flush();
+			const code: string[] = [];
+			while (++index < lines.length && !lines[index].startsWith(fence[1])) {
+				code.push(lines[index]);
+			}
+			const language = fence[2] ? ` class="language-${escapeHtml(fence[2].toLowerCase())}"` : '';
+			html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+			continue;
+		}
+
+		const quoteLine = /^>\s?(.*)$/.exec(line);
+		if (quoteLine) {
+			if (!quote.length) flush();
+			quote.push(quoteLine[1]);
+			continue;
+		}
+		if (quote.length) flush();
+
+		if (!line.trim()) {
+			flush();
+			continue;
+		}
+
+		const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+		if (heading) {
+			flush();
+			html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+			continue;
+		}
+
+		if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+			flush();
+			html.push('<hr>');
+			continue;
+		}
+
+		const item = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+		if (item) {
+			const tag = item[1] ? 'ul' : 'ol';
+			if (paragraph.length || (list && list.tag !== tag)) flush();
+			list ??= { tag, items: [] };
+			list.items.push(item[2]);
+			continue;
+		}
+
+		if (list && /^\s+\S/.test(line)) {
+			list.items[list.items.length - 1] += `\n${line.trim()}`;
+			continue;
+		}
+		if (list) flush();
+		paragraph.push(line.trim());
+	}
+	flush();
+
+	return html.join('\n');
+}
@@ -0,0 +1,248 @@
+/**
+ * Run output helpers for xpay n8n nodes
+ * Normalizes run outputs according to the service's declared output schema
+ * and checks structured outputs against a user-supplied JSON Schema
+ */
+
+import type { IBinaryKeyData, IDataObject, IExecuteFunctions, INode, IWebhookFunctions } from 'n8n-workflow';
+
+import { getBinaryOutput } from './binary';
+import { XPayOperationError } from './errors';
+import { extractCodeBlocks, markdownToHtml } from './markdown';
+import type { GlyphSchema } from './types';
+
+export interface OutputOptions {
+	// Normalize the output according to the service's output schema
+	parse: boolean;
+	markdownToHtml: boolean;
+	// JSON Schema the (normalized) output must match
+	jsonSchema?: IDataObject;
+	binaryProperty: string;
+}
+
+export interface SchemaMismatch {
+	path: string;
+	message: string;
+}
+
+/**
+ * Map the node's run options to output options. Output parsing defaults to on
+ * for node version 1.1 and later.
+ */
+export function getOutputOptions(
+	node: INode,
+	options: {
+		parseOutput?: boolean;
+		markdownToHtml?: boolean;
+		outputSchema?: string | IDataObject;
+		binaryOutputProperty?: string;
+	},
+	itemIndex?: number,
+): OutputOptions {
+	let jsonSchema: IDataObject | undefined;
+	if (typeof options.outputSchema === 'string' && options.outputSchema.trim()) {
+		try {
+			jsonSchema = JSON.parse(options.outputSchema);
+		} catch (error) {
+			throw new XPayOperationError(node, `Output JSON Schema is not valid JSON: ${(error as Error).message}`, {
+				remediation: 'Fix the Output JSON Schema option or remove it.',
+				itemIndex,
+			});
+		}
+	} else if (options.outputSchema && typeof options.outputSchema === 'object') {
+		jsonSchema = options.outputSchema;
+	}
+
+	return {
+		parse: options.parseOutput ?? node.typeVersion >= 1.1,
+		markdownToHtml: options.markdownToHtml ?? false,
+		jsonSchema,
+		binaryProperty: options.binaryOutputProperty || 'data',
+	};
+}
+
+function isJsonOutput(type?: string, mimeType?: string): boolean {
+	return type === 'json' || (!!mimeType && /^application\/([\w.-]+\+)?json$/.test(mimeType));
+}
+
+function isMarkdownOutput(type?: string, mimeType?: string): boolean {
+	return type === 'markdown' || mimeType === 'text/markdown';
+}
+
+/**
+ * Normalize an output by its declared type: JSON strings are parsed (also from
+ * a fenced block), code outputs are taken out of their fence, and fenced blocks
+ * in markdown are listed. Returns the fields to merge into the run result;
+ * rawOutput is set whenever the output was changed.
+ */
+export function normalizeOutput(
+	output: unknown,
+	outputs: GlyphSchema['outputs'],
+	options: Pick<OutputOptions, 'markdownToHtml'> = { markdownToHtml: false },
+): IDataObject {
+	const fields: IDataObject = { output: output as IDataObject };
+	if (typeof output !== 'string') {
+		return fields;
+	}
+
+	const type = outputs?.type?.toLowerCase();
+	const mimeType = outputs?.mimeType?.toLowerCase();
+	const language = outputs?.language?.toLowerCase();
+
+	if (isJsonOutput(type, mimeType)) {
+		const [block] = extractCodeBlocks(output);
+		try {
+			fields.output = JSON.parse(block ? block.code : output);
+		} catch (error) {
+			fields.outputParseError = `Output is not valid JSON: ${(error as Error).message}`;
+		}
+	} else if (isMarkdownOutput(type, mimeType)) {
+		const codeBlocks = extractCodeBlocks(output);
+		if (codeBlocks.length) {
+			fields.codeBlocks = codeBlocks as unknown as IDataObject[];
+		}
+		if (options.markdownToHtml) {
+			fields.output = markdownToHtml(output);
+		}
+	} else if (type === 'code' || language) {
+		const codeBlocks = extractCodeBlocks(output);
+		const block = codeBlocks.find((b) => b.language === language) ?? codeBlocks[0];
+		if (block) {
+			fields.output = block.code;
+		}
+		if (block?.language || language) {
+			fields.language = block?.language || language;
+		}
+	}
+
+	if (fields.output !== output) {
+		fields.rawOutput = output;
+	}
+	return fields;
+}
+
+function getType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+	return typeof value;
+}
+
+/**
+ * Check a value against a JSON Schema. Covers the keywords used to describe
+ * service outputs: type, enum, const, required, properties,
+ * additionalProperties, items, min/max (length, items, value) and pattern.
+ */
+export function validateJsonSchema(value: unknown, schema: IDataObject, path = '$'): SchemaMismatch[] {
+	const mismatches: SchemaMismatch[] = [];
+	const fail = (message: string) => mismatches.push({ path, message });
+	const type = getType(value);
+
+	if (schema.type !== undefined) {
+		const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+		const matches = types.some((t) => t === type || (t === 'number' && type === 'integer'));
+		if (!matches) {
+			fail(`must be ${types.join(' or ')}, got ${type}`);
+			return mismatches;
+		}
+	}
+	if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+		fail(`must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+	}
+	if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+		fail(`must be ${JSON.stringify(schema.const)}`);
+	}
+
+	if (type === 'string') {
+		const text = value as string;
+		if (typeof schema.minLength === 'number' && text.length < schema.minLength) {
+			fail(`must be at least ${schema.minLength} characters`);
+		}
+		if (typeof schema.maxLength === 'number' && text.length > schema.maxLength) {
+			fail(`must be at most ${schema.maxLength} characters`);
+		}
+		if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(text)) {
+			fail(`must match ${schema.pattern}`);
+		}
+	}
+
+	if (type === 'number' || type === 'integer') {
+		if (typeof schema.minimum === 'number' && (value as number) < schema.minimum) {
+			fail(`must be at least ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === 'number' && (value as number) > schema.maximum) {
+			fail(`must be at most ${schema.maximum}`);
+		}
+	}
+
+	if (type === 'array') {
+		const entries = value as unknown[];
+		if (typeof schema.minItems === 'number' && entries.length < schema.minItems) {
+			fail(`must have at least ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === 'number' && entries.length > schema.maxItems) {
+			fail(`must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items && typeof schema.items === 'object') {
+			entries.forEach((entry, index) => {
+				mismatches.push(...validateJsonSchema(entry, schema.items as IDataObject, `${path}[${index}]`));
+			});
+		}
+	}
+
+	if (type === 'object') {
+		const object = value as IDataObject;
+		const properties = (schema.properties ?? {}) as Record<string, IDataObject>;
+		for (const name of (schema.required ?? []) as string[]) {
+			if (object[name] === undefined) {
+				mismatches.push({ path: `${path}.${name}`, message: 'is required' });
+			}
+		}
+		for (const [name, propertyValue] of Object.entries(object)) {
+			if (properties[name]) {
+				mismatches.push(...validateJsonSchema(propertyValue, properties[name], `${path}.${name}`));
+			} else if (schema.additionalProperties === false) {
+				mismatches.push({ path: `${path}.${name}`, message: 'is not allowed' });
+			} else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+				mismatches.push(
+					...validateJsonSchema(propertyValue, schema.additionalProperties as IDataObject, `${path}.${name}`),
+				);
+			}
+		}
+	}
+
+	return mismatches;
+}
+
+/**
+ * Turn the output of a completed run into result fields and, for file outputs,
+ * n8n binary data. The run is already paid for, so a failure here (e.g. a file
+ * that cannot be downloaded) keeps the raw output and is reported in outputError
+ * instead of failing the item.
+ */
+export async function processRunOutput(
+	context: IExecuteFunctions | IWebhookFunctions,
+	output: unknown,
+	outputs: GlyphSchema['outputs'],
+	options: OutputOptions,
+	baseName: string,
+): Promise<{ fields: IDataObject; binary?: IBinaryKeyData }> {
+	try {
+		const binaryOutput = await getBinaryOutput(context, output, outputs, options.binaryProperty, baseName);
+		if (binaryOutput) {
+			return { fields: { output: binaryOutput.output }, binary: binaryOutput.binary };
+		}
+
+		const fields = options.parse ? normalizeOutput(output, outputs, options) : { output: output as IDataObject };
+		if (options.jsonSchema) {
+			const mismatches = validateJsonSchema(fields.output, options.jsonSchema);
+			fields.outputValidation = {
+				valid: mismatches.length === 0,
+				errors: mismatches as unknown as IDataObject[],
+			};
+		}
+		return { fields };
+	} catch (error) {
+		return { fields: { output: output as IDataObject, outputError: (error as Error).message } };
+	}
+}
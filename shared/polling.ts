@@ -0,0 +1,206 @@
+/**
+ * Async run helpers for xpay n8n nodes
+ * Polls /run/status with backoff, rides out transient status errors,
+ * records how the run progressed and cancels runs
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+
+import { type ApiContext, type XPayRequestOptions, glyphRouterRequest, isRetryableError, sleep } from './api';
+import { DEFAULTS, ENDPOINTS } from './constants';
+import type { RunCancelResult, RunStatus, RunStatusResult } from './types';
+
+export interface ProgressEntry {
+	status: RunStatus;
+	step?: string;
+	progress?: number;
+	message?: string;
+	at: string;
+	elapsedMs: number;
+}
+
+export interface PollOutcome {
+	// aborted: the n8n execution was stopped while polling
+	status: 'completed' | 'failed' | 'cancelled' | 'timeout' | 'aborted';
+	// Last status returned by the API
+	statusResult?: RunStatusResult;
+	// One entry per change of status, step, progress or message
+	timeline: ProgressEntry[];
+	// Last partial output reported while the run was processing
+	partialOutput?: string;
+	polls: number;
+	// Status requests that failed with a transient error
+	pollErrors: number;
+	elapsedMs: number;
+}
+
+/**
+ * Poll a run until it completes, fails or the timeout passes.
+ *
+ * The interval starts at POLLING_INTERVAL_MS and grows by POLLING_BACKOFF_FACTOR
+ * (up to POLLING_MAX_INTERVAL_MS) while the run reports no progress; it drops
+ * back to the start interval when the step or progress changes. Transient
+ * status errors are skipped until POLLING_MAX_CONSECUTIVE_ERRORS in a row.
+ * Polling stops early when the abort signal fires.
+ */
+export async function pollRunStatus(
+	context: ApiContext,
+	runId: string,
+	timeoutMs: number,
+	requestOptions: XPayRequestOptions = {},
+	abortSignal?: AbortSignal,
+): Promise<PollOutcome> {
+	const startTime = Date.now();
+	const outcome: PollOutcome = {
+		status: 'timeout',
+		timeline: [],
+		polls: 0,
+		pollErrors: 0,
+		elapsedMs: 0,
+	};
+	let intervalMs = DEFAULTS.POLLING_INTERVAL_MS;
+	let consecutiveErrors = 0;
+
+	while (true) {
+		const remainingMs = timeoutMs - (Date.now() - startTime);
+		if (remainingMs <= 0) {
+			break;
+		}
+		await sleep(Math.min(intervalMs, remainingMs), abortSignal);
+		if (abortSignal?.aborted) {
+			outcome.status = 'aborted';
+			break;
+		}
+
+		let statusResult: RunStatusResult;
+		try {
+			outcome.polls++;
+			statusResult = await getRunStatus(context, runId, requestOptions);
+			consecutiveErrors = 0;
+		} catch (error) {
+			outcome.pollErrors++;
+			consecutiveErrors++;
+			if (!isRetryableError(error) || consecutiveErrors >= DEFAULTS.POLLING_MAX_CONSECUTIVE_ERRORS) {
+				throw error;
+			}
+			intervalMs = nextInterval(intervalMs);
+			continue;
+		}
+
+		outcome.statusResult = statusResult;
+		if (statusResult.partialOutput !== undefined && statusResult.partialOutput !== null) {
+			outcome.partialOutput = statusResult.partialOutput;
+		}
+
+		const changed = recordProgress(outcome.timeline, statusResult, startTime);
+
+		const finalStatus = getFinalStatus(statusResult);
+		if (finalStatus) {
+			outcome.status = finalStatus;
+			break;
+		}
+
+		intervalMs = changed ? DEFAULTS.POLLING_INTERVAL_MS : nextInterval(intervalMs);
+	}
+
+	outcome.elapsedMs = Date.now() - startTime;
+	return outcome;
+}
+
+/**
+ * Current status of a run
+ */
+export async function getRunStatus(
+	context: ApiContext,
+	runId: string,
+	requestOptions: XPayRequestOptions = {},
+): Promise<RunStatusResult> {
+	return glyphRouterRequest(
+		context,
+		'GET',
+		`${ENDPOINTS.RUN_STATUS}/${runId}`,
+		undefined,
+		undefined,
+		requestOptions,
+	) as Promise<RunStatusResult>;
+}
+
+/**
+ * How a run ended, or undefined while it is still queued or processing
+ */
+export function getFinalStatus(statusResult: RunStatusResult): 'completed' | 'failed' | 'cancelled' | undefined {
+	if (statusResult.status === 'success' || statusResult.status === 'completed') {
+		return 'completed';
+	}
+	if (statusResult.status === 'failed' || statusResult.status === 'error') {
+		return 'failed';
+	}
+	if (statusResult.status === 'cancelled') {
+		return 'cancelled';
+	}
+	return undefined;
+}
+
+/**
+ * Cancel a run. Runs that already finished are reported with cancelled: false.
+ */
+export async function cancelRun(
+	context: ApiContext,
+	runId: string,
+	requestOptions: XPayRequestOptions = {},
+): Promise<RunCancelResult> {
+	return glyphRouterRequest(
+		context,
+		'POST',
+		`${ENDPOINTS.RUN_CANCEL}/${runId}`,
+		undefined,
+		undefined,
+		{ ...requestOptions, idempotent: true },
+	) as Promise<RunCancelResult>;
+}
+
+/**
+ * Node output for a cancellation, including whether the run was still charged
+ * (costIncurred is null when the API did not report a cost)
+ */
+export function getCancellationOutput(cancelResult: RunCancelResult): IDataObject {
+	return {
+		cancelled: cancelResult.cancelled,
+		status: cancelResult.status,
+		cost: cancelResult.cost ?? null,
+		costIncurred: typeof cancelResult.cost === 'number' ? cancelResult.cost > 0 : null,
+		message: cancelResult.message,
+	};
+}
+
+function nextInterval(intervalMs: number): number {
+	return Math.min(Math.round(intervalMs * DEFAULTS.POLLING_BACKOFF_FACTOR), DEFAULTS.POLLING_MAX_INTERVAL_MS);
+}
+
+/**
+ * Append a timeline entry when the status, step, progress or message changed
+ */
+function recordProgress(timeline: ProgressEntry[], statusResult: RunStatusResult, startTime: number): boolean {
+	const last = timeline[timeline.length - 1];
+	if (
+		last &&
+		last.status === statusResult.status &&
+		last.step === statusResult.step &&
+		last.progress === statusResult.progress &&
+		last.message === statusResult.message
+	) {
+		return false;
+	}
+
+	const now = Date.now();
+	const entry: ProgressEntry = {
+		status: statusResult.status,
+		at: new Date(now).toISOString(),
+		elapsedMs: now - startTime,
+	};
+	if (statusResult.step !== undefined) entry.step = statusResult.step;
+	if (statusResult.progress !== undefined) entry.progress = statusResult.progress;
+	if (statusResult.message !== undefined) entry.message = statusResult.message;
+	timeline.push(entry);
+	return true;
+}
@@ -0,0 +1,211 @@
+/**
+ * Service recommendation helpers for xpay n8n nodes
+ * Ranks marketplace services by their stats (success rate, latency, ratings),
+ * price and verification, after dropping the ones that break hard constraints
+ */
+
+import type { Glyph } from './types';
+
+export type RecommendCriterion = 'successRate' | 'latency' | 'rating' | 'price' | 'verified';
+
+export type RecommendWeights = Record<RecommendCriterion, number>;
+
+export interface RecommendConstraints {
+	// USDC per run; services without a fixed price cannot be checked and are dropped
+	maxPrice?: number;
+	// 0-1
+	minSuccessRate?: number;
+	// The service must have every one of these tags
+	requiredTags?: string[];
+}
+
+export interface ServiceRecommendation {
+	rank: number;
+	serviceSlug: string;
+	serviceId: string;
+	name: string;
+	// Weighted mean of the criterion scores, 0-1
+	score: number;
+	// Each criterion scored 0-1; null when the service has no value for it
+	scores: Record<RecommendCriterion, number | null>;
+	// How each criterion contributed, e.g. "success rate 98% → 0.98 × 3"
+	explanation: string[];
+}
+
+export interface ExcludedService {
+	serviceSlug: string;
+	reasons: string[];
+}
+
+export const DEFAULT_RECOMMEND_WEIGHTS: RecommendWeights = {
+	successRate: 3,
+	latency: 2,
+	rating: 2,
+	price: 2,
+	verified: 1,
+};
+
+// Ratings are averaged with this many middling votes, so a 5.0 from two
+// ratings does not beat a 4.7 from hundreds
+const RATING_PRIOR_VOTES = 20;
+const RATING_PRIOR = 3;
+// Score of a criterion the service has no value for (e.g. the price of a per-token service)
+const UNKNOWN_SCORE = 0.5;
+
+const CRITERION_LABELS: Record<RecommendCriterion, string> = {
+	successRate: 'success rate',
+	latency: 'latency',
+	rating: 'rating',
+	price: 'price',
+	verified: 'verified',
+};
+
+const round = (value: number, decimals = 3) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Weights from the node's Weights option; unset criteria keep their default
+ */
+export function getRecommendWeights(weights: Partial<RecommendWeights> = {}): RecommendWeights {
+	const merged = { ...DEFAULT_RECOMMEND_WEIGHTS };
+	for (const criterion of Object.keys(merged) as RecommendCriterion[]) {
+		if (typeof weights[criterion] === 'number') {
+			merged[criterion] = weights[criterion]!;
+		}
+	}
+	return merged;
+}
+
+/**
+ * Price of one run in USDC: the amount of per-run services, 0 for free ones,
+ * undefined when it depends on usage (per-token, per-second) or is not listed
+ */
+export function getRunPrice(glyph: Pick<Glyph, 'pricing'>): number | undefined {
+	if (glyph.pricing?.model === 'free') {
+		return 0;
+	}
+	return glyph.pricing?.model === 'per-run' ? glyph.pricing.amount : undefined;
+}
+
+/**
+ * Why a service breaks the hard constraints (empty when it meets them)
+ */
+export function getConstraintViolations(glyph: Glyph, constraints: RecommendConstraints): string[] {
+	const reasons: string[] = [];
+	if (glyph.status && glyph.status !== 'published') {
+		reasons.push(`status is ${glyph.status}`);
+	}
+	if (constraints.maxPrice !== undefined) {
+		const price = getRunPrice(glyph);
+		if (price === undefined) {
+			reasons.push(`price is not fixed (${glyph.pricing?.model ?? 'not listed'})`);
+		} else if (price > constraints.maxPrice) {
+			reasons.push(`price ${price} USDC is above the max price of ${constraints.maxPrice} USDC`);
+		}
+	}
+	if (constraints.minSuccessRate !== undefined) {
+		const successRate = glyph.stats?.successRate;
+		if (typeof successRate !== 'number') {
+			reasons.push('success rate is unknown');
+		} else if (successRate < constraints.minSuccessRate) {
+			reasons.push(`success rate ${formatPercent(successRate)} is below the minimum of ${formatPercent(constraints.minSuccessRate)}`);
+		}
+	}
+	const tags = (glyph.tags ?? []).map((tag) => tag.toLowerCase());
+	const missingTags = (constraints.requiredTags ?? []).filter((tag) => !tags.includes(tag.toLowerCase()));
+	if (missingTags.length) {
+		reasons.push(`missing tag${missingTags.length > 1 ? 's' : ''} ${missingTags.join(', ')}`);
+	}
+	return reasons;
+}
+
+function formatPercent(rate: number): string {
+	return `${round(rate * 100, 1)}%`;
+}
+
+/**
+ * Scale to 0-1 within the candidates' range; the lowest value scores 1 when
+ * lower is better. Every candidate scores 1 when they all have the same value.
+ */
+function scaleInRange(value: number, values: number[], lowerIsBetter: boolean): number {
+	const min = Math.min(...values);
+	const max = Math.max(...values);
+	if (max === min) {
+		return 1;
+	}
+	return lowerIsBetter ? (max - value) / (max - min) : (value - min) / (max - min);
+}
+
+/**
+ * Rank services by the weighted mean of their criterion scores. Services that
+ * break a constraint are left out and listed with the reasons. Ties keep the
+ * catalog order.
+ */
+export function recommendServices(
+	glyphs: Glyph[],
+	weights: RecommendWeights,
+	constraints: RecommendConstraints = {},
+): { recommendations: ServiceRecommendation[]; excluded: ExcludedService[] } {
+	const excluded: ExcludedService[] = [];
+	const candidates = glyphs.filter((glyph) => {
+		const reasons = getConstraintViolations(glyph, constraints);
+		if (reasons.length) {
+			excluded.push({ serviceSlug: glyph.slug, reasons });
+		}
+		return !reasons.length;
+	});
+
+	const known = (values: Array<number | undefined>) => values.filter((value): value is number => typeof value === 'number');
+	const latencies = known(candidates.map((glyph) => glyph.stats?.averageLatency));
+	const prices = known(candidates.map(getRunPrice));
+	const totalWeight = Object.values(weights).reduce((total, weight) => total + weight, 0);
+
+	const recommendations = candidates.map((glyph) => {
+		const stats = glyph.stats ?? ({} as Partial<Glyph['stats']>);
+		const price = getRunPrice(glyph);
+		const ratings = stats.totalRatings ?? 0;
+		const adjustedRating = ratings > 0
+			? (stats.averageRating! * ratings + RATING_PRIOR * RATING_PRIOR_VOTES) / (ratings + RATING_PRIOR_VOTES)
+			: undefined;
+
+		const scores: Record<RecommendCriterion, number | null> = {
+			successRate: typeof stats.successRate === 'number' ? round(stats.successRate) : null,
+			latency: typeof stats.averageLatency === 'number' ? round(scaleInRange(stats.averageLatency, latencies, true)) : null,
+			rating: adjustedRating !== undefined ? round(adjustedRating / 5) : null,
+			price: price !== undefined ? round(scaleInRange(price, prices, true)) : null,
+			verified: glyph.verified ? 1 : 0,
+		};
+		const values: Record<RecommendCriterion, string> = {
+			successRate: typeof stats.successRate === 'number' ? formatPercent(stats.successRate) : 'unknown',
+			latency: typeof stats.averageLatency === 'number' ? `${round(stats.averageLatency / 1000, 1)} s` : 'unknown',
+			rating: ratings > 0 ? `${stats.averageRating} from ${ratings} ratings` : 'no ratings',
+			price: price !== undefined ? `${price} USDC per run` : glyph.pricing ? `${glyph.pricing.model} pricing` : 'not listed',
+			verified: glyph.verified ? 'yes' : 'no',
+		};
+
+		let weighted = 0;
+		const explanation: string[] = [];
+		for (const criterion of Object.keys(weights) as RecommendCriterion[]) {
+			if (!weights[criterion]) continue;
+			const score = scores[criterion] ?? UNKNOWN_SCORE;
+			weighted += score * weights[criterion];
+			explanation.push(
+				`${CRITERION_LABELS[criterion]} ${values[criterion]} → ${score}${scores[criterion] === null ? ' (unknown)' : ''} × ${weights[criterion]}`,
+			);
+		}
+
+		return {
+			rank: 0,
+			serviceSlug: glyph.slug,
+			serviceId: glyph.id,
+			name: glyph.name,
+			score: totalWeight ? round(weighted / totalWeight) : 0,
+			scores,
+			explanation,
+		};
+	});
+
+	recommendations.sort((a, b) => b.score - a.score);
+	recommendations.forEach((recommendation, index) => (recommendation.rank = index + 1));
+	return { recommendations, excluded };
+}
+
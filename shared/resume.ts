@@ -0,0 +1,412 @@
+/**
+ * Async run completion for xpay n8n nodes
+ * Turns the final status of an async run into the node's result, and lets an
+ * execution wait for the runs' completion callbacks on the n8n resume webhook
+ * instead of polling
+ */
+
+import * as crypto from 'crypto';
+import type {
+	IBinaryKeyData,
+	IDataObject,
+	IExecuteFunctions,
+	INode,
+	INodeExecutionData,
+	IWebhookFunctions,
+} from 'n8n-workflow';
+
+import type { XPayRequestOptions } from './api';
+import { DEFAULTS } from './constants';
+import { getCostReport, type RunCostEstimate } from './cost';
+import { XPayOperationError, getErrorOutput, toXPayError } from './errors';
+import { type ModelAttempt, getAttemptsCost } from './fallback';
+import { type OutputOptions, processRunOutput } from './output';
+import {
+	type PollOutcome,
+	cancelRun,
+	getCancellationOutput,
+	getFinalStatus,
+	getRunStatus,
+} from './polling';
+import { type ResultCacheOptions, cacheRunResult, createResultCacheStore } from './results';
+import type { GlyphSchema } from './types';
+
+// poll: the execution keeps running and polls; callback: it waits for the run to report back
+export type CompletionMode = 'poll' | 'callback';
+
+/**
+ * A started async run, with what is needed to turn its final status into the
+ * node's result (also after the execution resumed)
+ */
+export interface AsyncRun {
+	item: number;
+	// Empty until the run is started
+	runId: string;
+	serviceSlug: string;
+	requestedModelId: string;
+	// Model that served the run
+	modelId: string;
+	idempotencyKey: string;
+	replayed: boolean;
+	// Service version, schema hash and warnings
+	serviceFields: IDataObject;
+	outputs?: GlyphSchema['outputs'];
+	outputOptions: OutputOptions;
+	// Seconds
+	pollingTimeout: number;
+	cancelOnTimeout?: boolean;
+	cancelOnStop?: boolean;
+	// Start attempts, when fallback models are set
+	attempts?: ModelAttempt[];
+	costEstimate?: RunCostEstimate;
+	maxCostPerRun?: number;
+	resultCache?: { options: ResultCacheOptions; key: string; error?: string };
+	startedAt: number;
+}
+
+/**
+ * What the resume webhook needs to build the node's output. It is kept in the
+ * node's workflow static data, which n8n saves with the waiting execution;
+ * the callback URL only carries its ID.
+ */
+export interface CallbackState {
+	// Random ID of the wait, in the callback URL
+	id: string;
+	// Resume URL the runs report to, also called by the polling fallback
+	callbackUrl: string;
+	runs: AsyncRun[];
+	// Items that were done before the wait (cache hits, errors, over-budget items)
+	ready: Array<{ output: number; item: INodeExecutionData }>;
+	// Number of node outputs
+	outputs: number;
+	// Until when the polling fallback keeps checking the runs (ms timestamp);
+	// runs still going after that are reported as timed out
+	pollUntil: number;
+	// When the wait ends (ms timestamp); older states are dropped
+	expiresAt: number;
+}
+
+// Body of the request that resumes the execution. Run callbacks are only a
+// wake-up call, their body is not used; the polling fallback sends { fallback: true }.
+export type CallbackBody = { fallback?: boolean };
+
+const STATE_PARAMETER = 'xpayWait';
+const STATIC_DATA_KEY = 'xpayCallbackWaits';
+
+// Polling fallbacks of the waits started by this process, and the delay of their last check
+const fallbackTimers = new Map<string, NodeJS.Timeout>();
+const fallbackDelays = new Map<string, number>();
+
+/**
+ * Result of a finished (or timed out) run: output, error, progress and polling
+ * details, cancellation, fallback attempts, cost report and result cache
+ */
+export async function getAsyncRunResult(
+	context: IExecuteFunctions | IWebhookFunctions,
+	run: AsyncRun,
+	poll: PollOutcome,
+	requestOptions: XPayRequestOptions = {},
+): Promise<{ json: IDataObject; binary?: IBinaryKeyData }> {
+	const statusResult = poll.statusResult;
+	const result: IDataObject = {
+		runId: run.runId,
+		status: poll.status,
+		serviceSlug: run.serviceSlug,
+		modelId: run.modelId,
+		idempotencyKey: run.idempotencyKey,
+		replayed: run.replayed,
+		...run.serviceFields,
+	};
+	let binary: IBinaryKeyData | undefined;
+	let completedOutput: unknown;
+
+	if (poll.status === 'completed') {
+		completedOutput = statusResult!.output;
+		if (statusResult!.glyphVersion) {
+			result.serviceVersion = statusResult!.glyphVersion;
+		}
+		result.output = statusResult!.output;
+		result.cost = statusResult!.cost;
+		result.duration = statusResult!.duration;
+
+		const processed = await processRunOutput(
+			context,
+			result.output,
+			run.outputs,
+			run.outputOptions,
+			`${run.serviceSlug}-${run.runId}`,
+		);
+		Object.assign(result, processed.fields);
+		binary = processed.binary;
+	} else if (poll.status === 'failed' || poll.status === 'cancelled') {
+		result.error = statusResult!.error;
+	} else if (poll.status === 'aborted') {
+		result.error = 'The n8n execution was stopped before the run completed';
+	} else {
+		result.error = `Execution did not complete within ${run.pollingTimeout} seconds`;
+	}
+	result.progressTimeline = poll.timeline as unknown as IDataObject[];
+	if (poll.partialOutput !== undefined) {
+		result.partialOutput = poll.partialOutput;
+	}
+	result.polling = {
+		polls: poll.polls,
+		pollErrors: poll.pollErrors,
+		elapsedMs: poll.elapsedMs,
+	};
+
+	if ((poll.status === 'timeout' && run.cancelOnTimeout) || (poll.status === 'aborted' && run.cancelOnStop)) {
+		try {
+			const cancellation = getCancellationOutput(await cancelRun(context, run.runId, requestOptions));
+			result.cancellation = cancellation;
+			result.cost = cancellation.cost;
+		} catch (error) {
+			result.cancellation = {
+				cancelled: false,
+				...getErrorOutput(toXPayError(context.getNode(), error, 'run/cancelRun', run.item)),
+			};
+		}
+	}
+
+	await completeRunResult(context, run, result, completedOutput);
+	return { json: result, binary };
+}
+
+/**
+ * Add the fallback attempts, cost report and result cache fields to a run's
+ * result, and cache the output of a completed run
+ */
+export async function completeRunResult(
+	context: IExecuteFunctions | IWebhookFunctions,
+	run: AsyncRun,
+	result: IDataObject,
+	completedOutput?: unknown,
+): Promise<void> {
+	if (run.attempts) {
+		// The served attempt is charged what the run reports once it finished
+		run.attempts[run.attempts.length - 1].cost = Number(result.cost) || 0;
+		result.requestedModelId = run.requestedModelId;
+		result.attempts = run.attempts as unknown as IDataObject[];
+		result.totalCost = getAttemptsCost(run.attempts);
+	}
+	if (run.costEstimate) {
+		result.costReport = getCostReport(run.costEstimate, run.maxCostPerRun!, result.cost as number | undefined);
+	}
+	if (run.resultCache) {
+		const { options, key, error } = run.resultCache;
+		await cacheRunResult({ store: createResultCacheStore(context, options), key, ttlMs: options.ttlMs, error }, result, {
+			runId: run.runId,
+			modelId: run.modelId,
+			output: completedOutput,
+			cost: result.cost as number | undefined,
+			duration: result.duration as number | undefined,
+		});
+	}
+}
+
+/**
+ * URL that resumes the waiting execution ($execution.resumeUrl)
+ */
+export function getResumeUrl(context: IExecuteFunctions): string {
+	const resumeUrl = context.evaluateExpression('{{ $execution?.resumeUrl }}', 0);
+	if (typeof resumeUrl !== 'string' || !resumeUrl) {
+		throw new XPayOperationError(context.getNode(), 'This execution has no resume URL to receive the run callback', {
+			remediation: 'Set Wait Mode to Poll Until Done.',
+		});
+	}
+	return resumeUrl;
+}
+
+export function createCallbackStateId(): string {
+	return crypto.randomUUID();
+}
+
+/**
+ * Resume URL with the ID of the wait in its query
+ */
+export function getCallbackUrl(resumeUrl: string, id: string): string {
+	const url = new URL(resumeUrl);
+	url.searchParams.set(STATE_PARAMETER, id);
+	return url.toString();
+}
+
+function getCallbackStates(staticData: IDataObject): Record<string, CallbackState> {
+	staticData[STATIC_DATA_KEY] ??= {};
+	return staticData[STATIC_DATA_KEY] as unknown as Record<string, CallbackState>;
+}
+
+/**
+ * Keep the callback state until the execution resumes
+ */
+export function saveCallbackState(context: IExecuteFunctions, state: CallbackState): void {
+	const states = getCallbackStates(context.getWorkflowStaticData('node'));
+	for (const [id, saved] of Object.entries(states)) {
+		if (saved.expiresAt <= Date.now()) {
+			delete states[id];
+		}
+	}
+	states[state.id] = state;
+}
+
+/**
+ * Callback state of the wait named in the query of the resume request
+ */
+export function getCallbackState(context: IWebhookFunctions): CallbackState {
+	const id = (context.getQueryData() as IDataObject)[STATE_PARAMETER];
+	const states = getCallbackStates(context.getWorkflowStaticData('node'));
+	const state = typeof id === 'string' && Object.prototype.hasOwnProperty.call(states, id) ? states[id] : undefined;
+	if (!state) {
+		throw new XPayOperationError(context.getNode(), 'The resume request does not match a waiting run', {
+			remediation: 'Only call the resume URL that the node registered as the run callback.',
+		});
+	}
+	return state;
+}
+
+/**
+ * Call the resume URL with { fallback: true } after `delayMs`, so the runs are
+ * checked when not all of them reported back. The request fails harmlessly
+ * when the execution already resumed. The timer lives in this n8n process:
+ * when the process restarts first, the wait ends at its wait time and the runs
+ * are reported as timed out (see getCallbackTimeoutOutput).
+ */
+export function scheduleCallbackFallback(
+	context: IExecuteFunctions | IWebhookFunctions,
+	id: string,
+	callbackUrl: string,
+	delayMs: number,
+): void {
+	const timer = setTimeout(() => {
+		fallbackTimers.delete(id);
+		context.helpers
+			.httpRequest({ method: 'POST', url: callbackUrl, body: { fallback: true }, json: true })
+			.catch(() => undefined);
+	}, delayMs);
+	timer.unref?.();
+	fallbackTimers.set(id, timer);
+}
+
+function clearCallbackFallback(id: string): void {
+	clearTimeout(fallbackTimers.get(id));
+	fallbackTimers.delete(id);
+	fallbackDelays.delete(id);
+}
+
+/**
+ * Check the runs again later: the delay starts at POLLING_INTERVAL_MS and grows
+ * by POLLING_BACKOFF_FACTOR up to POLLING_MAX_INTERVAL_MS, ending at pollUntil
+ */
+function rescheduleCallbackFallback(context: IWebhookFunctions, state: CallbackState): void {
+	const previousMs = fallbackDelays.get(state.id);
+	const delayMs =
+		previousMs === undefined
+			? DEFAULTS.POLLING_INTERVAL_MS
+			: Math.min(previousMs * DEFAULTS.POLLING_BACKOFF_FACTOR, DEFAULTS.POLLING_MAX_INTERVAL_MS);
+	fallbackDelays.set(state.id, delayMs);
+	scheduleCallbackFallback(context, state.id, state.callbackUrl, Math.min(delayMs, Math.max(0, state.pollUntil - Date.now())));
+}
+
+// Same rule as continueOnFail() in execute, which webhook functions do not have
+function continuesOnFail(node: INode): boolean {
+	return node.onError === undefined
+		? node.continueOnFail === true
+		: ['continueRegularOutput', 'continueErrorOutput'].includes(node.onError);
+}
+
+/**
+ * Node output once every run is done, or undefined while some are still
+ * running and the execution should keep waiting. The statuses are fetched
+ * from the router rather than taken from the callback, once per request. When
+ * the polling fallback finds runs still going, it checks again later (see
+ * rescheduleCallbackFallback); after pollUntil those runs are reported as
+ * timed out.
+ */
+export async function resumeAsyncRuns(
+	context: IWebhookFunctions,
+	state: CallbackState,
+	body: CallbackBody,
+	requestOptions: XPayRequestOptions = {},
+): Promise<INodeExecutionData[][] | undefined> {
+	const statuses = await Promise.all(
+		state.runs.map((run) => getRunStatus(context, run.runId, requestOptions).catch(() => undefined)),
+	);
+	if (statuses.some((status) => !status || !getFinalStatus(status))) {
+		if (!body.fallback) {
+			return undefined;
+		}
+		if (Date.now() < state.pollUntil) {
+			rescheduleCallbackFallback(context, state);
+			return undefined;
+		}
+	}
+	clearCallbackFallback(state.id);
+	delete getCallbackStates(context.getWorkflowStaticData('node'))[state.id];
+	const data = [...state.ready];
+
+	await Promise.all(
+		state.runs.map(async (run, index) => {
+			try {
+				const statusResult = statuses[index];
+				const poll: PollOutcome = {
+					status: (statusResult && getFinalStatus(statusResult)) || 'timeout',
+					statusResult,
+					timeline: [],
+					partialOutput: statusResult?.partialOutput,
+					polls: 1,
+					pollErrors: statusResult ? 0 : 1,
+					elapsedMs: Date.now() - run.startedAt,
+				};
+				const { json, binary } = await getAsyncRunResult(context, run, poll, requestOptions);
+				json.resumedBy = body.fallback ? 'polling' : 'callback';
+				data.push({ output: 0, item: { json, ...(binary ? { binary } : {}), pairedItem: { item: run.item } } });
+			} catch (error) {
+				const xpayError = toXPayError(context.getNode(), error, 'run/runAsync', run.item);
+				if (!continuesOnFail(context.getNode())) {
+					throw xpayError;
+				}
+				data.push({ output: 0, item: { json: getErrorOutput(xpayError), pairedItem: { item: run.item } } });
+			}
+		}),
+	);
+	return toNodeOutput(data, state.outputs);
+}
+
+/**
+ * Node output when the wait ends without the execution being resumed (n8n
+ * then passes on what the node returned before waiting): every run is
+ * reported as timed out, with its run ID to look it up later
+ */
+export function getCallbackTimeoutOutput(state: CallbackState): INodeExecutionData[][] {
+	const data = [
+		...state.ready,
+		...state.runs.map((run) => ({
+			output: 0,
+			item: {
+				json: {
+					runId: run.runId,
+					status: 'timeout',
+					serviceSlug: run.serviceSlug,
+					modelId: run.modelId,
+					idempotencyKey: run.idempotencyKey,
+					replayed: run.replayed,
+					...run.serviceFields,
+					error: 'No run callback arrived and the polling fallback did not resume the execution',
+				},
+				pairedItem: { item: run.item },
+			},
+		})),
+	];
+	return toNodeOutput(data, state.outputs);
+}
+
+// Items back in input order, as if the runs had been polled, split by node output
+function toNodeOutput(
+	data: Array<{ output: number; item: INodeExecutionData }>,
+	outputs: number,
+): INodeExecutionData[][] {
+	const getItem = ({ item }: { item: INodeExecutionData }) => (item.pairedItem as { item: number }).item;
+	data.sort((a, b) => getItem(a) - getItem(b));
+	return Array.from({ length: outputs }, (_, output) =>
+		data.filter((entry) => entry.output === output).map((entry) => entry.item),
+	);
+}
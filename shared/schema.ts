@@ -0,0 +1,259 @@
+/**
+ * Service schema helpers for xpay n8n nodes
+ * Maps GlyphSchema inputs to n8n resource mapper fields and back to run inputs,
+ * and validates run inputs against the schema
+ */
+
+import type {
+	FieldType,
+	IDataObject,
+	ResourceMapperField,
+	ResourceMapperFields,
+	ResourceMapperValue,
+} from 'n8n-workflow';
+
+import { type ApiContext, type XPayRequestOptions, hashValue } from './api';
+import { catalogRequest } from './cache';
+import { ENDPOINTS } from './constants';
+import type { InputFieldError } from './errors';
+import type { Glyph, GlyphSchema, GlyphSchemaField } from './types';
+
+const FIELD_TYPES: Record<GlyphSchemaField['type'], FieldType> = {
+	text: 'string',
+	textarea: 'string',
+	number: 'number',
+	file: 'string',
+	select: 'options',
+	checkbox: 'boolean',
+	url: 'url',
+};
+
+/**
+ * Resource mapper field for a schema input. n8n has no description slot on
+ * mapper fields, so the description is shown next to the label.
+ */
+export function toResourceMapperField(field: GlyphSchemaField): ResourceMapperField {
+	const mapperField: ResourceMapperField = {
+		id: field.name,
+		displayName: field.description ? `${field.label || field.name} (${field.description})` : field.label || field.name,
+		required: !!field.required,
+		defaultMatch: false,
+		canBeUsedToMatch: false,
+		display: true,
+		type: FIELD_TYPES[field.type] ?? 'string',
+	};
+	if (field.type === 'select' && field.options?.length) {
+		mapperField.options = field.options.map((option) => ({ name: option, value: option }));
+	}
+	return mapperField;
+}
+
+export function getResourceMapperFields(inputs: GlyphSchemaField[] = []): ResourceMapperFields {
+	return {
+		fields: inputs.map(toResourceMapperField),
+		emptyFieldsNotice: inputs.length ? undefined : 'This service does not declare any inputs',
+	};
+}
+
+/**
+ * Run inputs from a resource mapper value.
+ *
+ * In "Map Automatically" mode the inputs are taken from the incoming item's
+ * fields with matching names. Empty values are dropped, and numbers and
+ * booleans given as strings (e.g. from expressions) are converted.
+ */
+export function getResourceMapperInputs(mapper: ResourceMapperValue, itemJson: IDataObject = {}): Record<string, any> {
+	const schema = mapper.schema ?? [];
+	const source: IDataObject =
+		mapper.mappingMode === 'autoMapInputData'
+			? Object.fromEntries(schema.filter((field) => field.id in itemJson).map((field) => [field.id, itemJson[field.id]]))
+			: (mapper.value ?? {});
+
+	const inputs: Record<string, any> = {};
+	for (const [key, value] of Object.entries(source)) {
+		if (value === null || value === undefined || value === '') {
+			continue;
+		}
+		const field = schema.find((entry) => entry.id === key);
+		if (field?.removed) {
+			continue;
+		}
+		inputs[key] = convertValue(value, field?.type);
+	}
+	return inputs;
+}
+
+function convertValue(value: unknown, type: FieldType | undefined): unknown {
+	if (typeof value !== 'string') {
+		return value;
+	}
+	if (type === 'number' && value.trim() !== '' && !isNaN(Number(value))) {
+		return Number(value);
+	}
+	if (type === 'boolean' && ['true', 'false'].includes(value.toLowerCase())) {
+		return value.toLowerCase() === 'true';
+	}
+	return value;
+}
+
+/**
+ * Check run inputs against the service schema.
+ * Returns one entry per failed rule; inputs without a schema field are not checked.
+ */
+export function validateInputs(inputs: Record<string, any>, fields: GlyphSchemaField[] = []): InputFieldError[] {
+	const errors: InputFieldError[] = [];
+
+	for (const field of fields) {
+		const value = inputs[field.name];
+		const label = field.label || field.name;
+		const fail = (rule: string, message: string) => errors.push({ field: field.name, label, rule, message });
+
+		if (value === undefined || value === null || value === '') {
+			if (field.required) fail('required', `${field.name} is required`);
+			continue;
+		}
+
+		switch (field.type) {
+			case 'number': {
+				const number = typeof value === 'number' ? value : Number(value);
+				if (typeof value === 'boolean' || String(value).trim() === '' || isNaN(number)) {
+					fail('type', `${field.name} must be a number`);
+					break;
+				}
+				if (field.min !== undefined && number < field.min) fail('min', `${field.name} must be at least ${field.min}`);
+				if (field.max !== undefined && number > field.max) fail('max', `${field.name} must be at most ${field.max}`);
+				break;
+			}
+			case 'checkbox':
+				if (typeof value !== 'boolean' && !['true', 'false'].includes(String(value).toLowerCase())) {
+					fail('type', `${field.name} must be true or false`);
+				}
+				break;
+			case 'select':
+				if (field.options?.length && !field.options.includes(String(value))) {
+					fail('option', `${field.name} must be one of: ${field.options.join(', ')}`);
+				}
+				break;
+			case 'url':
+				if (!isHttpUrl(value)) fail('url', `${field.name} must be a valid http(s) URL`);
+				break;
+			case 'file':
+				if (field.accept && !isAcceptedFile(value, field.accept)) {
+					fail('accept', `${field.name} must be a file of type ${field.accept}`);
+				}
+				break;
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Short fingerprint of a service schema (inputs and outputs), to notice changes
+ */
+export function getSchemaHash(schema?: Partial<GlyphSchema>): string {
+	return hashValue({ inputs: schema?.inputs ?? [], outputs: schema?.outputs ?? null }).slice(0, 16);
+}
+
+/**
+ * Differences between the input fields saved in a resource mapper value (when
+ * the workflow was edited) and the service's current inputs, one sentence each
+ */
+export function getSchemaChanges(savedFields: ResourceMapperField[], inputs: GlyphSchemaField[] = []): string[] {
+	const changes: string[] = [];
+	const current = new Map(inputs.map((field) => [field.name, toResourceMapperField(field)]));
+
+	for (const saved of savedFields) {
+		const field = current.get(saved.id);
+		if (!field) {
+			changes.push(`input ${saved.id} was removed`);
+			continue;
+		}
+		if (saved.type && field.type && saved.type !== field.type) {
+			changes.push(`input ${saved.id} changed type from ${saved.type} to ${field.type}`);
+		}
+		if (!saved.required && field.required) {
+			changes.push(`input ${saved.id} is now required`);
+		}
+	}
+	const savedIds = new Set(savedFields.map((field) => field.id));
+	for (const field of current.values()) {
+		if (!savedIds.has(field.id)) {
+			changes.push(`${field.required ? 'required ' : ''}input ${field.id} was added`);
+		}
+	}
+	return changes;
+}
+
+/**
+ * Fetch a service from the catalog (cached), by default its current version
+ */
+export async function getService(
+	context: ApiContext,
+	serviceSlug: string,
+	requestOptions: XPayRequestOptions = {},
+	version?: string,
+): Promise<Glyph> {
+	const response = await catalogRequest(
+		context,
+		`${ENDPOINTS.GLYPH}/${serviceSlug}`,
+		version ? { version } : undefined,
+		requestOptions,
+	);
+	return response.glyph || response;
+}
+
+function isHttpUrl(value: unknown): boolean {
+	try {
+		const url = new URL(String(value));
+		return url.protocol === 'http:' || url.protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Match a file reference against an `accept` list (extensions and MIME types, e.g. ".pdf,image/*").
+ * The file can be a name, a URL, a data URI or an object with fileName/mimeType.
+ * References whose type cannot be determined are accepted.
+ */
+function isAcceptedFile(value: unknown, accept: string): boolean {
+	let fileName: string | undefined;
+	let mimeType: string | undefined;
+
+	if (value && typeof value === 'object') {
+		fileName = (value as IDataObject).fileName as string | undefined;
+		mimeType = (value as IDataObject).mimeType as string | undefined;
+	} else {
+		const text = String(value);
+		const dataUri = /^data:([^;,]+)[;,]/.exec(text);
+		if (dataUri) {
+			mimeType = dataUri[1];
+		} else {
+			try {
+				fileName = new URL(text).pathname;
+			} catch {
+				fileName = text;
+			}
+		}
+	}
+
+	if (!fileName && !mimeType) {
+		return true;
+	}
+	const extension = fileName && /\.[^./\\]+$/.exec(fileName)?.[0].toLowerCase();
+	if (!extension && !mimeType) {
+		return true;
+	}
+
+	return accept
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry)
+		.some((entry) => {
+			if (entry.startsWith('.')) return extension === entry;
+			if (!mimeType) return false;
+			if (entry.endsWith('/*')) return mimeType.toLowerCase().startsWith(entry.slice(0, -1));
+			return mimeType.toLowerCase() === entry;
+		});
+}
@@ -0,0 +1,310 @@
+/**
+ * Service picker helpers for xpay n8n nodes
+ * Backs the service resource locator: marketplace search, slugs and marketplace links
+ */
+
+import type {
+	IDataObject,
+	INode,
+	INodeListSearchItems,
+	INodeListSearchResult,
+	INodeParameterResourceLocator,
+	ResourceMapperField,
+} from 'n8n-workflow';
+
+import type { ApiContext, XPayRequestOptions } from './api';
+import { catalogRequest } from './cache';
+import { DEFAULTS, ENDPOINTS, MARKETPLACE_URL } from './constants';
+import { XPayOperationError, toXPayError } from './errors';
+import { getSchemaChanges, getSchemaHash, getService } from './schema';
+import type { Glyph, GlyphStatus } from './types';
+
+// Slug or ID of a service
+export const SERVICE_SLUG_REGEX = '[a-zA-Z0-9][\\w.-]*';
+// Marketplace link: any host, with the slug after /marketplace/ or /glyph/
+export const SERVICE_URL_REGEX = `^https?://[^/\\s]+(?:/[^\\s?#]*)?/(?:marketplace|glyphs?)/(${SERVICE_SLUG_REGEX})/?(?:[?#]\\S*)?$`;
+
+// Deprecated services are still listed and can be run
+const RUNNABLE_STATUSES: GlyphStatus[] = ['published', 'deprecated'];
+
+export interface ServiceWarning {
+	code: 'SERVICE_DEPRECATED' | 'SERVICE_UNAVAILABLE' | 'SCHEMA_CHANGED';
+	message: string;
+}
+
+export interface ServiceLifecycleChecks {
+	// Input fields saved with the workflow (resource mapper schema)
+	savedFields?: ResourceMapperField[];
+	// Schema hash the workflow expects, from an earlier run's schemaHash
+	expectedSchemaHash?: string;
+	// Current version of the service, when the checked glyph is a pinned version
+	current?: Glyph;
+	// warn: list the warnings in the output; error: stop with an error
+	action?: 'warn' | 'error';
+}
+
+export function getServiceUrl(serviceSlug: string): string {
+	return `${MARKETPLACE_URL}/${encodeURIComponent(serviceSlug)}`;
+}
+
+/**
+ * Slug from a marketplace link, or undefined when the link does not point to a service
+ */
+export function parseServiceUrl(url: string): string | undefined {
+	return new RegExp(SERVICE_URL_REGEX).exec(url.trim())?.[1];
+}
+
+/**
+ * Slug from a service locator value. Plain strings (workflows saved before the
+ * field became a resource locator, or expressions) can be a slug or a marketplace
+ * link. Returns undefined for an empty or malformed value.
+ */
+export function parseServiceLocator(value: unknown): string | undefined {
+	const locator = (
+		value && typeof value === 'object' ? value : { mode: undefined, value }
+	) as Partial<INodeParameterResourceLocator>;
+	const text = String(locator.value ?? '').trim();
+	if (!text) {
+		return undefined;
+	}
+	if (locator.mode === 'url' || /^https?:\/\//i.test(text)) {
+		return parseServiceUrl(text);
+	}
+	return new RegExp(`^${SERVICE_SLUG_REGEX}$`).test(text) ? text : undefined;
+}
+
+/**
+ * Slug of the service selected in a service locator field
+ */
+export function getServiceSlug(node: INode, value: unknown, itemIndex?: number): string {
+	const serviceSlug = parseServiceLocator(value);
+	if (serviceSlug) {
+		return serviceSlug;
+	}
+
+	const locator = value && typeof value === 'object' ? (value as INodeParameterResourceLocator) : undefined;
+	const text = String(locator ? locator.value : (value ?? '')).trim();
+	if (!text) {
+		throw new XPayOperationError(node, 'No service selected', {
+			remediation: 'Pick a service from the list, or enter its slug or marketplace link.',
+			itemIndex,
+		});
+	}
+	throw new XPayOperationError(
+		node,
+		locator?.mode === 'url' ? `Not a marketplace service link: ${text}` : `Not a valid service slug: ${text}`,
+		{
+			remediation: `Use a link like ${getServiceUrl('account-intel')} or a slug like account-intel.`,
+			itemIndex,
+		},
+	);
+}
+
+/**
+ * Fetch a service (cached) and check that it can be run. Drafts and archived
+ * services are rejected before anything is paid for.
+ */
+export async function getPublishedService(
+	context: ApiContext,
+	serviceSlug: string,
+	requestOptions: XPayRequestOptions = {},
+	itemIndex?: number,
+): Promise<Glyph> {
+	const glyph = await getService(context, serviceSlug, requestOptions);
+	assertRunnable(context.getNode(), glyph, `Service ${serviceSlug}`, itemIndex);
+	return glyph;
+}
+
+/**
+ * Fetch a pinned version of a service (cached) and check that it can be run.
+ * Fails when the catalog does not have that version, so the inputs are never
+ * validated against the schema of another version. `current` is the current
+ * version as returned by getService: it is not checked here, so an archived
+ * current version does not stop a pin that still runs (see getServiceWarnings).
+ */
+export async function getPinnedService(
+	context: ApiContext,
+	current: Glyph,
+	version: string,
+	requestOptions: XPayRequestOptions = {},
+	itemIndex?: number,
+): Promise<Glyph> {
+	let glyph: Glyph | undefined = version === current.version ? current : undefined;
+	try {
+		glyph ??= await getService(context, current.slug, requestOptions, version);
+	} catch (error) {
+		if (toXPayError(context.getNode(), error, 'run/getServiceVersion', itemIndex).xpayCode !== 'NOT_FOUND') {
+			throw error;
+		}
+	}
+	if (glyph?.version !== version) {
+		throw new XPayOperationError(context.getNode(), `Service ${current.slug} has no version ${version}`, {
+			code: 'NOT_FOUND',
+			remediation: `Check the version in the marketplace, or clear Service Version to run the current version (${current.version}).`,
+			itemIndex,
+		});
+	}
+	assertRunnable(context.getNode(), glyph, `Version ${version} of service ${current.slug}`, itemIndex);
+	return glyph;
+}
+
+// Drafts and archived services (or versions) are rejected before anything is paid for
+function assertRunnable(node: INode, glyph: Glyph, label: string, itemIndex?: number): void {
+	if (glyph.status && !RUNNABLE_STATUSES.includes(glyph.status)) {
+		throw new XPayOperationError(node, `${label} is not published (status: ${glyph.status})`, {
+			code: 'SERVICE_UNAVAILABLE',
+			remediation: 'Pick a published service. Drafts and archived services cannot be run.',
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Warnings about a service that still runs but may not behave like when the
+ * workflow was built: it is deprecated, or its schema has changed. For a pinned
+ * version, the current version is checked too: when it is deprecated or no
+ * longer published, the pinned version is likely to be withdrawn as well.
+ */
+export function getServiceWarnings(glyph: Glyph, checks: ServiceLifecycleChecks = {}): ServiceWarning[] {
+	const warnings: ServiceWarning[] = [];
+	if (glyph.status === 'deprecated') {
+		warnings.push({
+			code: 'SERVICE_DEPRECATED',
+			message: `Service ${glyph.slug} is deprecated and may be archived; move to a replacement service`,
+		});
+	}
+	const current = checks.current;
+	if (current && current.version !== glyph.version) {
+		if (current.status === 'deprecated') {
+			warnings.push({
+				code: 'SERVICE_DEPRECATED',
+				message: `The current version (${current.version}) of service ${glyph.slug} is deprecated and may be archived; move to a replacement service`,
+			});
+		} else if (current.status && !RUNNABLE_STATUSES.includes(current.status)) {
+			warnings.push({
+				code: 'SERVICE_UNAVAILABLE',
+				message: `The current version (${current.version}) of service ${glyph.slug} is not published (status: ${current.status}); the pinned version ${glyph.version} may be withdrawn`,
+			});
+		}
+	}
+
+	const changes = checks.savedFields?.length ? getSchemaChanges(checks.savedFields, glyph.schema?.inputs) : [];
+	if (changes.length) {
+		warnings.push({
+			code: 'SCHEMA_CHANGED',
+			message: `Inputs of service ${glyph.slug} changed since the workflow was saved: ${changes.join('; ')}`,
+		});
+	}
+	const expectedSchemaHash = checks.expectedSchemaHash?.trim();
+	if (expectedSchemaHash && expectedSchemaHash !== getSchemaHash(glyph.schema)) {
+		warnings.push({
+			code: 'SCHEMA_CHANGED',
+			message: `Schema of service ${glyph.slug} changed (hash ${getSchemaHash(glyph.schema)}, expected ${expectedSchemaHash})`,
+		});
+	}
+	return warnings;
+}
+
+/**
+ * Check a service before it is run. Returns the warnings to put in the output,
+ * or throws the first one when the action is 'error'.
+ */
+export function checkServiceLifecycle(
+	node: INode,
+	glyph: Glyph,
+	checks: ServiceLifecycleChecks = {},
+	itemIndex?: number,
+): ServiceWarning[] {
+	const warnings = getServiceWarnings(glyph, checks);
+	if (warnings.length && checks.action === 'error') {
+		const [warning] = warnings;
+		throw new XPayOperationError(node, warning.message, {
+			code: warning.code,
+			remediation:
+				warning.code === 'SCHEMA_CHANGED'
+					? 'Check the inputs against the new schema, refresh the mapped fields and update Expected Schema Hash.'
+					: 'Pick another service, or set When Service Changed to Add Warning to keep running it.',
+			itemIndex,
+		});
+	}
+	return warnings;
+}
+
+function getPriceLabel(glyph: Glyph): string | undefined {
+	const pricing = glyph.pricing;
+	if (!pricing) {
+		return undefined;
+	}
+	if (pricing.model === 'free') {
+		return 'free';
+	}
+	if (pricing.estimatedCost && pricing.estimatedCost !== 'varies') {
+		return pricing.estimatedCost;
+	}
+	return pricing.model === 'per-run' ? `$${pricing.amount}` : pricing.model;
+}
+
+/**
+ * Service as a picker entry, e.g. "Account Intel (agent · $0.05 · ✓ verified)"
+ */
+export function toServiceListItem(glyph: Glyph): INodeListSearchItems {
+	const details = [glyph.type, getPriceLabel(glyph), glyph.verified ? '✓ verified' : undefined].filter(Boolean);
+	return {
+		name: details.length ? `${glyph.name} (${details.join(' · ')})` : glyph.name,
+		value: glyph.slug,
+		url: getServiceUrl(glyph.slug),
+		description: glyph.description,
+	};
+}
+
+/**
+ * One page of runnable services matching a search term. The pagination token is
+ * the offset of the next page.
+ */
+export async function searchServices(
+	context: ApiContext,
+	filter?: string,
+	paginationToken?: string,
+): Promise<INodeListSearchResult> {
+	const offset = Number(paginationToken) || 0;
+	const limit = DEFAULTS.SERVICE_SEARCH_PAGE_SIZE;
+	const query: Record<string, string | number> = { limit, offset };
+	if (filter?.trim()) {
+		query.search = filter.trim();
+	}
+
+	const response = await catalogRequest(context, ENDPOINTS.GLYPHS, query);
+	const glyphs: Glyph[] = response.glyphs || response || [];
+	const total = typeof response.total === 'number' ? response.total : undefined;
+	const nextOffset = offset + glyphs.length;
+
+	return {
+		results: glyphs.filter((g) => !g.status || RUNNABLE_STATUSES.includes(g.status)).map(toServiceListItem),
+		paginationToken:
+			glyphs.length === limit && (total === undefined || nextOffset < total) ? String(nextOffset) : undefined,
+	};
+}
+
+/**
+ * Version, schema hash and warnings of the service a run used. currentVersion
+ * is set when a pinned version is not the current one. reportedVersion is the
+ * version the router says it ran, when it reports one.
+ */
+export function getServiceRunFields(
+	glyph: Glyph,
+	current: Glyph,
+	warnings: ServiceWarning[],
+	reportedVersion?: string,
+): IDataObject {
+	const fields: IDataObject = {
+		serviceVersion: reportedVersion || glyph.version,
+		schemaHash: getSchemaHash(glyph.schema),
+	};
+	if (current.version && current.version !== fields.serviceVersion) {
+		fields.currentServiceVersion = current.version;
+	}
+	if (warnings.length) {
+		fields.warnings = warnings as unknown as IDataObject[];
+	}
+	return fields;
+}
@@ -0,0 +1,178 @@
+/**
+ * Token counting helpers for xpay n8n nodes
+ * Counts tokens locally with a tokenizer suited to the model's provider and
+ * prices token counts from the model catalog
+ */
+
+import type { IDataObject } from 'n8n-workflow';
+import type { Tiktoken } from 'js-tiktoken';
+
+import { type ApiContext, type XPayRequestOptions, glyphCoreRequest } from './api';
+import { catalogRequest } from './cache';
+import { DEFAULTS, ENDPOINTS } from './constants';
+import { XPayOperationError } from './errors';
+import type { CostEstimate, ModelCatalogEntry, ModelPricing, ModelProvider } from './types';
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+export interface Tokenizer {
+	encoding: TokenizerEncoding;
+	// Multiplier for providers whose tokenizer is not public (1 = exact)
+	scale: number;
+}
+
+// api: POST /models/estimate; catalog: computed from the model's catalog pricing
+export type TokenPricingSource = 'api' | 'catalog';
+
+export interface OutputTokenOptions {
+	// maxOutputTokens: the model's output limit (upper bound); ratio: a share of the input tokens
+	source: 'maxOutputTokens' | 'ratio';
+	ratio?: number;
+}
+
+// Providers without a public tokenizer are counted with cl100k_base and scaled
+// by roughly how many more tokens their tokenizers produce for English text
+const PROVIDER_TOKENIZERS: Record<ModelProvider, Tokenizer> = {
+	openai: { encoding: 'cl100k_base', scale: 1 },
+	anthropic: { encoding: 'cl100k_base', scale: 1.15 },
+	google: { encoding: 'cl100k_base', scale: 1.05 },
+	meta: { encoding: 'cl100k_base', scale: 1 },
+	mistral: { encoding: 'cl100k_base', scale: 1.15 },
+	cohere: { encoding: 'cl100k_base', scale: 1.05 },
+	deepseek: { encoding: 'cl100k_base', scale: 1.05 },
+};
+
+const encoders = new Map<TokenizerEncoding, Promise<Tiktoken>>();
+
+/**
+ * Tokenizer for a model. OpenAI's GPT-4o, GPT-4.1 and o-series models use
+ * o200k_base; older OpenAI models use cl100k_base.
+ */
+export function getTokenizer(model: Pick<ModelCatalogEntry, 'modelId' | 'provider'>): Tokenizer {
+	if (model.provider === 'openai' && /(^|\/)(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model.modelId)) {
+		return { encoding: 'o200k_base', scale: 1 };
+	}
+	return PROVIDER_TOKENIZERS[model.provider] ?? { encoding: 'cl100k_base', scale: 1 };
+}
+
+// The encodings are loaded on first use; their rank tables are several MB
+function getEncoder(encoding: TokenizerEncoding): Promise<Tiktoken> {
+	let encoder = encoders.get(encoding);
+	if (!encoder) {
+		encoder = import('js-tiktoken').then(({ getEncoding }) => getEncoding(encoding));
+		encoders.set(encoding, encoder);
+	}
+	return encoder;
+}
+
+/**
+ * Number of tokens a text takes for a model
+ */
+export async function countTokens(text: string, model: Pick<ModelCatalogEntry, 'modelId' | 'provider'>): Promise<number> {
+	if (!text) {
+		return 0;
+	}
+	const tokenizer = getTokenizer(model);
+	const encoder = await getEncoder(tokenizer.encoding);
+	return Math.ceil(encoder.encode(text).length * tokenizer.scale);
+}
+
+/**
+ * Projected output tokens, capped at the model's output limit
+ */
+export function projectOutputTokens(
+	inputTokens: number,
+	model: Pick<ModelCatalogEntry, 'maxOutputTokens'>,
+	options: OutputTokenOptions,
+): number {
+	const limit = model.maxOutputTokens;
+	if (options.source === 'ratio') {
+		const projected = Math.ceil(inputTokens * (options.ratio ?? 1));
+		return limit ? Math.min(projected, limit) : projected;
+	}
+	return limit ?? DEFAULTS.ESTIMATE_OUTPUT_TOKENS;
+}
+
+/**
+ * Cost of a token count from the model's catalog pricing (USDC per million
+ * tokens, including the xpay markup)
+ */
+export function estimateFromPricing(pricing: ModelPricing, inputTokens: number, outputTokens: number): CostEstimate {
+	const markup = 1 + (pricing.xpayMarkupPercent ?? 0) / 100;
+	const inputRate = pricing.effectiveInput ?? pricing.input * markup;
+	const outputRate = pricing.effectiveOutput ?? pricing.output * markup;
+	const round = (cost: number) => Math.round(cost * 1e6) / 1e6;
+	const inputCost = round((inputTokens / 1e6) * inputRate);
+	const outputCost = round((outputTokens / 1e6) * outputRate);
+	return { inputCost, outputCost, total: round(inputCost + outputCost), currency: 'USDC' };
+}
+
+/**
+ * Fetch a model from the catalog (cached)
+ */
+export async function getModel(
+	context: ApiContext,
+	modelId: string,
+	requestOptions: XPayRequestOptions = {},
+	itemIndex?: number,
+): Promise<ModelCatalogEntry> {
+	const response = await catalogRequest(context, ENDPOINTS.MODELS, undefined, requestOptions);
+	const models: ModelCatalogEntry[] = response.models || response || [];
+	const model = models.find((entry) => entry.modelId === modelId);
+	if (!model) {
+		throw new XPayOperationError(context.getNode(), `Model not found: ${modelId}`, {
+			code: 'NOT_FOUND',
+			remediation: 'Pick a model from the list or check the model ID.',
+			itemIndex,
+		});
+	}
+	return model;
+}
+
+/**
+ * Price a token count with the estimate API or the model's catalog pricing
+ */
+export async function estimateTokenCost(
+	context: ApiContext,
+	model: ModelCatalogEntry,
+	inputTokens: number,
+	outputTokens: number,
+	source: TokenPricingSource,
+	requestOptions: XPayRequestOptions = {},
+): Promise<CostEstimate> {
+	if (source === 'catalog') {
+		return estimateFromPricing(model.pricing, inputTokens, outputTokens);
+	}
+	return glyphCoreRequest(
+		context,
+		'POST',
+		ENDPOINTS.MODELS_ESTIMATE,
+		{ modelId: model.modelId, inputTokens, outputTokens },
+		undefined,
+		{ ...requestOptions, idempotent: true },
+	) as Promise<CostEstimate>;
+}
+
+/**
+ * Text to count from an item field; dots address nested fields. Values that
+ * are not strings are counted as JSON. Undefined when the item has no such
+ * field, so a mistyped field is not priced as an empty text.
+ */
+export function getTextField(json: IDataObject, field: string): string | undefined {
+	const value =
+		field in json
+			? json[field]
+			: field
+				.split('.')
+				.reduce<unknown>(
+					(current, key) => (current && typeof current === 'object' ? (current as IDataObject)[key] : undefined),
+					json,
+				);
+	if (value === undefined) {
+		return undefined;
+	}
+	if (value === null) {
+		return '';
+	}
+	return typeof value === 'string' ? value : JSON.stringify(value);
+}
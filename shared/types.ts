@@ -25,6 +25,8 @@ export interface GlyphSchemaField {
 	min?: number;
 	max?: number;
 	accept?: string;
+	// How a file input is passed: inlined as a data URI or uploaded and passed as a URL
+	fileTransport?: 'inline' | 'upload';
 }
 
 export interface GlyphSchema {
@@ -144,7 +146,7 @@ export interface CollectionTheme {
 // RUN TYPES
 // ============================================
 
-export type RunStatus = 'processing' | 'success' | 'completed' | 'failed' | 'error' | 'unknown';
+export type RunStatus = 'processing' | 'success' | 'completed' | 'failed' | 'error' | 'cancelled' | 'unknown';
 
 export interface RunResult {
 	runId?: string;
@@ -156,6 +158,8 @@ export interface RunResult {
 	cost?: number;
 	duration?: number;
 	latencyMs?: number;
+	// Service version that ran
+	glyphVersion?: string;
 }
 
 export interface AsyncRunResult {
@@ -165,11 +169,15 @@ export interface AsyncRunResult {
 	statusUrl: string;
 	message?: string;
 	error?: string;
+	// Service version the run uses
+	glyphVersion?: string;
 }
 
 export interface RunStatusResult {
 	runId: string;
 	status: RunStatus;
+	// Model that served the run
+	modelId?: string;
 	step?: string;
 	progress?: number;
 	message?: string;
@@ -180,6 +188,60 @@ export interface RunStatusResult {
 	duration?: number;
 	createdAt?: number;
 	completedAt?: number;
+	// Service version that ran
+	glyphVersion?: string;
+}
+
+export interface RunCancelResult {
+	runId: string;
+	// false when the run had already finished
+	cancelled: boolean;
+	status: RunStatus;
+	// Amount charged for the run despite the cancellation
+	cost?: number;
+	message?: string;
+}
+
+// ============================================
+// ACCOUNT TYPES
+// ============================================
+
+export interface AccountRun {
+	runId: string;
+	glyphSlug: string;
+	modelId: string;
+	status: RunStatus;
+	cost: number;
+	duration?: number;
+	// Epoch milliseconds or ISO 8601
+	createdAt: number | string;
+	completedAt?: number;
+}
+
+export interface AccountStats {
+	totalRuns: number;
+	successfulRuns: number;
+	failedRuns?: number;
+	totalSpent?: number;
+}
+
+export interface AccountRunFilters {
+	startDate?: number;
+	endDate?: number;
+	glyphSlug?: string;
+	modelId?: string;
+	status?: RunStatus;
+	minCost?: number;
+}
+
+export interface RunUsageSummary {
+	runs: number;
+	successfulRuns: number;
+	failedRuns: number;
+	successRate: number;
+	totalCost: number;
+	averageCost: number;
+	averageDurationMs: number;
 }
 
 // ============================================
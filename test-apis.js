@@ -11,6 +11,9 @@
  * Or set environment variable:
  *   export XPAY_API_KEY=your_key
  *   node test-apis.js
+ *
+ * Point at a self-hosted deployment or local stand-in with
+ * XPAY_CORE_URL, XPAY_ROUTER_URL and XPAY_SMART_PROXY_URL.
  */
 
 const API_KEY = process.argv[2] || process.env.XPAY_API_KEY;
@@ -22,10 +25,10 @@ if (!API_KEY) {
   process.exit(1);
 }
 
-// API URLs (from shared/constants.ts)
-const CORE_URL = 'https://7qzahhyw77.execute-api.us-east-1.amazonaws.com/dev';
-const ROUTER_URL = 'https://zn3nt9p4tf.execute-api.us-east-1.amazonaws.com/dev';
-const SMART_PROXY_URL = 'https://nrq1ybv1u6.execute-api.us-east-1.amazonaws.com/dev';
+// API URLs (from shared/constants.ts, overridable like the credential's Custom environment)
+const CORE_URL = process.env.XPAY_CORE_URL || 'https://7qzahhyw77.execute-api.us-east-1.amazonaws.com/dev';
+const ROUTER_URL = process.env.XPAY_ROUTER_URL || 'https://zn3nt9p4tf.execute-api.us-east-1.amazonaws.com/dev';
+const SMART_PROXY_URL = process.env.XPAY_SMART_PROXY_URL || 'https://nrq1ybv1u6.execute-api.us-east-1.amazonaws.com/dev';
 
 const headers = {
   'Authorization': `Bearer ${API_KEY}`,
@@ -0,0 +1,302 @@
+/**
+ * Minimal stand-ins for the n8n function contexts used by the xpay nodes.
+ * Requests go over real HTTP (usually to the mock server) and failures are
+ * wrapped in NodeApiError the same way n8n's request helpers do it.
+ */
+
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+import type {
+	IBinaryData,
+	IDataObject,
+	IExecuteFunctions,
+	IHookFunctions,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INode,
+	INodeExecutionData,
+	INodeProperties,
+	INodeType,
+	ISupplyDataFunctions,
+	IWebhookFunctions,
+	JsonObject,
+} from 'n8n-workflow';
+
+import type { MockServerUrls } from './mock-server/server';
+
+export interface ContextOptions {
+	// Node parameters; a function value is called with the item index
+	parameters?: Record<string, any>;
+	items?: INodeExecutionData[];
+	credentials?: IDataObject;
+	continueOnFail?: boolean;
+	executionId?: string;
+	staticData?: IDataObject;
+	// Defaults to the node's default (latest) version
+	typeVersion?: number;
+	// Returned by getExecutionCancelSignal, abort it to emulate stopping the execution
+	abortSignal?: AbortSignal;
+	// $execution.resumeUrl
+	resumeUrl?: string;
+	// Called by putExecutionToWait
+	onWait?: (waitTill: Date) => void;
+}
+
+export function mockCredentials(urls: MockServerUrls, overrides: IDataObject = {}): IDataObject {
+	return {
+		apiKey: 'xpay_sk_test',
+		environment: 'custom',
+		coreUrl: urls.coreUrl,
+		routerUrl: urls.routerUrl,
+		smartProxyUrl: urls.smartProxyUrl,
+		paywallUrl: urls.paywallUrl,
+		...overrides,
+	};
+}
+
+function getTypeVersion(nodeType: INodeType, options: ContextOptions): number {
+	const { version, defaultVersion } = nodeType.description;
+	return options.typeVersion ?? defaultVersion ?? (Array.isArray(version) ? Math.max(...version) : version);
+}
+
+function createNode(nodeType: INodeType, options: ContextOptions): INode {
+	return {
+		id: 'node-1',
+		name: nodeType.description.defaults.name as string,
+		type: `n8n-nodes-xpay.${nodeType.description.name}`,
+		typeVersion: getTypeVersion(nodeType, options),
+		position: [0, 0],
+		parameters: {},
+	};
+}
+
+function isShown(property: INodeProperties, parameters: Record<string, any>, typeVersion: number): boolean {
+	const show = property.displayOptions?.show;
+	if (!show) return true;
+	return Object.entries(show).every(([name, values]) => {
+		const value = name === '@version' ? typeVersion : parameters[name];
+		return value === undefined || (values as any[]).includes(value);
+	});
+}
+
+function getDefault(nodeType: INodeType, name: string, parameters: Record<string, any>, typeVersion: number): any {
+	const candidates = nodeType.description.properties.filter((p) => p.name === name);
+	const property = candidates.find((p) => isShown(p, parameters, typeVersion)) ?? candidates[0];
+	if (!property) {
+		throw new Error(`Unknown node parameter: ${name}`);
+	}
+	return property.default;
+}
+
+function createParameterGetter(nodeType: INodeType, parameters: Record<string, any>, typeVersion: number) {
+	return (name: string, itemIndex: number, fallback?: any) => {
+		if (name in parameters) {
+			const value = parameters[name];
+			return typeof value === 'function' ? value(itemIndex) : value;
+		}
+		return fallback !== undefined ? fallback : getDefault(nodeType, name, parameters, typeVersion);
+	};
+}
+
+/**
+ * Emulates helpers.httpRequestWithAuthentication for the xPayApi credential
+ */
+function createHttpRequest(node: INode, credentials: IDataObject) {
+	return async function httpRequestWithAuthentication(
+		this: unknown,
+		_credentialType: string,
+		options: IHttpRequestOptions,
+	): Promise<any> {
+		const url = new URL(options.url);
+		for (const [key, value] of Object.entries(options.qs ?? {})) {
+			if (value !== undefined) url.searchParams.set(key, String(value));
+		}
+		const headers: Record<string, string> = {
+			...(options.headers as Record<string, string>),
+			Authorization: `Bearer ${credentials.apiKey}`,
+		};
+
+		const response = await fetch(url, {
+			method: options.method ?? 'GET',
+			headers,
+			body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+		});
+		const text = await response.text();
+		let body: any = text;
+		try {
+			body = text ? JSON.parse(text) : undefined;
+		} catch {
+			// keep raw text
+		}
+		const responseHeaders = Object.fromEntries(response.headers.entries());
+
+		if (!response.ok) {
+			const error = Object.assign(new Error(`Request failed with status code ${response.status}`), {
+				response: { status: response.status, headers: responseHeaders, data: body },
+			});
+			throw new NodeApiError(node, error as unknown as JsonObject);
+		}
+
+		if (options.returnFullResponse) {
+			return { body, headers: responseHeaders, statusCode: response.status, statusMessage: response.statusText };
+		}
+		return body;
+	};
+}
+
+/**
+ * Emulates helpers.httpRequest (no credentials, used for file downloads)
+ */
+async function httpRequest(options: IHttpRequestOptions): Promise<any> {
+	const response = await fetch(options.url, {
+		method: options.method ?? 'GET',
+		headers: {
+			...(options.body !== undefined ? { 'content-type': 'application/json' } : {}),
+			...(options.headers as Record<string, string>),
+		},
+		body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+	});
+	const body = options.encoding === 'arraybuffer' ? Buffer.from(await response.arrayBuffer()) : await response.text();
+	if (!response.ok) {
+		throw new Error(`Request failed with status code ${response.status}`);
+	}
+	if (options.returnFullResponse) {
+		return { body, headers: Object.fromEntries(response.headers.entries()), statusCode: response.status };
+	}
+	return body;
+}
+
+/**
+ * Emulates the binary data helpers on top of base64 data in the items
+ */
+function createBinaryHelpers(node: INode, items: INodeExecutionData[]) {
+	const assertBinaryData = (itemIndex: number, propertyName: string): IBinaryData => {
+		const binaryData = items[itemIndex]?.binary?.[propertyName];
+		if (!binaryData) {
+			throw new NodeOperationError(node, `No binary data property "${propertyName}" exists on item!`, { itemIndex });
+		}
+		return binaryData;
+	};
+
+	return {
+		assertBinaryData,
+		getBinaryDataBuffer: async (itemIndex: number, propertyName: string) =>
+			Buffer.from(assertBinaryData(itemIndex, propertyName).data, 'base64'),
+		prepareBinaryData: async (data: Buffer, fileName?: string, mimeType?: string): Promise<IBinaryData> => ({
+			data: data.toString('base64'),
+			mimeType: mimeType ?? 'application/octet-stream',
+			fileName,
+			fileExtension: fileName?.split('.').pop(),
+			fileSize: `${data.length} B`,
+		}),
+	};
+}
+
+export function createExecuteContext(nodeType: INodeType, options: ContextOptions = {}): IExecuteFunctions {
+	const node = createNode(nodeType, options);
+	const parameters = options.parameters ?? {};
+	const credentials = options.credentials ?? {};
+	const staticData = options.staticData ?? {};
+	const getParameter = createParameterGetter(nodeType, parameters, node.typeVersion);
+
+	const items = options.items ?? [{ json: {} }];
+
+	const context = {
+		getNode: () => node,
+		getInputData: () => items,
+		getNodeParameter: getParameter,
+		getCredentials: async () => credentials,
+		getExecutionId: () => options.executionId ?? 'exec-1',
+		getWorkflowStaticData: () => staticData,
+		continueOnFail: () => options.continueOnFail ?? false,
+		getExecutionCancelSignal: () => options.abortSignal,
+		evaluateExpression: (expression: string) =>
+			expression.includes('$execution?.resumeUrl') ? options.resumeUrl : expression,
+		putExecutionToWait: async (waitTill: Date) => options.onWait?.(waitTill),
+		helpers: {
+			httpRequestWithAuthentication: createHttpRequest(node, credentials),
+			httpRequest,
+			...createBinaryHelpers(node, items),
+		},
+	};
+	return context as unknown as IExecuteFunctions;
+}
+
+export function createLoadOptionsContext(nodeType: INodeType, options: ContextOptions = {}): ILoadOptionsFunctions {
+	const node = createNode(nodeType, options);
+	const parameters = options.parameters ?? {};
+	const credentials = options.credentials ?? {};
+	const getParameter = createParameterGetter(nodeType, parameters, node.typeVersion);
+
+	const context = {
+		getNode: () => node,
+		getNodeParameter: (name: string, fallback?: any) => getParameter(name, 0, fallback),
+		getCurrentNodeParameter: (name: string) => getParameter(name, 0),
+		getCredentials: async () => credentials,
+		helpers: {
+			httpRequestWithAuthentication: createHttpRequest(node, credentials),
+		},
+	};
+	return context as unknown as ILoadOptionsFunctions;
+}
+
+export function createSupplyDataContext(nodeType: INodeType, options: ContextOptions = {}): ISupplyDataFunctions {
+	return createExecuteContext(nodeType, options) as unknown as ISupplyDataFunctions;
+}
+
+export function createHookContext(
+	nodeType: INodeType,
+	options: ContextOptions & { webhookUrl?: string } = {},
+): IHookFunctions {
+	const node = createNode(nodeType, options);
+	const parameters = options.parameters ?? {};
+	const credentials = options.credentials ?? {};
+	const staticData = options.staticData ?? {};
+	const getParameter = createParameterGetter(nodeType, parameters, node.typeVersion);
+
+	const context = {
+		getNode: () => node,
+		getNodeParameter: (name: string, fallback?: any) => getParameter(name, 0, fallback),
+		getNodeWebhookUrl: () => options.webhookUrl ?? 'https://n8n.example.test/webhook/abc/webhook',
+		getCredentials: async () => credentials,
+		getWorkflowStaticData: () => staticData,
+		helpers: {
+			httpRequestWithAuthentication: createHttpRequest(node, credentials),
+		},
+	};
+	return context as unknown as IHookFunctions;
+}
+
+export function createWebhookContext(
+	nodeType: INodeType,
+	options: ContextOptions & {
+		webhookName?: string;
+		method?: string;
+		body?: IDataObject;
+		headers?: IDataObject;
+		query?: IDataObject;
+	} = {},
+): IWebhookFunctions {
+	const node = createNode(nodeType, options);
+	const parameters = options.parameters ?? {};
+	const credentials = options.credentials ?? {};
+	const staticData = options.staticData ?? {};
+	const getParameter = createParameterGetter(nodeType, parameters, node.typeVersion);
+
+	const context = {
+		getNode: () => node,
+		getNodeParameter: (name: string, fallback?: any) => getParameter(name, 0, fallback),
+		getWebhookName: () => options.webhookName ?? 'default',
+		getRequestObject: () => ({ method: options.method ?? 'POST' }),
+		getBodyData: () => options.body ?? {},
+		getHeaderData: () => options.headers ?? {},
+		getQueryData: () => options.query ?? {},
+		getCredentials: async () => credentials,
+		getWorkflowStaticData: () => staticData,
+		helpers: {
+			httpRequestWithAuthentication: createHttpRequest(node, credentials),
+			httpRequest,
+			...createBinaryHelpers(node, []),
+		},
+	};
+	return context as unknown as IWebhookFunctions;
+}
@@ -0,0 +1,15 @@
+export interface RedisStandIn {
+	state: {
+		// "db:key" -> stored value and expiry (ms timestamp)
+		entries: Map<string, { value: string; expiresAt?: number }>;
+		// Every command received, with the command name upper-cased
+		commands: string[][];
+		password?: string;
+	};
+	reset(): void;
+	// Resolves with the server's redis:// URL
+	start(port?: number): Promise<string>;
+	stop(): Promise<void>;
+}
+
+export function createRedisStandIn(options?: { password?: string }): RedisStandIn;
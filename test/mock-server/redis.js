@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for a Redis server
+ *
+ * Speaks enough of the Redis protocol (RESP) for the result cache: PING, AUTH,
+ * SELECT, GET, SET (with EX/PX), DEL and FLUSHALL. Keys expire like in Redis.
+ * Used by the test suite, and runnable on its own:
+ *
+ *   node test/mock-server/redis.js [port]
+ *
+ * Then set the Result Cache Redis URL to redis://localhost:6380/0
+ */
+
+const net = require('net');
+
+function encode(value) {
+	if (value === null || value === undefined) return '$-1\r\n';
+	if (value instanceof Error) return `-${value.message}\r\n`;
+	if (typeof value === 'number') return `:${value}\r\n`;
+	if (value === 'OK' || value === 'PONG') return `+${value}\r\n`;
+	return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/**
+ * Parse the complete commands (arrays of bulk strings) at the start of the
+ * buffer. Returns the commands and the number of bytes they took.
+ */
+function parseCommands(buffer) {
+	const commands = [];
+	let offset = 0;
+	while (offset < buffer.length) {
+		const start = offset;
+		const headerEnd = buffer.indexOf('\r\n', offset);
+		if (headerEnd === -1 || buffer[offset] !== 0x2a) break;
+		const count = Number(buffer.toString('utf8', offset + 1, headerEnd));
+		offset = headerEnd + 2;
+		const args = [];
+		for (let index = 0; index < count; index++) {
+			const lineEnd = buffer.indexOf('\r\n', offset);
+			if (lineEnd === -1) break;
+			const length = Number(buffer.toString('utf8', offset + 1, lineEnd));
+			if (buffer.length < lineEnd + 2 + length + 2) break;
+			args.push(buffer.toString('utf8', lineEnd + 2, lineEnd + 2 + length));
+			offset = lineEnd + 2 + length + 2;
+		}
+		if (args.length < count) {
+			offset = start;
+			break;
+		}
+		commands.push(args);
+	}
+	return { commands, consumed: offset };
+}
+
+function createRedisStandIn(options = {}) {
+	const state = {
+		// "db:key" -> { value, expiresAt }
+		entries: new Map(),
+		commands: [],
+		password: options.password,
+	};
+	const sockets = new Set();
+
+	function get(db, key) {
+		const entry = state.entries.get(`${db}:${key}`);
+		if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+			state.entries.delete(`${db}:${key}`);
+			return undefined;
+		}
+		return entry;
+	}
+
+	function execute(session, args) {
+		const [name, ...rest] = args;
+		const command = name.toUpperCase();
+		state.commands.push([command, ...rest]);
+		if (command === 'AUTH') {
+			const password = rest[rest.length - 1];
+			if (state.password !== undefined && password !== state.password) {
+				return new Error('WRONGPASS invalid username-password pair or user is disabled.');
+			}
+			session.authenticated = true;
+			return 'OK';
+		}
+		if (state.password !== undefined && !session.authenticated) {
+			return new Error('NOAUTH Authentication required.');
+		}
+		switch (command) {
+			case 'PING':
+				return 'PONG';
+			case 'SELECT':
+				session.db = rest[0];
+				return 'OK';
+			case 'GET':
+				return get(session.db, rest[0])?.value ?? null;
+			case 'SET': {
+				const [key, value, ...flags] = rest;
+				let expiresAt;
+				for (let index = 0; index < flags.length; index += 2) {
+					const flag = flags[index].toUpperCase();
+					if (flag === 'PX') expiresAt = Date.now() + Number(flags[index + 1]);
+					if (flag === 'EX') expiresAt = Date.now() + Number(flags[index + 1]) * 1000;
+				}
+				state.entries.set(`${session.db}:${key}`, { value, expiresAt });
+				return 'OK';
+			}
+			case 'DEL':
+				return rest.filter((key) => get(session.db, key) && state.entries.delete(`${session.db}:${key}`)).length;
+			case 'FLUSHALL':
+				state.entries.clear();
+				return 'OK';
+			default:
+				return new Error(`ERR unknown command '${name}'`);
+		}
+	}
+
+	const server = net.createServer((socket) => {
+		const session = { db: '0', authenticated: false };
+		let buffer = Buffer.alloc(0);
+		sockets.add(socket);
+		socket.on('close', () => sockets.delete(socket));
+		socket.on('error', () => undefined);
+		socket.on('data', (chunk) => {
+			buffer = Buffer.concat([buffer, chunk]);
+			const { commands, consumed } = parseCommands(buffer);
+			buffer = buffer.subarray(consumed);
+			socket.write(commands.map((args) => encode(execute(session, args))).join(''));
+		});
+	});
+
+	return {
+		state,
+
+		reset() {
+			state.entries.clear();
+			state.commands.length = 0;
+		},
+
+		start(port = 0) {
+			return new Promise((resolve) => {
+				server.listen(port, '127.0.0.1', () => resolve(`redis://127.0.0.1:${server.address().port}`));
+			});
+		},
+
+		stop() {
+			for (const socket of sockets) socket.destroy();
+			return new Promise((resolve) => server.close(() => resolve()));
+		},
+	};
+}
+
+module.exports = { createRedisStandIn };
+
+if (require.main === module) {
+	const port = Number(process.argv[2] || process.env.PORT || 6380);
+	createRedisStandIn().start(port).then((url) => {
+		console.log(`Redis stand-in listening on ${url}`);
+	});
+}
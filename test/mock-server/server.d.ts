@@ -0,0 +1,68 @@
+export interface MockRequest {
+	method: string;
+	service: 'core' | 'router' | 'proxy' | 'paywall' | string;
+	path: string;
+	query: Record<string, string>;
+	headers: Record<string, string | string[] | undefined>;
+	body: any;
+}
+
+export interface MockResponse {
+	status: number;
+	body?: any;
+	headers?: Record<string, string>;
+}
+
+export interface MockCallback {
+	runId: string;
+	url: string;
+	body: any;
+	// Status the callback URL answered with, or the request error
+	status?: number;
+	error?: string;
+}
+
+export interface MockServerUrls {
+	url: string;
+	coreUrl: string;
+	routerUrl: string;
+	smartProxyUrl: string;
+	paywallUrl: string;
+}
+
+export interface MockFixtures {
+	glyphs: any[];
+	models: any[];
+	collections: any[];
+	runOutputs: Record<string, any>;
+	wallet: Record<string, any>;
+	stats: Record<string, any>;
+	runs: any[];
+}
+
+export interface MockServer {
+	state: {
+		fixtures: MockFixtures;
+		requests: MockRequest[];
+		asyncRuns: Map<string, any>;
+		webhooks: Map<string, any>;
+		callbacks: MockCallback[];
+		callbackDelayMs: number;
+		dropCallbacks: boolean;
+		[key: string]: any;
+	};
+	readonly requests: MockRequest[];
+	intercept(
+		method: string,
+		service: string | undefined,
+		pathPattern: string | RegExp,
+		response: MockResponse | ((req: MockRequest) => MockResponse | undefined),
+		times?: number,
+	): void;
+	reset(): void;
+	start(port?: number): Promise<MockServerUrls>;
+	stop(): Promise<void>;
+}
+
+export function createMockServer(): MockServer;
+export function loadFixtures(): MockFixtures;
@@ -0,0 +1,464 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the xpay APIs
+ *
+ * Serves the Glyphrun Core, Glyphrun Router, Smart Proxy and Paywall endpoints
+ * from shared/constants.ts using the recorded fixtures in test/fixtures.
+ * Used by the test suite, and runnable on its own to try the nodes offline:
+ *
+ *   node test/mock-server/server.js [port]
+ *
+ * Then select the "Custom" environment on the xpay✦ credential and set
+ *   Core API URL:    http://localhost:4010/core
+ *   Router API URL:  http://localhost:4010/router
+ *   Smart Proxy URL: http://localhost:4010/proxy
+ *   Paywall API URL: http://localhost:4010/paywall
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+function loadFixture(name) {
+	return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+}
+
+function loadFixtures() {
+	const account = loadFixture('account');
+	return {
+		glyphs: loadFixture('glyphs'),
+		models: loadFixture('models'),
+		collections: loadFixture('collections'),
+		runOutputs: loadFixture('run-outputs'),
+		wallet: account.wallet,
+		stats: account.stats,
+		runs: account.runs,
+	};
+}
+
+function json(status, body, headers = {}) {
+	return { status, body, headers };
+}
+
+function notFound(message = 'Not found') {
+	return json(404, { error: message });
+}
+
+function pick(list, query) {
+	const limit = query.limit !== undefined ? Number(query.limit) : 20;
+	const offset = query.offset !== undefined ? Number(query.offset) : 0;
+	return { page: list.slice(offset, offset + limit), total: list.length, limit, offset };
+}
+
+function createMockServer() {
+	const state = {
+		fixtures: loadFixtures(),
+		requests: [],
+		interceptors: [],
+		idempotency: new Map(),
+		asyncRuns: new Map(),
+		webhooks: new Map(),
+		files: new Map(),
+		runCounter: 0,
+		// Completion callbacks sent for async runs started with a callbackUrl
+		callbacks: [],
+		// How long an async run with a callbackUrl takes before its callback is sent
+		callbackDelayMs: 20,
+		// Skip sending callbacks (the run still completes), to exercise the polling fallback
+		dropCallbacks: false,
+	};
+	const callbackTimers = new Set();
+
+	function findGlyph(slugOrId) {
+		return state.fixtures.glyphs.find((g) => g.slug === slugOrId || g.id === slugOrId);
+	}
+
+	// A version of a glyph: the current one, or an entry of its `versions` list
+	// (earlier versions, each with the fields that differ from the current one)
+	function findGlyphVersion(glyph, version) {
+		if (!version || version === glyph.version) return glyph;
+		const entry = (glyph.versions ?? []).find((v) => v.version === version);
+		return entry ? { ...glyph, ...entry, versions: undefined } : undefined;
+	}
+
+	function nextRunId() {
+		state.runCounter += 1;
+		return `run_mock_${state.runCounter}`;
+	}
+
+	// Replays the stored response for a repeated Idempotency-Key instead of executing again
+	function withIdempotency(req, handler) {
+		const key = req.headers['idempotency-key'];
+		if (key && state.idempotency.has(key)) {
+			const stored = state.idempotency.get(key);
+			return { ...stored, headers: { ...stored.headers, 'idempotent-replayed': 'true' } };
+		}
+		const response = handler();
+		if (key && response.status < 500) {
+			state.idempotency.set(key, response);
+		}
+		return response;
+	}
+
+	function executeRun(body) {
+		const glyph = findGlyph(body.glyphSlug);
+		if (!glyph) {
+			return notFound(`Glyph not found: ${body.glyphSlug}`);
+		}
+		const version = findGlyphVersion(glyph, body.glyphVersion);
+		if (!version) {
+			return notFound(`Glyph version not found: ${body.glyphSlug}@${body.glyphVersion}`);
+		}
+		const model = state.fixtures.models.find((m) => m.modelId === body.modelId);
+		if (!model) {
+			return json(400, { error: `Unknown model: ${body.modelId}`, code: 'INVALID_MODEL' });
+		}
+		return json(200, {
+			runId: nextRunId(),
+			success: true,
+			status: 'success',
+			output: state.fixtures.runOutputs[glyph.slug] ?? { echo: body.inputs },
+			cost: glyph.pricing?.model === 'per-run' ? glyph.pricing.amount : 0.003,
+			latencyMs: 5,
+			glyphVersion: version.version,
+		});
+	}
+
+	// Final status of an async run; the run counts as finished once it is reported
+	function getRunStatusBody(run) {
+		if (run.cancelled) {
+			return { runId: run.runId, status: 'cancelled', error: 'The run was cancelled' };
+		}
+		run.finished = true;
+		return {
+			runId: run.runId,
+			status: 'success',
+			modelId: run.modelId,
+			output: run.output,
+			cost: run.cost,
+			duration: run.latencyMs,
+			glyphVersion: run.glyphVersion,
+		};
+	}
+
+	// POST the run's final status to its callbackUrl once it is done
+	function scheduleCallback(run) {
+		const timer = setTimeout(() => {
+			callbackTimers.delete(timer);
+			// The run is done: its status is final from now on
+			run.pollsRemaining = 0;
+			const body = getRunStatusBody(run);
+			if (state.dropCallbacks) return;
+			const callback = { runId: run.runId, url: run.callbackUrl, body };
+			state.callbacks.push(callback);
+			const payload = JSON.stringify(body);
+			const req = http.request(run.callbackUrl, {
+				method: 'POST',
+				headers: { 'content-type': 'application/json', 'content-length': Buffer.byteLength(payload) },
+			}, (res) => {
+				callback.status = res.statusCode;
+				res.resume();
+			});
+			req.on('error', (error) => {
+				callback.error = error.message;
+			});
+			req.end(payload);
+		}, state.callbackDelayMs);
+		callbackTimers.add(timer);
+	}
+
+	function clearCallbacks() {
+		for (const timer of callbackTimers) clearTimeout(timer);
+		callbackTimers.clear();
+	}
+
+	const routes = {
+		core: [
+			['GET', /^\/health$/, () => json(200, { status: 'ok' })],
+			['GET', /^\/glyphs$/, (req) => {
+				const q = req.query;
+				let glyphs = state.fixtures.glyphs;
+				if (q.search) {
+					const term = String(q.search).toLowerCase();
+					glyphs = glyphs.filter((g) =>
+						`${g.name} ${g.description} ${g.tags.join(' ')}`.toLowerCase().includes(term));
+				}
+				if (q.tags) {
+					const tags = String(q.tags).split(',');
+					glyphs = glyphs.filter((g) => g.tags.some((t) => tags.includes(t)));
+				}
+				if (q.type) glyphs = glyphs.filter((g) => g.type === q.type);
+				if (q.category) glyphs = glyphs.filter((g) => g.category === q.category);
+				if (q.verified === 'true') glyphs = glyphs.filter((g) => g.verified);
+				if (q.featured === 'true') glyphs = glyphs.filter((g) => g.featured);
+				if (q.trending === 'true') glyphs = glyphs.filter((g) => g.trending);
+				const { page, total, limit, offset } = pick(glyphs, q);
+				return json(200, { glyphs: page, total, limit, offset });
+			}],
+			['GET', /^\/glyph\/([^/]+)$/, (req, match) => {
+				const glyph = findGlyph(decodeURIComponent(match[1]));
+				if (!glyph) return notFound('Glyph not found');
+				const version = findGlyphVersion(glyph, req.query.version);
+				return version ? json(200, { glyph: version }) : notFound('Glyph version not found');
+			}],
+			['GET', /^\/models$/, (req) => {
+				const q = req.query;
+				let models = state.fixtures.models;
+				if (q.provider) models = models.filter((m) => m.provider === q.provider);
+				if (q.tier) models = models.filter((m) => m.tier === q.tier);
+				if (q.featured === 'true') models = models.filter((m) => m.isFeatured);
+				return json(200, { models, total: models.length });
+			}],
+			['POST', /^\/models\/estimate$/, (req) => {
+				const { modelId, inputTokens = 0, outputTokens = 0 } = req.body || {};
+				const model = state.fixtures.models.find((m) => m.modelId === modelId);
+				if (!model) return notFound(`Model not found: ${modelId}`);
+				const inputCost = (inputTokens / 1e6) * (model.pricing.effectiveInput ?? model.pricing.input);
+				const outputCost = (outputTokens / 1e6) * (model.pricing.effectiveOutput ?? model.pricing.output);
+				return json(200, { inputCost, outputCost, total: inputCost + outputCost, currency: 'USDC' });
+			}],
+			['GET', /^\/collections$/, () => json(200, { collections: state.fixtures.collections })],
+			['GET', /^\/collection\/([^/]+)$/, (req, match) => {
+				const slug = decodeURIComponent(match[1]);
+				const collection = state.fixtures.collections.find((c) => c.slug === slug || c.id === slug);
+				return collection ? json(200, { collection }) : notFound('Collection not found');
+			}],
+			['GET', /^\/wallet\/balance$/, () => json(200, { wallet: state.fixtures.wallet })],
+			['GET', /^\/account\/stats$/, () => json(200, { stats: state.fixtures.stats })],
+			['GET', /^\/account\/runs$/, (req) => {
+				const { page, total, limit, offset } = pick(state.fixtures.runs, req.query);
+				return json(200, { runs: page, total, limit, offset });
+			}],
+		],
+		router: [
+			['GET', /^\/health$/, () => json(200, { status: 'ok' })],
+			['POST', /^\/run$/, (req) => withIdempotency(req, () => executeRun(req.body || {}))],
+			['POST', /^\/run\/async$/, (req) => withIdempotency(req, () => {
+				const result = executeRun(req.body || {});
+				if (result.status !== 200) return result;
+				const runId = result.body.runId;
+				const run = {
+					...result.body,
+					glyphSlug: req.body.glyphSlug,
+					modelId: req.body.modelId,
+					callbackUrl: req.body.callbackUrl,
+					pollsRemaining: 1,
+				};
+				state.asyncRuns.set(runId, run);
+				if (run.callbackUrl) scheduleCallback(run);
+				return json(202, {
+					accepted: true,
+					runId,
+					status: 'processing',
+					statusUrl: `/run/status/${runId}`,
+					message: 'Execution started',
+					glyphVersion: run.glyphVersion,
+				});
+			})],
+			['GET', /^\/run\/status\/([^/]+)$/, (req, match) => {
+				const run = state.asyncRuns.get(match[1]);
+				if (!run) return notFound('Run not found');
+				if (run.pollsRemaining > 0 && !run.cancelled) {
+					run.pollsRemaining -= 1;
+					return json(200, { runId: run.runId, status: 'processing', step: 'executing', progress: 50 });
+				}
+				return json(200, getRunStatusBody(run));
+			}],
+			['POST', /^\/files$/, (req) => {
+				const { fileName = 'file', mimeType = 'application/octet-stream', data = '' } = req.body || {};
+				const fileId = `file_${state.files.size + 1}`;
+				state.files.set(fileId, { fileName, mimeType, data: Buffer.from(data, 'base64') });
+				return json(201, {
+					fileId,
+					url: `http://${req.headers.host}/router/files/${fileId}/${encodeURIComponent(fileName)}`,
+				});
+			}],
+			['GET', /^\/files\/([^/]+)(\/[^/]*)?$/, (req, match) => {
+				const file = state.files.get(match[1]);
+				if (!file) return notFound('File not found');
+				return { status: 200, body: file.data, headers: { 'content-type': file.mimeType } };
+			}],
+			['POST', /^\/run\/cancel\/([^/]+)$/, (req, match) => {
+				const run = state.asyncRuns.get(match[1]);
+				if (!run) return notFound('Run not found');
+				if (run.finished) {
+					return json(200, { runId: run.runId, cancelled: false, status: 'success', cost: run.cost, message: 'The run already finished' });
+				}
+				// Per-run services are charged when the run starts; token usage stops at cancellation
+				const glyph = findGlyph(run.glyphSlug);
+				run.cancelled = true;
+				return json(200, {
+					runId: run.runId,
+					cancelled: true,
+					status: 'cancelled',
+					cost: glyph?.pricing?.model === 'per-run' ? glyph.pricing.amount : 0,
+					message: 'The run was cancelled',
+				});
+			}],
+		],
+		proxy: [
+			['GET', /^\/health$/, () => json(200, { status: 'ok' })],
+			['POST', /^(\/n8n)?\/proxy$/, (req) => withIdempotency(req, () => {
+				const { target = {}, payment = {} } = req.body || {};
+				return json(200, {
+					statusCode: 200,
+					headers: { 'content-type': 'application/json' },
+					body: { ok: true, method: target.method, url: target.url, received: target.body ?? null },
+					payment: { paid: true, amount: Math.min(0.01, payment.maxPayment ?? 0.01), currency: 'USDC' },
+					policy: { allowed: true },
+				});
+			})],
+		],
+		paywall: [
+			['GET', /^\/health$/, () => json(200, { status: 'ok' })],
+			['POST', /^\/v1\/webhooks\/register$/, (req) => {
+				const checkoutId = `chk_mock_${state.webhooks.size + 1}`;
+				const registration = {
+					checkout_id: checkoutId,
+					checkout_url: `https://pay.example.test/c/${checkoutId}`,
+					webhook_secret: crypto.randomBytes(16).toString('hex'),
+				};
+				state.webhooks.set(checkoutId, { ...registration, request: req.body });
+				return json(200, registration);
+			}],
+			['DELETE', /^\/v1\/webhooks\/([^/]+)$/, (req, match) => {
+				if (!state.webhooks.delete(match[1])) return notFound('Checkout not found');
+				return json(200, { deleted: true });
+			}],
+		],
+	};
+
+	function route(req) {
+		for (const interceptor of state.interceptors) {
+			if (interceptor.times === 0) continue;
+			if (interceptor.method !== req.method) continue;
+			if (interceptor.service && interceptor.service !== req.service) continue;
+			if (!interceptor.path.test(req.path)) continue;
+			if (interceptor.times !== undefined) interceptor.times -= 1;
+			const response = typeof interceptor.response === 'function'
+				? interceptor.response(req)
+				: interceptor.response;
+			if (response) return response;
+		}
+
+		// Health checks and file downloads (signed URLs in production) need no API key
+		const isPublic = req.path === '/health' || (req.method === 'GET' && req.path.startsWith('/files/'));
+		if (!isPublic && !/^Bearer .+/.test(req.headers.authorization || '')) {
+			return json(401, { error: 'Unauthorized', code: 'AUTH_INVALID' });
+		}
+
+		for (const [method, pattern, handler] of routes[req.service] || []) {
+			const match = pattern.exec(req.path);
+			if (method === req.method && match) {
+				return handler(req, match);
+			}
+		}
+		return notFound(`No route for ${req.method} /${req.service}${req.path}`);
+	}
+
+	const server = http.createServer((incoming, outgoing) => {
+		let raw = '';
+		incoming.on('data', (chunk) => (raw += chunk));
+		incoming.on('end', () => {
+			const url = new URL(incoming.url, 'http://localhost');
+			const [, service = '', ...rest] = url.pathname.split('/');
+			let body;
+			try {
+				body = raw ? JSON.parse(raw) : undefined;
+			} catch {
+				body = raw;
+			}
+			const req = {
+				method: incoming.method,
+				service,
+				path: `/${rest.join('/')}`.replace(/\/$/, '') || '/',
+				query: Object.fromEntries(url.searchParams),
+				headers: incoming.headers,
+				body,
+			};
+			state.requests.push(req);
+
+			const response = route(req);
+			outgoing.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+			if (Buffer.isBuffer(response.body)) {
+				outgoing.end(response.body);
+				return;
+			}
+			outgoing.end(response.body === undefined ? '' : JSON.stringify(response.body));
+		});
+	});
+
+	return {
+		state,
+		get requests() {
+			return state.requests;
+		},
+
+		/**
+		 * Answer matching requests with a canned response (or handler) before the
+		 * regular routes. `times` limits how often the interceptor applies.
+		 */
+		intercept(method, service, pathPattern, response, times) {
+			state.interceptors.push({
+				method,
+				service,
+				path: pathPattern instanceof RegExp ? pathPattern : new RegExp(`^${pathPattern}$`),
+				response,
+				times,
+			});
+		},
+
+		reset() {
+			state.fixtures = loadFixtures();
+			state.requests.length = 0;
+			state.interceptors.length = 0;
+			state.idempotency.clear();
+			state.asyncRuns.clear();
+			state.webhooks.clear();
+			state.files.clear();
+			state.runCounter = 0;
+			clearCallbacks();
+			state.callbacks.length = 0;
+			state.callbackDelayMs = 20;
+			state.dropCallbacks = false;
+		},
+
+		start(port = 0) {
+			return new Promise((resolve) => {
+				server.listen(port, '127.0.0.1', () => {
+					const base = `http://127.0.0.1:${server.address().port}`;
+					resolve({
+						url: base,
+						coreUrl: `${base}/core`,
+						routerUrl: `${base}/router`,
+						smartProxyUrl: `${base}/proxy`,
+						paywallUrl: `${base}/paywall`,
+					});
+				});
+			});
+		},
+
+		stop() {
+			clearCallbacks();
+			return new Promise((resolve) => server.close(() => resolve()));
+		},
+	};
+}
+
+module.exports = { createMockServer, loadFixtures };
+
+if (require.main === module) {
+	const port = Number(process.argv[2] || process.env.PORT || 4010);
+	const mock = createMockServer();
+	mock.start(port).then((urls) => {
+		console.log('xpay✦ mock server listening');
+		console.log(`   Core:        ${urls.coreUrl}`);
+		console.log(`   Router:      ${urls.routerUrl}`);
+		console.log(`   Smart Proxy: ${urls.smartProxyUrl}`);
+		console.log(`   Paywall:     ${urls.paywallUrl}`);
+	});
+}
@@ -0,0 +1,141 @@
+import * as crypto from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+
+import { XPayChargePerUse } from '../../nodes/XPayChargePerUse/XPayChargePerUse.node';
+import { createMockServer, type MockServerUrls } from '../mock-server/server';
+import { createHookContext, createWebhookContext, mockCredentials } from '../helpers';
+
+describe('XPayChargePerUse', () => {
+	const mock = createMockServer();
+	const node = new XPayChargePerUse();
+	const parameters = {
+		productName: 'SEO Audit',
+		description: 'Full audit of one website',
+		amount: 5,
+		pricingModel: 'flat',
+		environment: 'staging',
+		walletType: 'default',
+		fields: { fieldValues: [{ name: 'url', label: 'Website', type: 'url', required: true }] },
+		options: { retryDelay: 1 },
+	};
+	let urls: MockServerUrls;
+
+	beforeAll(async () => {
+		urls = await mock.start();
+		jest.spyOn(console, 'log').mockImplementation(() => undefined);
+		jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+	});
+
+	afterAll(async () => {
+		jest.restoreAllMocks();
+		await mock.stop();
+	});
+
+	beforeEach(() => mock.reset());
+
+	function hookContext(staticData: IDataObject, overrides: Record<string, any> = {}) {
+		return createHookContext(node, {
+			credentials: mockCredentials(urls),
+			parameters: { ...parameters, ...overrides },
+			staticData,
+		});
+	}
+
+	describe('webhook lifecycle', () => {
+		it('registers the checkout on activation and removes it on deactivation', async () => {
+			const staticData: IDataObject = {};
+			const { checkExists, create, delete: remove } = node.webhookMethods.default;
+
+			expect(await checkExists.call(hookContext(staticData))).toBe(false);
+			expect(await create.call(hookContext(staticData))).toBe(true);
+
+			expect(staticData).toMatchObject({ checkoutId: 'chk_mock_1', environment: 'staging' });
+			expect(await checkExists.call(hookContext(staticData))).toBe(true);
+			expect(mock.requests[0]).toMatchObject({ service: 'paywall', method: 'POST', path: '/v1/webhooks/register' });
+			expect(mock.requests[0].body).toMatchObject({
+				callback_url: 'https://n8n.example.test/webhook/abc/webhook',
+				config: { product_name: 'SEO Audit', price: 5, network: 'base-sepolia', test_mode: false, pricing_model: 'flat' },
+			});
+
+			expect(await remove.call(hookContext(staticData))).toBe(true);
+			expect(mock.requests[1]).toMatchObject({ method: 'DELETE', path: '/v1/webhooks/chk_mock_1' });
+			expect(staticData.checkoutId).toBeUndefined();
+		});
+
+		it('falls back to local test mode when registration fails', async () => {
+			mock.intercept('POST', 'paywall', '/v1/webhooks/register', { status: 502, body: { error: 'Bad gateway' } });
+			const staticData: IDataObject = {};
+
+			await node.webhookMethods.default.create.call(hookContext(staticData));
+
+			expect(staticData).toMatchObject({ checkoutId: 'local-test', webhookSecret: 'test-secret' });
+			// Registration is a non-idempotent POST, so it is not retried
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('rejects an invalid custom wallet address', async () => {
+			await expect(
+				node.webhookMethods.default.create.call(
+					hookContext({}, { walletType: 'custom', customWalletAddress: '0x123' }),
+				),
+			).rejects.toMatchObject({ xpayCode: 'INVALID_PARAMETER' });
+		});
+	});
+
+	describe('webhook requests', () => {
+		const secret = 'whsec_test';
+		const payment = { payment: { amount: 5, txHash: '0xabc', payer: '0xpayer' }, input: { url: 'https://example.com' } };
+
+		function sign(body: IDataObject, timestamp: number) {
+			return crypto.createHmac('sha256', secret).update(`${timestamp}.${JSON.stringify(body)}`).digest('hex');
+		}
+
+		function webhookContext(options: { body?: IDataObject; headers?: IDataObject; method?: string; webhookName?: string }) {
+			return createWebhookContext(node, {
+				parameters,
+				staticData: { checkoutId: 'chk_1', checkoutUrl: 'https://pay.example.test/c/chk_1', webhookSecret: secret },
+				...options,
+			});
+		}
+
+		it('serves the checkout info page on GET', async () => {
+			const response = await node.webhook.call(webhookContext({ method: 'GET', webhookName: 'setup' }));
+
+			expect(response.webhookResponse.status).toBe(200);
+			expect(response.webhookResponse.body).toContain('https://pay.example.test/c/chk_1');
+		});
+
+		it('returns the form URL for an empty POST', async () => {
+			const response = await node.webhook.call(webhookContext({ body: {} }));
+
+			expect(response.webhookResponse.body).toMatchObject({ form_url: 'https://pay.example.test/c/chk_1', test_mode: false });
+			expect(response.workflowData).toBeUndefined();
+		});
+
+		it('starts the workflow for a correctly signed payment', async () => {
+			const timestamp = Math.floor(Date.now() / 1000);
+			const response = await node.webhook.call(
+				webhookContext({
+					body: payment,
+					headers: { 'x-xpay-signature': `sha256=${sign(payment, timestamp)}`, 'x-xpay-timestamp': String(timestamp) },
+				}),
+			);
+
+			expect(response.workflowData![0][0].json).toMatchObject({
+				payment: { amount: 5, txHash: '0xabc', payer: '0xpayer', currency: 'USDC' },
+				input: { url: 'https://example.com' },
+				metadata: { checkoutId: 'chk_1' },
+			});
+		});
+
+		it('rejects a payment with an invalid signature', async () => {
+			const timestamp = Math.floor(Date.now() / 1000);
+			const response = await node.webhook.call(
+				webhookContext({ body: payment, headers: { 'x-xpay-signature': 'sha256=deadbeef', 'x-xpay-timestamp': String(timestamp) } }),
+			);
+
+			expect(response.webhookResponse.status).toBe(401);
+			expect(response.workflowData).toBeUndefined();
+		});
+	});
+});
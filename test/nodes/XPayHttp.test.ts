@@ -0,0 +1,87 @@
+import { XPayHttp } from '../../nodes/XPayHttp/XPayHttp.node';
+import { createMockServer, type MockServerUrls } from '../mock-server/server';
+import { createExecuteContext, mockCredentials, type ContextOptions } from '../helpers';
+
+describe('XPayHttp', () => {
+	const mock = createMockServer();
+	const node = new XPayHttp();
+	let urls: MockServerUrls;
+
+	beforeAll(async () => {
+		urls = await mock.start();
+	});
+
+	afterAll(() => mock.stop());
+
+	beforeEach(() => mock.reset());
+
+	async function execute(parameters: Record<string, any>, options: ContextOptions = {}) {
+		const context = createExecuteContext(node, {
+			credentials: mockCredentials(urls),
+			...options,
+			parameters: {
+				headers: {},
+				queryParameters: {},
+				paymentSettings: {},
+				...parameters,
+				options: { retryDelay: 1, ...parameters.options },
+			},
+		});
+		const [output] = await node.execute.call(context);
+		return output;
+	}
+
+	it('sends the request through the Smart Proxy', async () => {
+		const [item] = await execute({
+			method: 'POST',
+			url: 'https://api.example.com/enrich',
+			authentication: 'bearer',
+			bearerToken: 'target-token',
+			bodyContentType: 'json',
+			bodyJson: '{"domain":"example.com"}',
+			queryParameters: { parameter: [{ name: 'v', value: '2' }] },
+			paymentSettings: { maxPayment: 0.25 },
+		});
+
+		expect(item.json).toMatchObject({ ok: true, url: 'https://api.example.com/enrich', received: { domain: 'example.com' } });
+		expect(item.json._xpay).toMatchObject({ payment: { paid: true }, replayed: false });
+		expect(mock.requests[0]).toMatchObject({ service: 'proxy', path: '/proxy' });
+		expect(mock.requests[0].body).toMatchObject({
+			target: {
+				method: 'POST',
+				headers: { Authorization: 'Bearer target-token', 'Content-Type': 'application/json' },
+				queryParams: { v: '2' },
+			},
+			payment: { autoPay402: true, maxPayment: 0.25, failOnLimit: true },
+		});
+	});
+
+	it('returns the full response when requested', async () => {
+		const [item] = await execute({ method: 'GET', url: 'https://api.example.com/data', authentication: 'none', options: { fullResponse: true } });
+
+		expect(item.json).toMatchObject({ statusCode: 200, body: { ok: true }, payment: { paid: true }, policy: { allowed: true } });
+	});
+
+	it('retries a failed proxy call only because it carries an idempotency key', async () => {
+		mock.intercept('POST', 'proxy', '/proxy', { status: 502, body: { error: 'Bad gateway' } }, 1);
+
+		const [item] = await execute({
+			method: 'GET',
+			url: 'https://api.example.com/data',
+			authentication: 'none',
+			paymentSettings: { idempotencyKey: 'order-42' },
+		});
+
+		expect(item.json._xpay).toMatchObject({ idempotencyKey: 'order-42' });
+		expect(mock.requests).toHaveLength(2);
+		expect(mock.requests.map((r) => r.headers['idempotency-key'])).toEqual(['order-42', 'order-42']);
+	});
+
+	it('maps policy rejections to POLICY_LIMIT_EXCEEDED', async () => {
+		mock.intercept('POST', 'proxy', '/proxy', { status: 403, body: { error: 'Daily spending limit reached', code: 'POLICY_DAILY_LIMIT' } });
+
+		const [item] = await execute({ method: 'GET', url: 'https://api.example.com/data', authentication: 'none' }, { continueOnFail: true });
+
+		expect(item.json).toMatchObject({ code: 'POLICY_LIMIT_EXCEEDED', statusCode: 403, upstreamCode: 'POLICY_DAILY_LIMIT' });
+	});
+});
@@ -0,0 +1,2096 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { IDataObject } from 'n8n-workflow';
+
+import { XPayPayPerUse } from '../../nodes/XPayPayPerUse/XPayPayPerUse.node';
+import { DEFAULTS } from '../../shared/constants';
+import { clearCatalogCache } from '../../shared/cache';
+import { toResourceMapperField } from '../../shared/schema';
+import { createRedisStandIn } from '../mock-server/redis';
+import { createMockServer, type MockServerUrls } from '../mock-server/server';
+import {
+	createExecuteContext,
+	createLoadOptionsContext,
+	createWebhookContext,
+	mockCredentials,
+	type ContextOptions,
+} from '../helpers';
+
+describe('XPayPayPerUse', () => {
+	const mock = createMockServer();
+	const node = new XPayPayPerUse();
+	let urls: MockServerUrls;
+	const pollingInterval = DEFAULTS.POLLING_INTERVAL_MS;
+
+	beforeAll(async () => {
+		urls = await mock.start();
+		DEFAULTS.POLLING_INTERVAL_MS = 5;
+	});
+
+	afterAll(async () => {
+		DEFAULTS.POLLING_INTERVAL_MS = pollingInterval;
+		await mock.stop();
+	});
+
+	const runRequest = () => mock.requests.find((r) => r.path === '/run')!;
+
+	beforeEach(async () => {
+		mock.reset();
+		await clearCatalogCache();
+	});
+
+	async function execute(parameters: Record<string, any>, options: ContextOptions = {}) {
+		const context = createExecuteContext(node, {
+			credentials: mockCredentials(urls),
+			...options,
+			parameters: { requestOptions: { retryDelay: 1 }, ...parameters },
+		});
+		const [output] = await node.execute.call(context);
+		return output;
+	}
+
+	describe('discover', () => {
+		it('searches services by keyword', async () => {
+			const [item] = await execute({ resource: 'discover', operation: 'search', searchQuery: 'lead', filters: {} });
+
+			expect(item.json.query).toBe('lead');
+			expect(item.json.services).toHaveLength(1);
+			expect((item.json.services as any[])[0]).toMatchObject({ serviceSlug: 'lead-scorer', serviceId: 'glyph_002' });
+			expect(mock.requests[0]).toMatchObject({ service: 'core', path: '/glyphs', query: { search: 'lead' } });
+		});
+
+		it('gets a single service', async () => {
+			const [item] = await execute({ resource: 'discover', operation: 'getService', serviceSlug: 'account-intel' });
+
+			expect(item.json.service).toMatchObject({ name: 'Account Intel', serviceSlug: 'account-intel' });
+		});
+
+		it('browses by tags with filters', async () => {
+			const [item] = await execute({
+				resource: 'discover',
+				operation: 'browseByTags',
+				tags: 'sdr, legal',
+				filters: { verified: true, limit: 10 },
+			});
+
+			expect(item.json.tags).toEqual(['sdr', 'legal']);
+			expect((item.json.services as any[]).map((s) => s.slug)).toEqual(['account-intel', 'lead-scorer']);
+			expect(mock.requests[0].query).toEqual({ tags: 'sdr,legal', verified: 'true', limit: '10' });
+		});
+
+		// Pages of 3 (or 1) services, so the 4 fixtures span several pages
+		const withPageSize = async <T>(pageSize: number, run: () => Promise<T>): Promise<T> => {
+			const defaultPageSize = DEFAULTS.PAGINATION_PAGE_SIZE;
+			DEFAULTS.PAGINATION_PAGE_SIZE = pageSize;
+			try {
+				return await run();
+			} finally {
+				DEFAULTS.PAGINATION_PAGE_SIZE = defaultPageSize;
+			}
+		};
+
+		it('pages through all results, ignoring Limit', async () => {
+			const [item] = await withPageSize(3, () =>
+				execute({
+					resource: 'discover',
+					operation: 'search',
+					searchQuery: '',
+					returnAll: true,
+					filters: { limit: 1 },
+				}),
+			);
+
+			expect((item.json.services as any[]).map((s) => s.slug)).toEqual([
+				'account-intel',
+				'lead-scorer',
+				'contract-summarizer',
+				'legacy-translator',
+			]);
+			expect(item.json.total).toBe(4);
+			expect(item.json.truncated).toBeUndefined();
+			expect(mock.requests.map((r) => r.query)).toEqual([
+				{ limit: '3', offset: '0' },
+				{ limit: '3', offset: '3' },
+			]);
+		});
+
+		it('starts paging at the given offset', async () => {
+			const [item] = await withPageSize(1, () =>
+				execute({
+					resource: 'discover',
+					operation: 'browseByTags',
+					tags: 'sdr, legal, writing',
+					returnAll: true,
+					filters: { offset: 1 },
+				}),
+			);
+
+			expect((item.json.services as any[]).map((s) => s.slug)).toEqual(['lead-scorer', 'contract-summarizer', 'legacy-translator']);
+			expect(mock.requests.map((r) => r.query.offset)).toEqual(['1', '2', '3']);
+		});
+
+		it('flags results cut off at the page limit', async () => {
+			const maxPages = DEFAULTS.PAGINATION_MAX_PAGES;
+			DEFAULTS.PAGINATION_MAX_PAGES = 2;
+			try {
+				const [item] = await withPageSize(1, () =>
+					execute({ resource: 'discover', operation: 'search', searchQuery: '', returnAll: true, filters: {} }),
+				);
+
+				expect(item.json.services).toHaveLength(2);
+				expect(item.json.total).toBe(4);
+				expect(item.json.truncated).toBe(true);
+			} finally {
+				DEFAULTS.PAGINATION_MAX_PAGES = maxPages;
+			}
+		});
+
+		it('splits results into one item per service', async () => {
+			const output = await execute({
+				resource: 'discover',
+				operation: 'browseByType',
+				serviceType: 'prompt',
+				splitIntoItems: true,
+				filters: {},
+			});
+
+			expect(output.map((item) => item.json.serviceSlug)).toEqual(['contract-summarizer', 'legacy-translator']);
+			expect(output.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 0 }]);
+		});
+
+		it('browses by type', async () => {
+			const [item] = await execute({ resource: 'discover', operation: 'browseByType', serviceType: 'prompt', filters: {} });
+
+			expect(item.json.type).toBe('prompt');
+			expect(item.json.total).toBe(2);
+		});
+
+		describe('recommend', () => {
+			it('ranks services with score explanations', async () => {
+				const [item] = await execute({ resource: 'discover', operation: 'recommend', searchQuery: '' });
+
+				expect((item.json.recommendations as any[]).map((r) => [r.rank, r.serviceSlug])).toEqual([
+					[1, 'lead-scorer'],
+					[2, 'account-intel'],
+					[3, 'contract-summarizer'],
+				]);
+				expect((item.json.recommendations as any[])[0]).toMatchObject({
+					serviceId: 'glyph_002',
+					name: 'Lead Scorer',
+					scores: { successRate: 0.995, latency: 1, price: 1, verified: 1 },
+					explanation: expect.arrayContaining(['success rate 99.5% → 0.995 × 3', 'price 0.01 USDC per run → 1 × 2']),
+				});
+				expect(item.json).toMatchObject({
+					candidates: 4,
+					excluded: [{ serviceSlug: 'legacy-translator', reasons: ['status is deprecated'] }],
+					weights: { successRate: 3, latency: 2, rating: 2, price: 2, verified: 1 },
+				});
+				expect(mock.requests[0]).toMatchObject({ path: '/glyphs', query: { limit: String(DEFAULTS.PAGINATION_PAGE_SIZE), offset: '0' } });
+			});
+
+			it('applies hard constraints and weights', async () => {
+				const output = await execute({
+					resource: 'discover',
+					operation: 'recommend',
+					searchQuery: '',
+					recommendWeights: { price: 0 },
+					recommendConstraints: { maxPrice: 0.05, minSuccessRate: 0.95, requiredTags: 'sdr' },
+					splitIntoItems: true,
+				});
+
+				expect(output.map((item) => item.json.serviceSlug)).toEqual(['lead-scorer', 'account-intel']);
+				expect(output[0].json.explanation).not.toContainEqual(expect.stringMatching(/^price /));
+			});
+
+			it('reports why services were excluded and limits the results', async () => {
+				const [item] = await execute({
+					resource: 'discover',
+					operation: 'recommend',
+					searchQuery: '',
+					recommendLimit: 1,
+					recommendConstraints: { maxPrice: 0.02 },
+				});
+
+				expect((item.json.recommendations as any[]).map((r) => r.serviceSlug)).toEqual(['lead-scorer']);
+				expect(item.json.excluded).toEqual([
+					{ serviceSlug: 'account-intel', reasons: ['price 0.05 USDC is above the max price of 0.02 USDC'] },
+					{ serviceSlug: 'contract-summarizer', reasons: ['price is not fixed (per-token)'] },
+					{ serviceSlug: 'legacy-translator', reasons: ['status is deprecated'] },
+				]);
+			});
+
+			it('rejects weights that are all 0', async () => {
+				await expect(
+					execute({
+						resource: 'discover',
+						operation: 'recommend',
+						searchQuery: '',
+						recommendWeights: { successRate: 0, latency: 0, rating: 0, price: 0, verified: 0 },
+					}),
+				).rejects.toThrow('Recommend weights must be 0 or more, with at least one above 0');
+			});
+		});
+	});
+
+	describe('collection', () => {
+		const servicesOf = (item: { json: Record<string, any> }) => (item.json.services as any[]).map((s) => s.serviceSlug);
+
+		it('lists collections', async () => {
+			const [item] = await execute({ resource: 'collection', operation: 'listCollections' });
+
+			expect((item.json.collections as any[]).map((c) => c.slug)).toEqual(['sdr-starter', 'legal-desk', 'writing-room']);
+			expect(item.json.total).toBe(3);
+		});
+
+		it('lists featured collections as separate items', async () => {
+			const output = await execute({ resource: 'collection', operation: 'listCollections', featuredOnly: true, splitIntoItems: true });
+
+			expect(output.map((item) => item.json.slug)).toEqual(['sdr-starter']);
+		});
+
+		it('gets a collection', async () => {
+			const [item] = await execute({ resource: 'collection', operation: 'getCollection', collectionSlug: 'legal-desk' });
+
+			expect(item.json.collection).toMatchObject({ name: 'Legal Desk', collectionType: 'tag_based' });
+		});
+
+		it('resolves curated glyph IDs in order', async () => {
+			const [item] = await execute({ resource: 'collection', operation: 'listCollectionServices', collectionSlug: 'sdr-starter' });
+
+			expect(item.json.collection).toEqual({ id: 'col_001', slug: 'sdr-starter', name: 'SDR Starter Pack', collectionType: 'curated' });
+			expect(servicesOf(item)).toEqual(['account-intel', 'lead-scorer']);
+			expect(item.json.missingGlyphIds).toEqual([]);
+		});
+
+		it('resolves tag-based collections from the catalog', async () => {
+			const [item] = await execute({ resource: 'collection', operation: 'listCollectionServices', collectionSlug: 'legal-desk' });
+
+			expect(servicesOf(item)).toEqual(['contract-summarizer']);
+			expect(mock.requests.find((r) => r.path === '/glyphs')?.query).toMatchObject({ tags: 'legal' });
+		});
+
+		it('puts curated services first in hybrid collections', async () => {
+			const [item] = await execute({ resource: 'collection', operation: 'listCollectionServices', collectionSlug: 'writing-room' });
+
+			expect(servicesOf(item)).toEqual(['lead-scorer', 'contract-summarizer', 'legacy-translator']);
+		});
+
+		it('reports curated services that no longer exist', async () => {
+			mock.intercept('GET', 'core', '/glyph/glyph_002', { status: 404, body: { error: 'Glyph not found' } });
+
+			const [item] = await execute({ resource: 'collection', operation: 'listCollectionServices', collectionSlug: 'sdr-starter' });
+
+			expect(servicesOf(item)).toEqual(['account-intel']);
+			expect(item.json.missingGlyphIds).toEqual(['glyph_002']);
+		});
+	});
+
+	describe('run', () => {
+		const runParameters = {
+			resource: 'run',
+			runServiceSlug: 'account-intel',
+			runModelId: 'gpt-4o-mini',
+			inputMode: 'keyValue',
+			inputs: { inputValues: [{ key: 'company_name', value: 'Example Corp' }, { key: 'url', value: 'https://example.com' }] },
+			runOptions: {},
+		};
+
+		it('runs a service synchronously', async () => {
+			const [item] = await execute({ ...runParameters, operation: 'runSync' });
+
+			expect(item.json).toMatchObject({
+				status: 'completed',
+				cost: 0.05,
+				serviceSlug: 'account-intel',
+				modelId: 'gpt-4o-mini',
+				replayed: false,
+			});
+			expect(item.json.output).toMatchObject({ company: 'Example Corp' });
+			expect(runRequest().body).toEqual({
+				glyphSlug: 'account-intel',
+				modelId: 'gpt-4o-mini',
+				inputs: { company_name: 'Example Corp', url: 'https://example.com' },
+			});
+		});
+
+		it('sends a stable idempotency key and reports replays', async () => {
+			const [first] = await execute({ ...runParameters, operation: 'runSync' });
+			const [second] = await execute({ ...runParameters, operation: 'runSync' });
+
+			expect(runRequest().headers['idempotency-key']).toBe(first.json.idempotencyKey);
+			expect(second.json.idempotencyKey).toBe(first.json.idempotencyKey);
+			expect(second.json.replayed).toBe(true);
+			expect(second.json.runId).toBe(first.json.runId);
+		});
+
+		it('uses a different key for another execution', async () => {
+			const [first] = await execute({ ...runParameters, operation: 'runSync' });
+			const [second] = await execute({ ...runParameters, operation: 'runSync' }, { executionId: 'exec-2' });
+
+			expect(second.json.idempotencyKey).not.toBe(first.json.idempotencyKey);
+			expect(second.json.replayed).toBe(false);
+		});
+
+		it('validates inputs against the service schema before paying', async () => {
+			const [item] = await execute(
+				{
+					...runParameters,
+					operation: 'runSync',
+					inputs: { inputValues: [{ key: 'url', value: 'example.com' }, { key: 'depth', value: 'exhaustive' }] },
+				},
+				{ continueOnFail: true },
+			);
+
+			expect(item.json).toMatchObject({
+				code: 'INVALID_INPUT',
+				fieldErrors: [
+					{ field: 'company_name', label: 'Company Name', rule: 'required', message: 'company_name is required' },
+					{ field: 'url', rule: 'url' },
+					{ field: 'depth', rule: 'option', message: 'depth must be one of: quick, standard, deep' },
+				],
+			});
+			expect(runRequest()).toBeUndefined();
+		});
+
+		describe('compare models', () => {
+			const compareParameters = {
+				...runParameters,
+				operation: 'compareModels',
+				compareModelIds: ['gpt-4o-mini', 'claude-3.5-haiku', 'gpt-4o'],
+				compareOptions: { scoreSimilarity: true },
+			};
+
+			it('runs the service on every model and compares the results side by side', async () => {
+				mock.intercept('POST', 'router', '/run', (req: any) =>
+					req.body.modelId === 'gpt-4o'
+						? { status: 200, body: { runId: 'run_x', success: true, output: 'Something else entirely', cost: 0.05, latencyMs: 9 } }
+						: undefined);
+
+				const [item] = await execute(compareParameters);
+
+				const comparison = item.json.comparison as any[];
+				expect(comparison.map((row) => [row.modelId, row.success, row.cost])).toEqual([
+					['gpt-4o-mini', true, 0.05],
+					['claude-3.5-haiku', true, 0.05],
+					['gpt-4o', true, 0.05],
+				]);
+				expect(comparison[0]).toMatchObject({ serviceSlug: 'account-intel', status: 'completed', output: { company: 'Example Corp' } });
+				expect(comparison[0].latencyMs).toEqual(expect.any(Number));
+				expect(comparison[0].similarity).toBeGreaterThan(comparison[2].similarity);
+				expect(item.json.summary).toMatchObject({ models: 3, succeeded: 3, failed: 0, cheapestModelId: 'gpt-4o-mini', totalCost: 0.15 });
+				expect(mock.requests.filter((r) => r.path === '/run').map((r) => r.body.modelId).sort()).toEqual([
+					'claude-3.5-haiku',
+					'gpt-4o',
+					'gpt-4o-mini',
+				]);
+			});
+
+			it('reports a failing model in its row', async () => {
+				mock.intercept('POST', 'router', '/run', (req: any) =>
+					req.body.modelId === 'claude-3.5-haiku' ? { status: 400, body: { error: 'Model not supported' } } : undefined);
+
+				const [item] = await execute(compareParameters);
+
+				const comparison = item.json.comparison as any[];
+				expect(comparison[1]).toMatchObject({ modelId: 'claude-3.5-haiku', success: false, status: 'error', cost: null, similarity: null });
+				expect(item.json.summary).toMatchObject({ succeeded: 2, failed: 1 });
+			});
+
+			it('outputs one item per model when splitting', async () => {
+				const output = await execute({ ...compareParameters, splitIntoItems: true });
+
+				expect(output.map((entry) => entry.json.modelId)).toEqual(['gpt-4o-mini', 'claude-3.5-haiku', 'gpt-4o']);
+			});
+
+			it('skips models whose estimate is over the max cost per run', async () => {
+				mock.state.fixtures.glyphs[0].pricing = { model: 'per-token', amount: 0, currency: 'USDC' };
+
+				const [item] = await execute({
+					...compareParameters,
+					compareOptions: { maxTokens: 900, maxCostPerRun: 0.005 },
+				});
+
+				const comparison = item.json.comparison as any[];
+				expect(comparison.map((row) => [row.modelId, row.status])).toEqual([
+					['gpt-4o-mini', 'completed'],
+					['claude-3.5-haiku', 'completed'],
+					['gpt-4o', 'over_budget'],
+				]);
+				expect(comparison[2].costReport).toMatchObject({ modelId: 'gpt-4o', maxCost: 0.005, actualCost: null });
+				expect(comparison[0].costReport).toMatchObject({ modelId: 'gpt-4o-mini', actualCost: comparison[0].cost });
+				expect(item.json.summary).toMatchObject({ succeeded: 2, failed: 0, skipped: 1 });
+				expect(mock.requests.filter((r) => r.path === '/run').map((r) => r.body.modelId)).toEqual(['gpt-4o-mini', 'claude-3.5-haiku']);
+			});
+
+			it('adds lifecycle warnings to the comparison and to every row', async () => {
+				const parameters = {
+					...compareParameters,
+					runServiceSlug: 'legacy-translator',
+					inputs: { inputValues: [{ key: 'text', value: 'Hello world' }, { key: 'target_language', value: 'fr' }] },
+				};
+
+				const [item] = await execute(parameters);
+				const rows = await execute({ ...parameters, splitIntoItems: true });
+
+				expect(item.json).toMatchObject({ serviceVersion: '1.0.0', warnings: [{ code: 'SERVICE_DEPRECATED' }] });
+				expect(rows.map((row) => (row.json.warnings as any[])?.[0]?.code)).toEqual([
+					'SERVICE_DEPRECATED',
+					'SERVICE_DEPRECATED',
+					'SERVICE_DEPRECATED',
+				]);
+				await expect(
+					execute({ ...parameters, compareOptions: { serviceChangeAction: 'error' } }),
+				).rejects.toMatchObject({ xpayCode: 'SERVICE_DEPRECATED' });
+				expect(mock.requests.filter((r) => r.path === '/run')).toHaveLength(6);
+			});
+
+			it('validates the inputs once before any model runs', async () => {
+				await expect(execute({ ...compareParameters, inputs: {} })).rejects.toMatchObject({ xpayCode: 'INVALID_INPUT' });
+				expect(mock.requests.filter((r) => r.path === '/run')).toHaveLength(0);
+			});
+		});
+
+		describe('model fallback', () => {
+			const overloaded = (...models: string[]) =>
+				mock.intercept('POST', 'router', /^\/run(\/async)?$/, (req: any) =>
+					models.includes(req.body.modelId) ? { status: 503, body: { error: 'Model overloaded' } } : undefined);
+			const fallbackParameters = {
+				...runParameters,
+				requestOptions: { retryDelay: 1, maxRetries: 0 },
+				runOptions: { fallbackModels: 'claude-3.5-sonnet, gpt-4o' },
+			};
+
+			it('retries the run on the next model and records every attempt', async () => {
+				overloaded('gpt-4o-mini');
+
+				const [item] = await execute({ ...fallbackParameters, operation: 'runSync' });
+
+				expect(item.json).toMatchObject({
+					status: 'completed',
+					modelId: 'claude-3.5-sonnet',
+					requestedModelId: 'gpt-4o-mini',
+					totalCost: 0.05,
+				});
+				expect(item.json.attempts).toEqual([
+					expect.objectContaining({ modelId: 'gpt-4o-mini', status: 'failed', cost: 0, statusCode: 503 }),
+					expect.objectContaining({ modelId: 'claude-3.5-sonnet', status: 'success', cost: 0.05, runId: 'run_mock_1' }),
+				]);
+				const keys = mock.requests.filter((r) => r.path === '/run').map((r) => r.headers['idempotency-key']);
+				expect(new Set(keys).size).toBe(2);
+			});
+
+			it('derives fallback idempotency keys from a custom key', async () => {
+				overloaded('gpt-4o-mini');
+
+				const [item] = await execute({
+					...fallbackParameters,
+					operation: 'runSync',
+					runOptions: { ...fallbackParameters.runOptions, idempotencyKey: 'lead-42' },
+				});
+
+				expect(item.json.idempotencyKey).toBe('lead-42-claude-3.5-sonnet');
+				expect(mock.requests.filter((r) => r.path === '/run').map((r) => r.headers['idempotency-key'])).toEqual([
+					'lead-42',
+					'lead-42-claude-3.5-sonnet',
+				]);
+			});
+
+			it('does not fall back on errors that are not retryable', async () => {
+				mock.intercept('POST', 'router', '/run', { status: 402, body: { error: 'Insufficient balance' } });
+
+				await expect(execute({ ...fallbackParameters, operation: 'runSync' })).rejects.toMatchObject({
+					xpayCode: 'PAYMENT_REQUIRED',
+				});
+				expect(mock.requests.filter((r) => r.path === '/run')).toHaveLength(1);
+			});
+
+			it('fails with the last error when every model fails', async () => {
+				overloaded('gpt-4o-mini', 'claude-3.5-sonnet', 'gpt-4o');
+
+				await expect(execute({ ...fallbackParameters, operation: 'runSync' })).rejects.toMatchObject({
+					xpayCode: 'SERVICE_FAILED',
+				});
+				expect(mock.requests.filter((r) => r.path === '/run').map((r) => r.body.modelId)).toEqual([
+					'gpt-4o-mini',
+					'claude-3.5-sonnet',
+					'gpt-4o',
+				]);
+			});
+
+			it('skips fallback models that are over budget', async () => {
+				overloaded('gpt-4o-mini');
+				mock.state.fixtures.glyphs[0].pricing = { model: 'per-token', amount: 0, currency: 'USDC' };
+
+				const [item] = await execute({
+					...fallbackParameters,
+					operation: 'runSync',
+					runOptions: { ...fallbackParameters.runOptions, maxCostPerRun: 0.01, maxTokens: 900 },
+				});
+
+				expect(item.json.modelId).toBe('gpt-4o');
+				expect((item.json.attempts as any[]).map((a) => [a.modelId, a.status])).toEqual([
+					['gpt-4o-mini', 'failed'],
+					['claude-3.5-sonnet', 'skipped'],
+					['gpt-4o', 'success'],
+				]);
+				expect(item.json.costReport).toMatchObject({ modelId: 'gpt-4o' });
+			});
+
+			it('falls back when an async run cannot be started', async () => {
+				overloaded('gpt-4o-mini');
+
+				const [item] = await execute({ ...fallbackParameters, operation: 'runAsync', waitForCompletion: true, pollingTimeout: 5 });
+
+				expect(item.json).toMatchObject({ status: 'completed', modelId: 'claude-3.5-sonnet', totalCost: 0.05 });
+				expect((item.json.attempts as any[]).map((a) => [a.modelId, a.status, a.cost])).toEqual([
+					['gpt-4o-mini', 'failed', 0],
+					['claude-3.5-sonnet', 'success', 0.05],
+				]);
+			});
+		});
+
+		describe('result cache', () => {
+			const cacheParameters = { ...runParameters, runOptions: { cacheResults: true } };
+			const paidRuns = () => mock.requests.filter((r) => r.path === '/run' || r.path === '/run/async').length;
+
+			it('returns a cached result for the same service, model and inputs', async () => {
+				const staticData = {};
+				const [first] = await execute({ ...cacheParameters, operation: 'runSync' }, { staticData });
+				const [second] = await execute({ ...cacheParameters, operation: 'runSync' }, { staticData, executionId: 'exec-2' });
+
+				expect(first.json).toMatchObject({ cached: false, cost: 0.05 });
+				expect(second.json).toMatchObject({
+					runId: first.json.runId,
+					status: 'completed',
+					output: first.json.output,
+					cost: 0,
+					cached: true,
+					cachedCost: 0.05,
+					modelId: 'gpt-4o-mini',
+				});
+				expect(paidRuns()).toBe(1);
+			});
+
+			it('runs again when the inputs or model differ', async () => {
+				const staticData = {};
+				await execute({ ...cacheParameters, operation: 'runSync' }, { staticData });
+				const [otherModel] = await execute(
+					{ ...cacheParameters, operation: 'runSync', runModelId: 'gpt-4o' },
+					{ staticData },
+				);
+
+				expect(otherModel.json.cached).toBe(false);
+				expect(paidRuns()).toBe(2);
+			});
+
+			it('keeps results of fallback models apart from results of the requested model', async () => {
+				const staticData = {};
+				const fallbackParameters = {
+					...cacheParameters,
+					operation: 'runSync',
+					requestOptions: { retryDelay: 1, maxRetries: 0 },
+					runOptions: { ...cacheParameters.runOptions, fallbackModels: 'claude-3.5-sonnet' },
+				};
+				mock.intercept('POST', 'router', '/run', { status: 503, body: { error: 'Model overloaded' } }, 1);
+				await execute(fallbackParameters, { staticData });
+				const [hit] = await execute(fallbackParameters, { staticData });
+				const [withoutFallback] = await execute({ ...cacheParameters, operation: 'runSync' }, { staticData });
+
+				expect(hit.json).toMatchObject({ cached: true, modelId: 'claude-3.5-sonnet', requestedModelId: 'gpt-4o-mini' });
+				expect(withoutFallback.json).toMatchObject({ cached: false, modelId: 'gpt-4o-mini' });
+				expect(paidRuns()).toBe(3);
+			});
+
+			it('does not cache failed runs', async () => {
+				const staticData = {};
+				mock.intercept('POST', 'router', '/run', { status: 200, body: { success: false, runId: 'run_x', error: 'Upstream failed', cost: 0 } }, 1);
+				await execute({ ...cacheParameters, operation: 'runSync' }, { staticData });
+				const [retry] = await execute({ ...cacheParameters, operation: 'runSync' }, { staticData });
+
+				expect(retry.json).toMatchObject({ status: 'completed', cached: false });
+				expect(paidRuns()).toBe(2);
+			});
+
+			it('does not share results between credentials', async () => {
+				const staticData = {};
+				await execute({ ...cacheParameters, operation: 'runSync' }, { staticData });
+				const [other] = await execute(
+					{ ...cacheParameters, operation: 'runSync' },
+					{ staticData, credentials: mockCredentials(urls, { apiKey: 'xpay_sk_other' }) },
+				);
+
+				expect(other.json.cached).toBe(false);
+				expect(paidRuns()).toBe(2);
+			});
+
+			it('shares async results through the file store', async () => {
+				const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xpay-results-'));
+				try {
+					const parameters = {
+						...runParameters,
+						operation: 'runAsync',
+						waitForCompletion: true,
+						pollingTimeout: 5,
+						runOptions: { cacheResults: true, resultCacheStore: 'file', resultCacheFile: path.join(directory, 'results.json') },
+					};
+					const [first] = await execute(parameters);
+					const [second] = await execute({ ...parameters, operation: 'runSync' });
+
+					expect(first.json).toMatchObject({ status: 'completed', cached: false });
+					expect(second.json).toMatchObject({ runId: first.json.runId, output: first.json.output, cost: 0, cached: true });
+					expect(paidRuns()).toBe(1);
+				} finally {
+					await fs.promises.rm(directory, { recursive: true, force: true });
+				}
+			});
+
+			it('still runs when the store cannot be read', async () => {
+				const [item] = await execute({
+					...runParameters,
+					operation: 'runSync',
+					runOptions: { cacheResults: true, resultCacheStore: 'file', resultCacheFile: os.tmpdir() },
+				});
+
+				expect(item.json).toMatchObject({ status: 'completed', cached: false });
+				expect(item.json.cacheError).toMatch(/^Result cache not read: /);
+			});
+
+			it('shares async results through the Redis store', async () => {
+				const redis = createRedisStandIn();
+				const redisUrl = await redis.start();
+				try {
+					const parameters = {
+						...runParameters,
+						operation: 'runAsync',
+						waitForCompletion: true,
+						pollingTimeout: 5,
+						runOptions: { cacheResults: true, resultCacheStore: 'redis', resultCacheRedisUrl: redisUrl, resultCacheTtl: 60 },
+					};
+					const [first] = await execute(parameters);
+					const [second] = await execute({ ...parameters, operation: 'runSync' });
+
+					expect(first.json).toMatchObject({ status: 'completed', cached: false });
+					expect(second.json).toMatchObject({ runId: first.json.runId, output: first.json.output, cost: 0, cached: true });
+					expect(paidRuns()).toBe(1);
+					expect(redis.state.commands.filter((command) => command[0] === 'SET')[0]).toEqual(
+						expect.arrayContaining(['PX', '60000']),
+					);
+				} finally {
+					await redis.stop();
+				}
+			});
+
+			it('still runs when the Redis store cannot be reached', async () => {
+				const [item] = await execute({
+					...runParameters,
+					operation: 'runSync',
+					runOptions: { cacheResults: true, resultCacheStore: 'redis', resultCacheRedisUrl: 'redis://127.0.0.1:1' },
+				});
+
+				expect(item.json).toMatchObject({ status: 'completed', cached: false });
+				expect(item.json.cacheError).toMatch(/^Result cache not read: /);
+			});
+
+			it('fails without a Redis URL', async () => {
+				await expect(
+					execute({ ...runParameters, operation: 'runSync', runOptions: { cacheResults: true, resultCacheStore: 'redis' } }),
+				).rejects.toThrow('No Redis URL set for the result cache');
+				expect(paidRuns()).toBe(0);
+			});
+		});
+
+		describe('wait for callback', () => {
+			const callbackParameters = {
+				...runParameters,
+				operation: 'runAsync',
+				waitForCompletion: true,
+				completionMode: 'callback',
+				pollingTimeout: 5,
+			};
+			// Stands in for n8n's resume URL: records the requests that would resume the execution
+			let resumeServer: http.Server;
+			let resumeUrl: string;
+			let resumeRequests: Array<{ query: IDataObject; body: IDataObject }>;
+			let onResumeRequest: (() => void) | undefined;
+
+			beforeAll(async () => {
+				resumeServer = http.createServer((req, res) => {
+					let body = '';
+					req.on('data', (chunk) => (body += chunk));
+					req.on('end', () => {
+						const url = new URL(req.url!, 'http://127.0.0.1');
+						resumeRequests.push({ query: Object.fromEntries(url.searchParams), body: JSON.parse(body || '{}') });
+						res.end('{}');
+						onResumeRequest?.();
+					});
+				});
+				await new Promise<void>((resolve) => resumeServer.listen(0, '127.0.0.1', resolve));
+				resumeUrl = `http://127.0.0.1:${(resumeServer.address() as { port: number }).port}/webhook-waiting/exec-1`;
+			});
+
+			afterAll(async () => {
+				await new Promise((resolve) => resumeServer.close(resolve));
+			});
+
+			beforeEach(() => {
+				resumeRequests = [];
+				onResumeRequest = undefined;
+			});
+
+			const nextResumeRequest = () =>
+				new Promise<{ query: IDataObject; body: IDataObject }>((resolve) => {
+					onResumeRequest = () => resolve(resumeRequests[resumeRequests.length - 1]);
+				});
+
+			async function resume(request: { query: IDataObject; body: IDataObject }, staticData: IDataObject) {
+				const context = createWebhookContext(node, {
+					credentials: mockCredentials(urls),
+					parameters: { requestOptions: { retryDelay: 1 } },
+					query: request.query,
+					body: request.body,
+					staticData,
+				});
+				return node.webhook.call(context);
+			}
+
+			it('waits for the run callback and resumes with the status from the router', async () => {
+				let waitTill: Date | undefined;
+				const startedAt = Date.now();
+				const staticData: IDataObject = {};
+				const resumeRequest = nextResumeRequest();
+				const [waiting] = await execute(callbackParameters, { resumeUrl, staticData, onWait: (date) => (waitTill = date) });
+
+				expect(waitTill!.getTime()).toBeGreaterThan(startedAt + 3600 * 1000);
+				const callbackUrl = mock.requests.find((r) => r.path === '/run/async')!.body.callbackUrl;
+				expect(callbackUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/webhook-waiting\/exec-1\?xpayWait=[0-9a-f-]{36}$/);
+				expect(Object.keys(staticData.xpayCallbackWaits as IDataObject)).toEqual([callbackUrl.split('=')[1]]);
+				// Passed on only if the wait ends without a resume
+				expect(waiting.json).toMatchObject({ status: 'timeout', runId: expect.stringMatching(/^run_mock_/) });
+
+				const { workflowData } = await resume(await resumeRequest, staticData);
+				const [[item]] = workflowData!;
+
+				expect(item.json).toMatchObject({
+					runId: mock.state.callbacks[0].runId,
+					status: 'completed',
+					cost: 0.05,
+					modelId: 'gpt-4o-mini',
+					resumedBy: 'callback',
+					polling: { polls: 1, pollErrors: 0 },
+				});
+				expect(item.json.output).toMatchObject({ company: 'Example Corp' });
+				expect(item.pairedItem).toEqual({ item: 0 });
+				expect(mock.requests.filter((r) => r.path.startsWith('/run/status/'))).toHaveLength(1);
+				expect(staticData.xpayCallbackWaits).toEqual({});
+			});
+
+			it('keeps waiting until every run is done and ignores the callback body', async () => {
+				mock.state.dropCallbacks = true;
+				mock.intercept('POST', 'router', '/run/async', { status: 400, body: { error: 'Bad request' } }, 1);
+				const slugs = ['account-intel', 'missing-service', 'lead-scorer', 'account-intel'];
+				const staticData: IDataObject = {};
+				await execute(
+					{ ...callbackParameters, runServiceSlug: (i: number) => slugs[i], runOptions: { validateInputs: false } },
+					{ items: slugs.map(() => ({ json: {} })), continueOnFail: true, resumeUrl, staticData },
+				);
+				const started = mock.requests.filter((r) => r.path === '/run/async' && r.body.callbackUrl);
+				const request = { query: { xpayWait: started[0].body.callbackUrl.split('=')[1] }, body: {} };
+
+				// Every run carries the callback; the first status check finds them still processing
+				expect(started).toHaveLength(3);
+				const forged = await resume(
+					{ ...request, body: { runId: 'run_mock_1', status: 'success', output: { forged: true }, cost: 0 } },
+					staticData,
+				);
+				expect(forged).toEqual({ webhookResponse: { received: true } });
+
+				const { workflowData } = await resume(request, staticData);
+				const [output] = workflowData!;
+
+				expect(output.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }, { item: 2 }, { item: 3 }]);
+				expect(output.filter((item) => item.json.resumedBy === 'callback')).toHaveLength(2);
+				expect(output[1].json.code).toBe('NOT_FOUND');
+				expect(output.filter((item) => item.json.error)).toHaveLength(2);
+				expect(JSON.stringify(output)).not.toContain('forged');
+			});
+
+			it('falls back to polling when no callback arrives', async () => {
+				mock.state.dropCallbacks = true;
+				mock.intercept('GET', 'router', /^\/run\/status\//, (req) => ({
+					status: 200,
+					body: { runId: req.path.split('/').pop(), status: 'processing' },
+				}), 1);
+				const staticData: IDataObject = {};
+				let resumeRequest = nextResumeRequest();
+				await execute({ ...callbackParameters, callbackTimeout: 0.05 }, { resumeUrl, staticData });
+				const request = await resumeRequest;
+
+				// The run is still processing: the fallback checks it once, keeps waiting and checks again later
+				resumeRequest = nextResumeRequest();
+				expect(await resume(request, staticData)).toEqual({ webhookResponse: { received: true } });
+				expect(mock.requests.filter((r) => r.path.startsWith('/run/status/'))).toHaveLength(1);
+
+				const retry = await resumeRequest;
+				const { workflowData } = await resume(retry, staticData);
+				const [[item]] = workflowData!;
+
+				expect([request.body, retry.body]).toEqual([{ fallback: true }, { fallback: true }]);
+				expect(mock.state.callbacks).toHaveLength(0);
+				expect(mock.requests.filter((r) => r.path.startsWith('/run/status/'))).toHaveLength(2);
+				expect(item.json).toMatchObject({ status: 'completed', cost: 0.05, resumedBy: 'polling' });
+				expect(staticData.xpayCallbackWaits).toEqual({});
+			});
+
+			it('reports runs still going when the polling timeout passes as timed out', async () => {
+				mock.state.dropCallbacks = true;
+				mock.intercept('GET', 'router', /^\/run\/status\//, (req) => ({
+					status: 200,
+					body: { runId: req.path.split('/').pop(), status: 'processing', partialOutput: 'Example' },
+				}));
+				const staticData: IDataObject = {};
+				let resumeRequest = nextResumeRequest();
+				await execute({ ...callbackParameters, callbackTimeout: 0.05, pollingTimeout: 0.05 }, { resumeUrl, staticData });
+
+				let response = await resume(await resumeRequest, staticData);
+				while (!response.workflowData) {
+					resumeRequest = nextResumeRequest();
+					response = await resume(await resumeRequest, staticData);
+				}
+				const [[item]] = response.workflowData;
+
+				expect(item.json).toMatchObject({ status: 'timeout', partialOutput: 'Example', resumedBy: 'polling' });
+			});
+
+			it('rejects resume requests for an unknown wait', async () => {
+				await expect(resume({ query: { xpayWait: 'forged' }, body: {} }, {})).rejects.toThrow(
+					'The resume request does not match a waiting run',
+				);
+			});
+		});
+
+		it('skips validation when disabled', async () => {
+			const [item] = await execute({ ...runParameters, operation: 'runAsync', waitForCompletion: false, inputs: {}, runOptions: { validateInputs: false } });
+
+			expect(item.json.status).toBe('processing');
+			expect(mock.requests.map((r) => r.path)).toEqual(['/glyph/account-intel', '/run/async']);
+		});
+
+		it('starts an async run without waiting', async () => {
+			const [item] = await execute({ ...runParameters, operation: 'runAsync', waitForCompletion: false });
+
+			expect(item.json).toMatchObject({ status: 'processing', statusUrl: expect.stringContaining('/run/status/') });
+		});
+
+		it('polls an async run until it completes', async () => {
+			const [item] = await execute({ ...runParameters, operation: 'runAsync', waitForCompletion: true, pollingTimeout: 5 });
+
+			expect(item.json).toMatchObject({ status: 'completed', cost: 0.05 });
+			expect(mock.requests.filter((r) => r.path.startsWith('/run/status/'))).toHaveLength(2);
+			expect(item.json.progressTimeline).toEqual([
+				expect.objectContaining({ status: 'processing', step: 'executing', progress: 50 }),
+				expect.objectContaining({ status: 'success' }),
+			]);
+			expect(item.json.polling).toMatchObject({ polls: 2, pollErrors: 0 });
+		});
+
+		it('keeps polling through transient status errors', async () => {
+			mock.intercept('GET', 'router', /^\/run\/status\//, { status: 503, body: { error: 'Unavailable' } }, 2);
+
+			const [item] = await execute({
+				...runParameters,
+				operation: 'runAsync',
+				waitForCompletion: true,
+				pollingTimeout: 5,
+				requestOptions: { maxRetries: 0 },
+			});
+
+			expect(item.json).toMatchObject({ status: 'completed', polling: { polls: 4, pollErrors: 2 } });
+		});
+
+		it('reports the last partial output when a run times out', async () => {
+			mock.intercept('GET', 'router', /^\/run\/status\//, (req) => ({
+				status: 200,
+				body: { runId: req.path.split('/').pop(), status: 'processing', step: 'drafting', progress: 40, partialOutput: 'Example Corp' },
+			}));
+
+			const [item] = await execute({
+				...runParameters,
+				operation: 'runAsync',
+				waitForCompletion: true,
+				pollingTimeout: 0.05,
+			});
+
+			expect(item.json).toMatchObject({
+				status: 'timeout',
+				error: 'Execution did not complete within 0.05 seconds',
+				partialOutput: 'Example Corp',
+				progressTimeline: [expect.objectContaining({ step: 'drafting', progress: 40 })],
+			});
+		});
+
+		it('runs batches concurrently and keeps the input order', async () => {
+			const slugs = ['account-intel', 'missing-service', 'lead-scorer', 'account-intel'];
+			const output = await execute(
+				{
+					...runParameters,
+					operation: 'runAsync',
+					waitForCompletion: true,
+					pollingTimeout: 5,
+					runServiceSlug: (i: number) => slugs[i],
+					runOptions: { validateInputs: false },
+					batching: { concurrency: 4 },
+				},
+				{ items: slugs.map(() => ({ json: {} })), continueOnFail: true },
+			);
+
+			expect(output.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }, { item: 2 }, { item: 3 }]);
+			expect(output.map((item) => item.json.serviceSlug ?? item.json.code)).toEqual([
+				'account-intel',
+				'NOT_FOUND',
+				'lead-scorer',
+				'account-intel',
+			]);
+			const paths = mock.requests.map((r) => r.path);
+			expect(paths.lastIndexOf('/run/async')).toBeLessThan(paths.findIndex((p) => p.startsWith('/run/status/')));
+		});
+
+		it('runs items one after another without batching', async () => {
+			await execute(
+				{ ...runParameters, operation: 'runAsync', waitForCompletion: true, pollingTimeout: 5, runOptions: { validateInputs: false } },
+				{ items: [{ json: {} }, { json: {} }] },
+			);
+
+			const paths = mock.requests.map((r) => r.path);
+			expect(paths.lastIndexOf('/run/async')).toBeGreaterThan(paths.findIndex((p) => p.startsWith('/run/status/')));
+		});
+
+		it('cancels a run and reports the cost it still incurred', async () => {
+			const [started] = await execute({ ...runParameters, operation: 'runAsync', waitForCompletion: false });
+			const [item] = await execute({ resource: 'run', operation: 'cancelRun', runId: started.json.runId });
+			const [status] = await execute({ resource: 'run', operation: 'getRunStatus', runId: started.json.runId });
+
+			expect(item.json).toEqual({
+				runId: started.json.runId,
+				cancelled: true,
+				status: 'cancelled',
+				cost: 0.05,
+				costIncurred: true,
+				message: 'The run was cancelled',
+			});
+			expect(mock.requests.at(-2)).toMatchObject({ method: 'POST', service: 'router', path: `/run/cancel/${started.json.runId}` });
+			expect(status.json.status).toBe('cancelled');
+		});
+
+		it('reports runs that already finished as not cancelled', async () => {
+			const [finished] = await execute({ ...runParameters, operation: 'runAsync', waitForCompletion: true, pollingTimeout: 5 });
+			const [item] = await execute({ resource: 'run', operation: 'cancelRun', runId: finished.json.runId });
+
+			expect(item.json).toMatchObject({ cancelled: false, status: 'success', cost: 0.05, costIncurred: true });
+		});
+
+		it('cancels runs that time out when enabled', async () => {
+			const stuck = (req: any) => ({ status: 200, body: { runId: req.path.split('/').pop(), status: 'processing' } });
+			mock.intercept('GET', 'router', /^\/run\/status\//, stuck);
+
+			const timeoutParameters = { ...runParameters, operation: 'runAsync', waitForCompletion: true, pollingTimeout: 0.05 };
+			const [kept] = await execute(timeoutParameters);
+			const [cancelled] = await execute({ ...timeoutParameters, cancelOnTimeout: true }, { executionId: 'exec-2' });
+
+			expect(kept.json.status).toBe('timeout');
+			expect(kept.json.cancellation).toBeUndefined();
+			expect(mock.requests.filter((r) => r.path.startsWith('/run/cancel/'))).toHaveLength(1);
+			expect(cancelled.json).toMatchObject({
+				status: 'timeout',
+				cost: 0.05,
+				cancellation: { cancelled: true, status: 'cancelled', costIncurred: true },
+			});
+		});
+
+		it('cancels the run when the execution is stopped', async () => {
+			const controller = new AbortController();
+			mock.intercept('GET', 'router', /^\/run\/status\//, (req) => {
+				controller.abort();
+				return { status: 200, body: { runId: req.path.split('/').pop(), status: 'processing', progress: 10 } };
+			});
+
+			const [item] = await execute(
+				{
+					...runParameters,
+					operation: 'runAsync',
+					runServiceSlug: 'contract-summarizer',
+					waitForCompletion: true,
+					pollingTimeout: 60,
+					cancelOnStop: true,
+					runOptions: { validateInputs: false },
+				},
+				{ abortSignal: controller.signal },
+			);
+
+			expect(item.json).toMatchObject({
+				status: 'aborted',
+				cost: 0,
+				cancellation: { cancelled: true, cost: 0, costIncurred: false },
+				polling: { polls: 1 },
+			});
+		});
+
+		it('gets the status of a run', async () => {
+			const [started] = await execute({ ...runParameters, operation: 'runAsync', waitForCompletion: false });
+			const [item] = await execute({ resource: 'run', operation: 'getRunStatus', runId: started.json.runId });
+
+			expect(item.json).toMatchObject({ runId: started.json.runId, status: 'processing', progress: 50 });
+		});
+	});
+
+	describe('binary data', () => {
+		const pdf = Buffer.from('%PDF-1.7 contract');
+		const pdfItem = { json: {}, binary: { data: { data: pdf.toString('base64'), mimeType: 'application/pdf', fileName: 'contract.pdf' } } };
+		const contractParameters = {
+			resource: 'run',
+			operation: 'runSync',
+			runServiceSlug: 'contract-summarizer',
+			runModelId: 'gpt-4o-mini',
+			inputMode: 'keyValue',
+			inputs: {},
+			fileInputs: { files: [{ input: 'document', binaryProperty: 'data' }] },
+			runOptions: {},
+		};
+
+		function addFileService(outputs: object, output: unknown) {
+			mock.state.fixtures.glyphs.push({
+				...mock.state.fixtures.glyphs[0],
+				id: 'glyph_005',
+				slug: 'invoice-builder',
+				name: 'Invoice Builder',
+				schema: { inputs: [], outputs },
+			});
+			mock.state.fixtures.runOutputs['invoice-builder'] = output;
+		}
+
+		it('inlines binary file inputs as data URIs', async () => {
+			const [item] = await execute(contractParameters, { items: [pdfItem] });
+
+			expect(item.json.status).toBe('completed');
+			expect(runRequest().body.inputs).toEqual({ document: `data:application/pdf;base64,${pdf.toString('base64')}` });
+		});
+
+		it('uploads files when the service expects uploads', async () => {
+			mock.state.fixtures.glyphs.find((g) => g.slug === 'contract-summarizer').schema.inputs[0].fileTransport = 'upload';
+
+			await execute(contractParameters, { items: [pdfItem] });
+
+			const upload = mock.requests.find((r) => r.path === '/files')!;
+			expect(upload.body).toEqual({ fileName: 'contract.pdf', mimeType: 'application/pdf', data: pdf.toString('base64') });
+			expect(runRequest().body.inputs.document).toBe(`${urls.routerUrl}/files/file_1/contract.pdf`);
+		});
+
+		it('keeps the idempotency key stable across uploads of the same file', async () => {
+			mock.state.fixtures.glyphs.find((g) => g.slug === 'contract-summarizer').schema.inputs[0].fileTransport = 'upload';
+
+			const [first] = await execute(contractParameters, { items: [pdfItem] });
+			const [second] = await execute(contractParameters, { items: [pdfItem] });
+
+			expect(second.json.idempotencyKey).toBe(first.json.idempotencyKey);
+			expect(second.json.replayed).toBe(true);
+		});
+
+		it('validates the file type before uploading', async () => {
+			const png = { json: {}, binary: { data: { data: 'iVBORw0K', mimeType: 'image/png', fileName: 'scan.png' } } };
+
+			const [item] = await execute(contractParameters, { items: [png], continueOnFail: true });
+
+			expect(item.json).toMatchObject({ code: 'INVALID_INPUT', fieldErrors: [{ field: 'document', rule: 'accept' }] });
+			expect(mock.requests.map((r) => r.path)).toEqual(['/glyph/contract-summarizer']);
+		});
+
+		it('fails when the binary property is missing', async () => {
+			const [item] = await execute(contractParameters, { continueOnFail: true });
+
+			expect(item.json.error).toContain('"data"');
+		});
+
+		it('returns file outputs as binary data', async () => {
+			addFileService({ type: 'file', mimeType: 'application/pdf', downloadable: true }, `data:application/pdf;base64,${pdf.toString('base64')}`);
+
+			const [item] = await execute({ ...contractParameters, runServiceSlug: 'invoice-builder', fileInputs: {} });
+
+			expect(item.json.output).toEqual({
+				binaryProperty: 'data',
+				fileName: 'invoice-builder-run_mock_1.pdf',
+				mimeType: 'application/pdf',
+				fileSize: pdf.length,
+			});
+			expect(item.binary!.data).toMatchObject({ mimeType: 'application/pdf', data: pdf.toString('base64') });
+		});
+
+		it('downloads file outputs of async runs into the chosen property', async () => {
+			const csv = 'name,score\nExample Corp,82\n';
+			mock.state.files.set('file_csv', { fileName: 'leads.csv', mimeType: 'text/csv', data: Buffer.from(csv) });
+			addFileService({ type: 'csv', mimeType: 'text/csv' }, { url: `${urls.routerUrl}/files/file_csv/leads.csv` });
+
+			const [item] = await execute({
+				...contractParameters,
+				operation: 'runAsync',
+				waitForCompletion: true,
+				pollingTimeout: 5,
+				runServiceSlug: 'invoice-builder',
+				fileInputs: {},
+				runOptions: { binaryOutputProperty: 'report' },
+			});
+
+			expect(item.json.output).toMatchObject({ binaryProperty: 'report', fileName: 'leads.csv', mimeType: 'text/csv' });
+			expect(Buffer.from(item.binary!.report.data, 'base64').toString()).toBe(csv);
+		});
+
+		it('keeps the paid result when a file output cannot be downloaded', async () => {
+			const missingFile = { url: `${urls.routerUrl}/files/file_missing/leads.csv` };
+			addFileService({ type: 'csv', mimeType: 'text/csv' }, missingFile);
+
+			const [item] = await execute({ ...contractParameters, runServiceSlug: 'invoice-builder', fileInputs: {} });
+
+			expect(item.json).toMatchObject({ runId: 'run_mock_1', status: 'completed', output: missingFile });
+			expect(item.json.cost).toBeDefined();
+			expect(item.json.outputError).toContain('404');
+			expect(item.binary).toBeUndefined();
+		});
+
+		it('keeps JSON and text outputs in the JSON output', async () => {
+			const [item] = await execute({
+				...contractParameters,
+				runServiceSlug: 'legacy-translator',
+				inputs: { inputValues: [{ key: 'text', value: 'Hello world' }, { key: 'target_language', value: 'fr' }] },
+				fileInputs: {},
+			});
+
+			expect(item.json.output).toBe('Bonjour le monde');
+			expect(item.binary).toBeUndefined();
+		});
+	});
+
+	describe('output parsing', () => {
+		const leadParameters = {
+			resource: 'run',
+			operation: 'runSync',
+			runServiceSlug: 'lead-scorer',
+			runModelId: 'gpt-4o-mini',
+			inputMode: 'keyValue',
+			inputs: { inputValues: [{ key: 'lead', value: 'Jane Doe, VP Sales at Example Corp' }] },
+			runOptions: {},
+		};
+
+		beforeEach(() => {
+			mock.state.fixtures.runOutputs['lead-scorer'] = '```json\n{"score": 82, "qualified": true}\n```';
+		});
+
+		it('parses JSON outputs returned as strings', async () => {
+			const [item] = await execute(leadParameters);
+
+			expect(item.json.output).toEqual({ score: 82, qualified: true });
+			expect(item.json.rawOutput).toBe('```json\n{"score": 82, "qualified": true}\n```');
+		});
+
+		it('keeps outputs as returned for version 1 nodes', async () => {
+			const [item] = await execute(leadParameters, { typeVersion: 1 });
+
+			expect(item.json.output).toBe('```json\n{"score": 82, "qualified": true}\n```');
+			expect(item.json.rawOutput).toBeUndefined();
+		});
+
+		it('flags outputs that do not match the output JSON Schema', async () => {
+			const outputSchema = JSON.stringify({
+				type: 'object',
+				required: ['score', 'reason'],
+				properties: { score: { type: 'integer', maximum: 50 } },
+			});
+
+			const [item] = await execute({ ...leadParameters, runOptions: { outputSchema } });
+
+			expect(item.json.status).toBe('completed');
+			expect(item.json.outputValidation).toEqual({
+				valid: false,
+				errors: [
+					{ path: '$.reason', message: 'is required' },
+					{ path: '$.score', message: 'must be at most 50' },
+				],
+			});
+		});
+
+		it('rejects an invalid output JSON Schema before running', async () => {
+			const [item] = await execute({ ...leadParameters, runOptions: { outputSchema: '{ type' } }, { continueOnFail: true });
+
+			expect(item.json.code).toBe('INVALID_PARAMETER');
+			expect(runRequest()).toBeUndefined();
+		});
+
+		it('converts markdown outputs to HTML and lists their code blocks', async () => {
+			const [item] = await execute({
+				...leadParameters,
+				operation: 'runAsync',
+				waitForCompletion: true,
+				pollingTimeout: 5,
+				runServiceSlug: 'contract-summarizer',
+				inputs: { inputValues: [{ key: 'document', value: 'https://example.com/contract.pdf' }] },
+				runOptions: { markdownToHtml: true },
+			});
+
+			expect(item.json.output).toBe(
+				'<h2>Summary</h2>\n<p>The agreement runs for 12 months.</p>\n<pre><code class="language-json">{&quot;risk&quot;: &quot;low&quot;}</code></pre>',
+			);
+			expect(item.json.rawOutput).toMatch(/^## Summary/);
+			expect(item.json.codeBlocks).toEqual([{ language: 'json', code: '{"risk": "low"}' }]);
+		});
+	});
+
+	describe('budget', () => {
+		const runParameters = {
+			resource: 'run',
+			runServiceSlug: 'account-intel',
+			runModelId: 'gpt-4o-mini',
+			inputMode: 'keyValue',
+			inputs: { inputValues: [{ key: 'company_name', value: 'Example Corp' }, { key: 'url', value: 'https://example.com' }] },
+		};
+		const contractParameters = {
+			...runParameters,
+			runServiceSlug: 'contract-summarizer',
+			runModelId: 'gpt-4o',
+			inputs: { inputValues: [{ key: 'document', value: 'https://example.com/contract.pdf' }] },
+		};
+
+		async function executeAll(parameters: Record<string, any>, options: ContextOptions = {}) {
+			const context = createExecuteContext(node, {
+				credentials: mockCredentials(urls),
+				...options,
+				parameters: { requestOptions: { retryDelay: 1 }, ...parameters },
+			});
+			return node.execute.call(context);
+		}
+
+		it('reports estimated versus actual cost of per-run services', async () => {
+			const [item] = await execute({ ...runParameters, operation: 'runSync', runOptions: { maxCostPerRun: 0.1 } });
+
+			expect(item.json.costReport).toEqual({
+				estimatedCost: 0.05,
+				pricingModel: 'per-run',
+				currency: 'USDC',
+				maxCost: 0.1,
+				actualCost: 0.05,
+				difference: 0,
+			});
+			expect(mock.requests.some((r) => r.path === '/models/estimate')).toBe(false);
+		});
+
+		it('stops before paying when the estimate is over the cap', async () => {
+			const [item] = await execute(
+				{ ...runParameters, operation: 'runSync', runOptions: { maxCostPerRun: 0.01 } },
+				{ continueOnFail: true },
+			);
+
+			expect(item.json).toMatchObject({ code: 'BUDGET_EXCEEDED', estimatedCost: 0.05, maxCost: 0.01 });
+			expect(runRequest()).toBeUndefined();
+		});
+
+		it('routes over budget items to the second output', async () => {
+			const outputs = await executeAll(
+				{
+					...runParameters,
+					operation: 'runSync',
+					runServiceSlug: (i: number) => (i === 0 ? 'lead-scorer' : 'account-intel'),
+					runOptions: { maxCostPerRun: 0.02, overBudgetAction: 'route', validateInputs: false },
+				},
+				{ items: [{ json: {} }, { json: {} }] },
+			);
+
+			expect(outputs).toHaveLength(2);
+			expect(outputs[0]).toHaveLength(1);
+			expect(outputs[0][0].json).toMatchObject({ status: 'completed', serviceSlug: 'lead-scorer' });
+			expect(outputs[1]).toEqual([
+				{
+					json: {
+						status: 'over_budget',
+						serviceSlug: 'account-intel',
+						modelId: 'gpt-4o-mini',
+						costReport: expect.objectContaining({ estimatedCost: 0.05, maxCost: 0.02, actualCost: null }),
+					},
+					pairedItem: { item: 1 },
+				},
+			]);
+			expect(mock.requests.filter((r) => r.path === '/run')).toHaveLength(1);
+		});
+
+		it('estimates per-token services from the inputs and max tokens', async () => {
+			const [item] = await execute(
+				{ ...contractParameters, operation: 'runSync', runOptions: { maxCostPerRun: 0.001, maxTokens: 1000 } },
+				{ continueOnFail: true },
+			);
+
+			expect(item.json.code).toBe('BUDGET_EXCEEDED');
+			expect(mock.requests.find((r) => r.path === '/models/estimate')!.body).toEqual({
+				modelId: 'gpt-4o',
+				inputTokens: 12,
+				outputTokens: 1000,
+			});
+			expect(item.json.estimatedCost).toBeCloseTo(0.0105, 4);
+		});
+
+		it('runs per-token services within the cap', async () => {
+			const [item] = await execute({ ...contractParameters, operation: 'runSync', runOptions: { maxCostPerRun: 0.05 } });
+
+			expect(item.json.status).toBe('completed');
+			expect(item.json.costReport).toMatchObject({
+				pricingModel: 'per-token',
+				modelId: 'gpt-4o',
+				outputTokens: DEFAULTS.ESTIMATE_OUTPUT_TOKENS,
+				actualCost: 0.003,
+			});
+		});
+
+		it('reports the actual cost once an async run completes', async () => {
+			const [item] = await execute({
+				...runParameters,
+				operation: 'runAsync',
+				waitForCompletion: true,
+				pollingTimeout: 5,
+				runOptions: { maxCostPerRun: 0.1 },
+			});
+
+			expect(item.json.costReport).toMatchObject({ estimatedCost: 0.05, actualCost: 0.05, difference: 0 });
+		});
+
+		it('keeps a single output when over budget items are not routed', async () => {
+			const outputs = await executeAll({ ...runParameters, operation: 'runSync', runOptions: {} });
+
+			expect(outputs).toHaveLength(1);
+		});
+	});
+
+	describe('schema inputs', () => {
+		const loadFields = (parameters: Record<string, any>) =>
+			node.methods.resourceMapping.getServiceInputs.call(
+				createLoadOptionsContext(node, { credentials: mockCredentials(urls), parameters }),
+			);
+
+		it('loads typed input fields from the service schema', async () => {
+			const { fields } = await loadFields({ runServiceSlug: 'account-intel' });
+
+			expect(fields).toEqual([
+				expect.objectContaining({
+					id: 'company_name',
+					displayName: 'Company Name (Legal or brand name of the company)',
+					required: true,
+					type: 'string',
+				}),
+				expect.objectContaining({ id: 'url', displayName: 'Website', required: true, type: 'url' }),
+				expect.objectContaining({
+					id: 'depth',
+					required: false,
+					type: 'options',
+					options: [
+						{ name: 'quick', value: 'quick' },
+						{ name: 'standard', value: 'standard' },
+						{ name: 'deep', value: 'deep' },
+					],
+				}),
+			]);
+		});
+
+		it('maps number and checkbox fields', async () => {
+			const { fields } = await loadFields({ runServiceSlug: 'lead-scorer' });
+
+			expect(fields.map((f) => [f.id, f.type])).toEqual([['lead', 'string'], ['threshold', 'number'], ['explain', 'boolean']]);
+		});
+
+		it('asks for a fixed slug when the slug is an expression', async () => {
+			const result = await loadFields({ runServiceSlug: '={{ $json.slug }}' });
+
+			expect(result).toEqual({ fields: [], emptyFieldsNotice: expect.stringContaining('fixed service slug') });
+			expect(mock.requests).toHaveLength(0);
+		});
+
+		it('runs with mapped inputs converted to their field types', async () => {
+			const { fields: schema } = await loadFields({ runServiceSlug: 'lead-scorer' });
+
+			await execute({
+				resource: 'run',
+				operation: 'runSync',
+				runServiceSlug: 'lead-scorer',
+				runModelId: 'gpt-4o-mini',
+				schemaInputs: {
+					mappingMode: 'defineBelow',
+					value: { lead: 'Jane, CTO at Example', threshold: '70', explain: 'true' },
+					schema,
+				},
+				runOptions: {},
+			});
+
+			expect(runRequest().body.inputs).toEqual({ lead: 'Jane, CTO at Example', threshold: 70, explain: true });
+		});
+
+		it('maps inputs automatically from the incoming item', async () => {
+			const { fields: schema } = await loadFields({ runServiceSlug: 'account-intel' });
+
+			await execute(
+				{
+					resource: 'run',
+					operation: 'runSync',
+					runServiceSlug: 'account-intel',
+					runModelId: 'gpt-4o-mini',
+					schemaInputs: { mappingMode: 'autoMapInputData', value: null, schema },
+					runOptions: {},
+				},
+				{ items: [{ json: { company_name: 'Example Corp', url: 'https://example.com', owner: 'ignored' } }] },
+			);
+
+			expect(runRequest().body.inputs).toEqual({ company_name: 'Example Corp', url: 'https://example.com' });
+		});
+
+		it('keeps key/value inputs as the default for version 1 nodes', async () => {
+			await execute(
+				{
+					resource: 'run',
+					operation: 'runSync',
+					runServiceSlug: 'lead-scorer',
+					runModelId: 'gpt-4o-mini',
+					inputs: { inputValues: [{ key: 'lead', value: 'Jane' }] },
+					runOptions: {},
+				},
+				{ typeVersion: 1 },
+			);
+
+			expect(runRequest().body.inputs).toEqual({ lead: 'Jane' });
+		});
+	});
+
+	describe('service picker', () => {
+		const search = (filter?: string, paginationToken?: string) =>
+			node.methods.listSearch.searchServices.call(
+				createLoadOptionsContext(node, { credentials: mockCredentials(urls) }),
+				filter,
+				paginationToken,
+			);
+
+		const runParameters = {
+			resource: 'run',
+			operation: 'runSync',
+			runModelId: 'gpt-4o-mini',
+			inputMode: 'keyValue',
+			inputs: { inputValues: [{ key: 'lead', value: 'Jane' }] },
+			runOptions: {},
+		};
+
+		it('lists services with type, price and verified badge', async () => {
+			const { results } = await search('lead');
+
+			expect(results).toEqual([
+				{
+					name: 'Lead Scorer (tool · $0.01 · ✓ verified)',
+					value: 'lead-scorer',
+					url: 'https://app.xpay.sh/marketplace/lead-scorer',
+					description: 'Scores an inbound lead from 0 to 100',
+				},
+			]);
+			expect(mock.requests[0]).toMatchObject({ path: '/glyphs', query: { search: 'lead', offset: '0' } });
+		});
+
+		it('pages through the list with the offset as pagination token', async () => {
+			const pageSize = DEFAULTS.SERVICE_SEARCH_PAGE_SIZE;
+			DEFAULTS.SERVICE_SEARCH_PAGE_SIZE = 3;
+			try {
+				const first = await search();
+				const second = await search(undefined, first.paginationToken as string);
+
+				expect(first.results.map((r) => r.value)).toEqual(['account-intel', 'lead-scorer', 'contract-summarizer']);
+				expect(first.paginationToken).toBe('3');
+				expect(second.results.map((r) => r.value)).toEqual(['legacy-translator']);
+				expect(second.paginationToken).toBeUndefined();
+			} finally {
+				DEFAULTS.SERVICE_SEARCH_PAGE_SIZE = pageSize;
+			}
+		});
+
+		it('leaves drafts out of the list', async () => {
+			mock.state.fixtures.glyphs.push({ ...mock.state.fixtures.glyphs[1], id: 'glyph_005', slug: 'lead-scorer-v2', status: 'draft' });
+
+			const { results } = await search('lead');
+
+			expect(results.map((r) => r.value)).toEqual(['lead-scorer']);
+		});
+
+		it('runs a service picked from the list', async () => {
+			await execute({ ...runParameters, runServiceSlug: { __rl: true, mode: 'list', value: 'lead-scorer' } });
+
+			expect(runRequest().body.glyphSlug).toBe('lead-scorer');
+		});
+
+		it('runs a service given by marketplace link', async () => {
+			await execute({
+				...runParameters,
+				runServiceSlug: { __rl: true, mode: 'url', value: 'https://app.xpay.sh/marketplace/lead-scorer?ref=share' },
+			});
+
+			expect(runRequest().body.glyphSlug).toBe('lead-scorer');
+		});
+
+		it('rejects a link that does not point to a service', async () => {
+			await expect(
+				execute({ ...runParameters, runServiceSlug: { __rl: true, mode: 'url', value: 'https://app.xpay.sh/settings' } }),
+			).rejects.toMatchObject({ xpayCode: 'INVALID_PARAMETER', message: 'Not a marketplace service link: https://app.xpay.sh/settings' });
+			expect(mock.requests).toHaveLength(0);
+		});
+
+		it('rejects unpublished services before running', async () => {
+			mock.state.fixtures.glyphs.push({ ...mock.state.fixtures.glyphs[1], id: 'glyph_005', slug: 'lead-scorer-v2', status: 'archived' });
+
+			await expect(
+				execute({ ...runParameters, runServiceSlug: { __rl: true, mode: 'slug', value: 'lead-scorer-v2' } }),
+			).rejects.toMatchObject({
+				xpayCode: 'SERVICE_UNAVAILABLE',
+				message: 'Service lead-scorer-v2 is not published (status: archived)',
+			});
+			expect(mock.requests.map((r) => r.path)).toEqual(['/glyph/lead-scorer-v2']);
+		});
+
+		it('gets a service picked from the list', async () => {
+			const [item] = await execute({
+				resource: 'discover',
+				operation: 'getService',
+				serviceSlug: { __rl: true, mode: 'list', value: 'account-intel' },
+			});
+
+			expect(item.json.service).toMatchObject({ serviceSlug: 'account-intel' });
+		});
+
+		it('loads schema inputs for a service given by link', async () => {
+			const { fields } = await node.methods.resourceMapping.getServiceInputs.call(
+				createLoadOptionsContext(node, {
+					credentials: mockCredentials(urls),
+					parameters: { runServiceSlug: { __rl: true, mode: 'url', value: 'https://app.xpay.sh/marketplace/lead-scorer' } },
+				}),
+			);
+
+			expect(fields.map((f) => f.id)).toEqual(['lead', 'threshold', 'explain']);
+		});
+	});
+
+	describe('service versions', () => {
+		const runParameters = {
+			resource: 'run',
+			operation: 'runSync',
+			runServiceSlug: 'account-intel',
+			runModelId: 'gpt-4o-mini',
+			inputMode: 'keyValue',
+			inputs: { inputValues: [{ key: 'company_name', value: 'Example Corp' }, { key: 'url', value: 'https://example.com' }] },
+			runOptions: {},
+		};
+		const legacyParameters = {
+			...runParameters,
+			runServiceSlug: 'legacy-translator',
+			inputs: { inputValues: [{ key: 'text', value: 'Hello world' }, { key: 'target_language', value: 'fr' }] },
+		};
+
+		it('runs the current version by default', async () => {
+			const [item] = await execute(runParameters);
+
+			expect(item.json).toMatchObject({ serviceVersion: '1.2.0', schemaHash: expect.stringMatching(/^[0-9a-f]{16}$/) });
+			expect(item.json.currentServiceVersion).toBeUndefined();
+			expect(item.json.warnings).toBeUndefined();
+			expect(runRequest().body.glyphVersion).toBeUndefined();
+		});
+
+		// Version 1.1.0 of account-intel is deprecated (unless told otherwise) and asks for a domain instead of a website
+		const addPreviousVersion = (status = 'deprecated') => {
+			const glyph = mock.state.fixtures.glyphs.find((g) => g.slug === 'account-intel');
+			glyph.versions = [
+				{
+					version: '1.1.0',
+					status,
+					schema: {
+						...glyph.schema,
+						inputs: [glyph.schema.inputs[0], { name: 'domain', label: 'Domain', type: 'text', required: true }],
+					},
+				},
+			];
+		};
+		const previousVersionParameters = {
+			...runParameters,
+			inputs: { inputValues: [{ key: 'company_name', value: 'Example Corp' }, { key: 'domain', value: 'example.com' }] },
+		};
+
+		it('pins a service version and checks the run against it', async () => {
+			addPreviousVersion();
+			const [current] = await execute(runParameters);
+			const [item] = await execute({ ...previousVersionParameters, runOptions: { serviceVersion: ' 1.1.0 ' } });
+
+			expect(mock.requests.find((r) => r.query.version)?.query).toEqual({ version: '1.1.0' });
+			expect(mock.requests.filter((r) => r.path === '/run').map((r) => r.body.glyphVersion)).toEqual([undefined, '1.1.0']);
+			expect(item.json).toMatchObject({
+				status: 'completed',
+				serviceVersion: '1.1.0',
+				currentServiceVersion: '1.2.0',
+				warnings: [{ code: 'SERVICE_DEPRECATED' }],
+			});
+			expect(item.json.schemaHash).not.toBe(current.json.schemaHash);
+		});
+
+		it('validates inputs against the schema of the pinned version', async () => {
+			addPreviousVersion();
+
+			await expect(
+				execute({ ...runParameters, runOptions: { serviceVersion: '1.1.0' } }),
+			).rejects.toMatchObject({ xpayCode: 'INVALID_INPUT', message: expect.stringContaining('domain') });
+			expect(mock.requests.some((r) => r.path === '/run')).toBe(false);
+		});
+
+		it('warns when the current version of a pinned service is deprecated', async () => {
+			addPreviousVersion('published');
+			mock.state.fixtures.glyphs.find((g) => g.slug === 'account-intel').status = 'deprecated';
+
+			const [item] = await execute({ ...previousVersionParameters, runOptions: { serviceVersion: '1.1.0' } });
+
+			expect(item.json).toMatchObject({ status: 'completed', serviceVersion: '1.1.0', currentServiceVersion: '1.2.0' });
+			expect(item.json.warnings).toEqual([
+				{
+					code: 'SERVICE_DEPRECATED',
+					message:
+						'The current version (1.2.0) of service account-intel is deprecated and may be archived; move to a replacement service',
+				},
+			]);
+		});
+
+		it('follows the action when the current version of a pinned service is archived', async () => {
+			addPreviousVersion('published');
+			mock.state.fixtures.glyphs.find((g) => g.slug === 'account-intel').status = 'archived';
+			const pinnedParameters = { ...previousVersionParameters, runOptions: { serviceVersion: '1.1.0' } };
+
+			const [item] = await execute(pinnedParameters);
+
+			expect(item.json).toMatchObject({
+				status: 'completed',
+				serviceVersion: '1.1.0',
+				warnings: [{ code: 'SERVICE_UNAVAILABLE', message: expect.stringContaining('(status: archived)') }],
+			});
+			await expect(
+				execute({ ...pinnedParameters, runOptions: { ...pinnedParameters.runOptions, serviceChangeAction: 'error' } }),
+			).rejects.toMatchObject({ xpayCode: 'SERVICE_UNAVAILABLE' });
+			expect(mock.requests.filter((r) => r.path === '/run')).toHaveLength(1);
+		});
+
+		it('fails before paying when the pinned version does not exist', async () => {
+			await expect(
+				execute({ ...runParameters, runOptions: { serviceVersion: '9.9.9' } }),
+			).rejects.toMatchObject({ xpayCode: 'NOT_FOUND', message: 'Service account-intel has no version 9.9.9' });
+			expect(mock.requests.some((r) => r.path === '/run')).toBe(false);
+		});
+
+		it('reports the version the router ran', async () => {
+			addPreviousVersion();
+			const [item] = await execute({
+				...previousVersionParameters,
+				operation: 'runAsync',
+				waitForCompletion: true,
+				pollingTimeout: 5,
+				runOptions: { serviceVersion: '1.1.0' },
+			});
+
+			expect(item.json).toMatchObject({ status: 'completed', serviceVersion: '1.1.0', currentServiceVersion: '1.2.0' });
+
+			mock.intercept('POST', 'router', '/run', {
+				status: 200,
+				body: { runId: 'run_x', success: true, output: {}, cost: 0.05, glyphVersion: '1.2.1' },
+			});
+			const [sync] = await execute(runParameters);
+
+			expect(sync.json).toMatchObject({ serviceVersion: '1.2.1', currentServiceVersion: '1.2.0' });
+		});
+
+		it('warns when the service is deprecated', async () => {
+			const [item] = await execute(legacyParameters);
+
+			expect(item.json).toMatchObject({ status: 'completed', warnings: [{ code: 'SERVICE_DEPRECATED' }] });
+		});
+
+		it('stops before paying when asked to fail on deprecated services', async () => {
+			await expect(
+				execute({ ...legacyParameters, runOptions: { serviceChangeAction: 'error' } }),
+			).rejects.toMatchObject({ xpayCode: 'SERVICE_DEPRECATED' });
+			expect(mock.requests.some((r) => r.path === '/run')).toBe(false);
+		});
+
+		it('flags mapped inputs that changed since the workflow was saved', async () => {
+			const glyph = mock.state.fixtures.glyphs.find((g) => g.slug === 'lead-scorer');
+			const schema = glyph.schema.inputs.map(toResourceMapperField);
+			glyph.schema.inputs.push({ name: 'region', label: 'Region', type: 'text', required: true });
+
+			const [item] = await execute({
+				...runParameters,
+				runServiceSlug: 'lead-scorer',
+				inputMode: 'schema',
+				schemaInputs: { mappingMode: 'defineBelow', value: { lead: 'Jane' }, schema },
+				runOptions: { validateInputs: false },
+			});
+
+			expect(item.json.warnings).toEqual([
+				{
+					code: 'SCHEMA_CHANGED',
+					message: 'Inputs of service lead-scorer changed since the workflow was saved: required input region was added',
+				},
+			]);
+		});
+
+		it('flags a schema that no longer matches the expected hash', async () => {
+			const [first] = await execute(runParameters);
+			const schemaHash = first.json.schemaHash as string;
+			await clearCatalogCache();
+			mock.state.fixtures.glyphs.find((g) => g.slug === 'account-intel').schema.outputs = { type: 'text' };
+
+			await expect(
+				execute({ ...runParameters, runOptions: { expectedSchemaHash: schemaHash, serviceChangeAction: 'error' } }),
+			).rejects.toMatchObject({ xpayCode: 'SCHEMA_CHANGED', message: expect.stringContaining(`expected ${schemaHash}`) });
+		});
+	});
+
+	describe('model', () => {
+		it('lists models with filters', async () => {
+			const [item] = await execute({ resource: 'model', operation: 'listModels', modelFilters: { provider: 'anthropic' } });
+
+			expect((item.json.models as any[]).map((m) => m.modelId)).toEqual(['claude-3.5-haiku', 'claude-3.5-sonnet']);
+		});
+
+		it('estimates cost', async () => {
+			const [item] = await execute({
+				resource: 'model',
+				operation: 'estimateCost',
+				costModelId: 'gpt-4o-mini',
+				inputTokens: 1000000,
+				outputTokens: 0,
+			});
+
+			expect(item.json.estimate).toMatchObject({ total: 0.1575, currency: 'USDC' });
+		});
+
+		describe('estimate from text', () => {
+			const textParameters = {
+				resource: 'model',
+				operation: 'estimateCost',
+				costModelId: 'gpt-4o-mini',
+				estimateMode: 'text',
+				textField: 'prompt',
+				outputTokensSource: 'ratio',
+				outputRatio: 0.5,
+				pricingSource: 'api',
+			};
+
+			it('counts the input tokens of each item and prices them with the estimate API', async () => {
+				const [item] = await execute(textParameters, { items: [{ json: { prompt: 'hello world' } }] });
+
+				expect(item.json).toMatchObject({
+					modelId: 'gpt-4o-mini',
+					provider: 'openai',
+					tokenizer: 'o200k_base',
+					inputTokens: 2,
+					outputTokens: 1,
+					outputTokensSource: 'ratio',
+				});
+				expect(mock.requests.find((r) => r.path === '/models/estimate')?.body).toEqual({
+					modelId: 'gpt-4o-mini',
+					inputTokens: 2,
+					outputTokens: 1,
+				});
+			});
+
+			it('prices from the model catalog and projects the max output tokens', async () => {
+				const [item] = await execute(
+					{ ...textParameters, costModelId: 'claude-3.5-haiku', outputTokensSource: 'maxOutputTokens', pricingSource: 'catalog' },
+					{ items: [{ json: { prompt: 'hello world' } }] },
+				);
+
+				expect(item.json).toMatchObject({ tokenizer: 'cl100k_base', inputTokens: 3, outputTokens: 8192 });
+				expect(item.json.estimate).toEqual({ inputCost: 0.000003, outputCost: 0.034406, total: 0.034409, currency: 'USDC' });
+				expect(mock.requests.some((r) => r.path === '/models/estimate')).toBe(false);
+			});
+
+			it('rejects unknown models', async () => {
+				const [item] = await execute(
+					{ ...textParameters, costModelId: 'no-such-model' },
+					{ items: [{ json: { prompt: 'hello world' } }], continueOnFail: true },
+				);
+
+				expect(item.json).toMatchObject({ error: 'Model not found: no-such-model', code: 'NOT_FOUND' });
+			});
+
+			it('returns a single batch total for all items', async () => {
+				const result = await execute(
+					{ ...textParameters, batchTotal: true },
+					{ items: [{ json: { prompt: 'hello world' } }, { json: { prompt: 'hello' } }, { json: { prompt: '' } }] },
+				);
+
+				expect(result).toHaveLength(1);
+				expect(result[0].json).toMatchObject({
+					items: 3,
+					inputTokens: 3,
+					outputTokens: 2,
+					perItem: [
+						{ item: 0, inputTokens: 2, outputTokens: 1 },
+						{ item: 1, inputTokens: 1, outputTokens: 1 },
+						{ item: 2, inputTokens: 0, outputTokens: 0 },
+					],
+				});
+				expect(result[0].pairedItem).toEqual([{ item: 0 }, { item: 1 }, { item: 2 }]);
+				expect(mock.requests.filter((r) => r.path === '/models/estimate')).toHaveLength(1);
+			});
+
+			it('fails on items without the text field instead of counting nothing', async () => {
+				const [item] = await execute(
+					{ ...textParameters, textField: 'promt' },
+					{ items: [{ json: { prompt: 'hello world' } }], continueOnFail: true },
+				);
+
+				expect(item.json).toMatchObject({ error: 'The item has no field "promt" to count', code: 'INVALID_PARAMETER' });
+				expect(mock.requests.some((r) => r.path === '/models/estimate')).toBe(false);
+			});
+
+			it('requires one model for a batch total', async () => {
+				await expect(
+					execute(
+						{ ...textParameters, batchTotal: true, costModelId: (i: number) => (i === 0 ? 'gpt-4o-mini' : 'gpt-4o') },
+						{ items: [{ json: { prompt: 'hello' } }, { json: { prompt: 'world' } }] },
+					),
+				).rejects.toThrow('Batch Total needs the same Model and Pricing for every item');
+			});
+		});
+
+		it('loads model options for the editor', async () => {
+			const context = createLoadOptionsContext(node, { credentials: mockCredentials(urls) });
+			const options = await node.methods.loadOptions.getModels.call(context);
+
+			expect(options[0]).toEqual({ name: 'GPT-4o Mini (fast)', value: 'gpt-4o-mini', description: 'Fast and cheap general purpose model' });
+		});
+	});
+
+	describe('account', () => {
+		const runIds = (item: { json: Record<string, any> }) => (item.json.runs as any[]).map((r) => r.runId);
+
+		it('lists runs up to the limit', async () => {
+			const [item] = await execute({ resource: 'account', operation: 'listRuns', limit: 2, runFilters: {} });
+
+			expect(runIds(item)).toEqual(['run_h1', 'run_h2']);
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('pages through all runs', async () => {
+			const pageSize = DEFAULTS.PAGINATION_PAGE_SIZE;
+			DEFAULTS.PAGINATION_PAGE_SIZE = 3;
+			try {
+				const [item] = await execute({ resource: 'account', operation: 'listRuns', returnAll: true, runFilters: {} });
+
+				expect(item.json.total).toBe(4);
+				expect(mock.requests.map((r) => r.query.offset)).toEqual(['0', '3']);
+			} finally {
+				DEFAULTS.PAGINATION_PAGE_SIZE = pageSize;
+			}
+		});
+
+		it('filters runs by date range and model', async () => {
+			const [item] = await execute({
+				resource: 'account',
+				operation: 'listRuns',
+				returnAll: true,
+				runFilters: { startDate: '2024-12-25T00:00:00Z', modelId: 'gpt-4o-mini' },
+			});
+
+			expect(runIds(item)).toEqual(['run_h2']);
+			expect(mock.requests[0].query).toMatchObject({ startDate: String(Date.parse('2024-12-25T00:00:00Z')), modelId: 'gpt-4o-mini' });
+		});
+
+		it('filters runs by cost threshold, service and status', async () => {
+			const [costly] = await execute({ resource: 'account', operation: 'listRuns', returnAll: true, runFilters: { minCost: 0.05 } });
+			const [failed] = await execute({
+				resource: 'account',
+				operation: 'listRuns',
+				returnAll: true,
+				runFilters: { serviceSlug: 'account-intel', status: 'failed' },
+			});
+
+			expect(runIds(costly)).toEqual(['run_h1', 'run_h4']);
+			expect(runIds(failed)).toEqual(['run_h3']);
+		});
+
+		it('outputs one item per run', async () => {
+			const output = await execute({
+				resource: 'account',
+				operation: 'listRuns',
+				returnAll: true,
+				splitIntoItems: true,
+				runFilters: { status: 'success' },
+			});
+
+			expect(output.map((item) => item.json.runId)).toEqual(['run_h1', 'run_h2', 'run_h4']);
+		});
+
+		it('includes the whole end day when End Date has no time', async () => {
+			const [item] = await execute({
+				resource: 'account',
+				operation: 'listRuns',
+				returnAll: true,
+				runFilters: { startDate: '2024-12-25', endDate: '2024-12-26' },
+			});
+
+			expect((item.json.runs as any[]).map((run) => run.runId)).toEqual(['run_h2', 'run_h3']);
+		});
+
+		it('rejects invalid dates', async () => {
+			await expect(
+				execute({ resource: 'account', operation: 'listRuns', runFilters: { endDate: 'last tuesday' } }),
+			).rejects.toMatchObject({ xpayCode: 'INVALID_PARAMETER', message: 'Invalid End Date: last tuesday' });
+		});
+
+		it('gets account stats', async () => {
+			const [item] = await execute({ resource: 'account', operation: 'getStats', runFilters: {} });
+
+			expect(item.json).toEqual({ stats: { totalRuns: 4, successfulRuns: 3, failedRuns: 1, totalSpent: 0.13 } });
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('breaks usage down per service and model', async () => {
+			const [item] = await execute({
+				resource: 'account',
+				operation: 'getStats',
+				breakdowns: ['service', 'model'],
+				runFilters: {},
+			});
+
+			expect(item.json.summary).toEqual({
+				runs: 4,
+				successfulRuns: 3,
+				failedRuns: 1,
+				successRate: 0.75,
+				totalCost: 0.13,
+				averageCost: 0.0325,
+				averageDurationMs: 4313,
+			});
+			expect(item.json.byService).toEqual([
+				expect.objectContaining({ serviceSlug: 'contract-summarizer', runs: 1, totalCost: 0.07 }),
+				expect.objectContaining({ serviceSlug: 'account-intel', runs: 2, failedRuns: 1, successRate: 0.5, totalCost: 0.05 }),
+				expect.objectContaining({ serviceSlug: 'lead-scorer', runs: 1, totalCost: 0.01 }),
+			]);
+			expect((item.json.byModel as any[]).map((m) => [m.modelId, m.totalCost])).toEqual([
+				['gpt-4o', 0.07],
+				['gpt-4o-mini', 0.06],
+				['claude-3.5-sonnet', 0],
+			]);
+		});
+
+		it('limits stats to a period', async () => {
+			const [item] = await execute({
+				resource: 'account',
+				operation: 'getStats',
+				runFilters: { startDate: '2024-12-25T00:00:00Z', endDate: '2024-12-26T12:00:00Z' },
+			});
+
+			expect(item.json.period).toEqual({ startDate: '2024-12-25T00:00:00.000Z', endDate: '2024-12-26T12:00:00.000Z' });
+			expect(item.json.summary).toMatchObject({ runs: 2, totalCost: 0.01 });
+			expect(item.json.byService).toBeUndefined();
+		});
+	});
+
+	describe('catalog cache', () => {
+		const searchParameters = { resource: 'discover', operation: 'search', searchQuery: 'lead', filters: {} };
+		const items = [{ json: {} }, { json: {} }, { json: {} }];
+
+		it('fetches an identical catalog read once for all items', async () => {
+			const output = await execute(searchParameters, { items });
+
+			expect(output).toHaveLength(3);
+			expect(output[2].json.services).toEqual(output[0].json.services);
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('reuses cached responses across executions and editor dropdowns', async () => {
+			await execute({ resource: 'model', operation: 'listModels', modelFilters: {} });
+			await node.methods.loadOptions.getModels.call(createLoadOptionsContext(node, { credentials: mockCredentials(urls) }));
+			await execute({ resource: 'model', operation: 'listModels', modelFilters: {} }, { executionId: 'exec-2' });
+
+			expect(mock.requests).toHaveLength(1);
+		});
+
+		it('does not share entries between credentials', async () => {
+			await execute(searchParameters);
+			await execute(searchParameters, { credentials: mockCredentials(urls, { apiKey: 'xpay_sk_other' }) });
+
+			expect(mock.requests.map((r) => r.headers.authorization)).toEqual(['Bearer xpay_sk_test', 'Bearer xpay_sk_other']);
+		});
+
+		it('calls the API on every item when bypassed or disabled', async () => {
+			await execute({ ...searchParameters, requestOptions: { retryDelay: 1, bypassCache: true } }, { items });
+			expect(mock.requests).toHaveLength(3);
+
+			await execute({ ...searchParameters, requestOptions: { retryDelay: 1, cacheTtl: 0 } }, { items });
+			expect(mock.requests).toHaveLength(6);
+		});
+
+		it('refreshes the cache after a bypass', async () => {
+			await execute(searchParameters);
+			mock.state.fixtures.glyphs[1].name = 'Lead Scorer v2';
+
+			const [bypassed] = await execute({ ...searchParameters, requestOptions: { retryDelay: 1, bypassCache: true } });
+			const [cached] = await execute(searchParameters);
+
+			expect((bypassed.json.services as any[])[0].name).toBe('Lead Scorer v2');
+			expect((cached.json.services as any[])[0].name).toBe('Lead Scorer v2');
+			expect(mock.requests).toHaveLength(2);
+		});
+
+		it('does not cache failed reads', async () => {
+			mock.intercept('GET', 'core', '/glyphs', { status: 400, body: { error: 'Bad query' } }, 1);
+
+			await expect(execute(searchParameters)).rejects.toMatchObject({ xpayCode: 'REQUEST_FAILED' });
+			const [item] = await execute(searchParameters);
+
+			expect(item.json.total).toBe(1);
+			expect(mock.requests).toHaveLength(2);
+		});
+	});
+
+	describe('errors and retries', () => {
+		it('retries rate limited catalog reads', async () => {
+			mock.intercept('GET', 'core', '/glyphs', { status: 429, body: { error: 'Slow down' }, headers: { 'retry-after': '0' } }, 2);
+
+			const [item] = await execute({ resource: 'discover', operation: 'search', searchQuery: '', filters: {} });
+
+			expect(item.json.total).toBe(4);
+			expect(mock.requests).toHaveLength(3);
+		});
+
+		it('returns structured errors when continuing on fail', async () => {
+			mock.intercept('POST', 'router', '/run', { status: 402, body: { error: 'Insufficient balance', code: 'INSUFFICIENT_BALANCE' } });
+
+			const [item] = await execute(
+				{
+					resource: 'run',
+					operation: 'runSync',
+					runServiceSlug: 'account-intel',
+					runModelId: 'gpt-4o-mini',
+					inputMode: 'keyValue',
+					inputs: { inputValues: [{ key: 'company_name', value: 'Example Corp' }, { key: 'url', value: 'https://example.com' }] },
+					runOptions: {},
+				},
+				{ continueOnFail: true },
+			);
+
+			expect(item.json).toMatchObject({
+				code: 'PAYMENT_REQUIRED',
+				statusCode: 402,
+				upstreamCode: 'INSUFFICIENT_BALANCE',
+				upstream: { error: 'Insufficient balance' },
+			});
+			expect(item.pairedItem).toEqual({ item: 0 });
+		});
+
+		it('throws typed errors for missing services', async () => {
+			await expect(
+				execute({ resource: 'discover', operation: 'getService', serviceSlug: 'does-not-exist' }),
+			).rejects.toMatchObject({ xpayCode: 'NOT_FOUND', statusCode: 404 });
+		});
+	});
+});
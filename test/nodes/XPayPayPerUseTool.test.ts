@@ -0,0 +1,143 @@
+import type { DynamicStructuredTool } from '@langchain/core/tools';
+
+import { XPayPayPerUseTool } from '../../nodes/XPayPayPerUseTool/XPayPayPerUseTool.node';
+import { clearCatalogCache } from '../../shared/cache';
+import { createMockServer, type MockServerUrls } from '../mock-server/server';
+import { createSupplyDataContext, mockCredentials } from '../helpers';
+
+describe('XPayPayPerUseTool', () => {
+	const mock = createMockServer();
+	const node = new XPayPayPerUseTool();
+	let urls: MockServerUrls;
+
+	beforeAll(async () => {
+		urls = await mock.start();
+	});
+
+	afterAll(() => mock.stop());
+
+	beforeEach(async () => {
+		mock.reset();
+		await clearCatalogCache();
+	});
+
+	async function getTool(parameters: Record<string, any> = {}): Promise<DynamicStructuredTool> {
+		const context = createSupplyDataContext(node, {
+			credentials: mockCredentials(urls),
+			parameters: { filters: {}, options: { retryDelay: 1 }, ...parameters },
+		});
+		const { response } = await node.supplyData.call(context, 0);
+		return response as DynamicStructuredTool;
+	}
+
+	it('discovers services for the agent', async () => {
+		const tool = await getTool({ filters: { verified: true, limit: 5 } });
+
+		const result = JSON.parse(await tool.invoke({ action: 'discover', searchQuery: 'sdr' }));
+
+		expect(result.services.map((s: any) => s.serviceSlug)).toEqual(['account-intel', 'lead-scorer']);
+		expect(mock.requests[0].query).toEqual({ search: 'sdr', verified: 'true', limit: '5' });
+	});
+
+	it('runs a service with the default model', async () => {
+		const tool = await getTool();
+
+		const result = JSON.parse(await tool.invoke({ action: 'run', serviceSlug: 'lead-scorer', inputs: { lead: 'Jane, CTO' } }));
+
+		expect(result).toMatchObject({ status: 'completed', modelId: 'gpt-4o-mini', output: { score: 82 }, cost: '$0.01' });
+		expect(mock.requests.find((r) => r.path === '/run')?.headers['idempotency-key']).toEqual(expect.stringMatching(/^n8n_/));
+	});
+
+	it('falls back to the next model when the model is overloaded', async () => {
+		mock.intercept('POST', 'router', '/run', (req: any) =>
+			req.body.modelId === 'gpt-4o-mini' ? { status: 503, body: { error: 'Model overloaded' } } : undefined);
+		const tool = await getTool({ options: { retryDelay: 1, maxRetries: 0, fallbackModels: 'gpt-4o' } });
+
+		const result = JSON.parse(await tool.invoke({ action: 'run', serviceSlug: 'lead-scorer', inputs: { lead: 'Jane, CTO' } }));
+
+		expect(result).toMatchObject({ status: 'completed', modelId: 'gpt-4o', requestedModelId: 'gpt-4o-mini', totalCost: 0.01 });
+		expect(result.attempts).toEqual([
+			expect.objectContaining({ modelId: 'gpt-4o-mini', status: 'failed', cost: 0, statusCode: 503 }),
+			expect.objectContaining({ modelId: 'gpt-4o', status: 'success', cost: 0.01 }),
+		]);
+	});
+
+	it('prefixes the custom idempotency key to a hash of each call', async () => {
+		mock.intercept('POST', 'router', '/run', (req: any) =>
+			req.body.modelId === 'gpt-4o-mini' ? { status: 503, body: { error: 'Model overloaded' } } : undefined);
+		const tool = await getTool({ options: { retryDelay: 1, maxRetries: 0, fallbackModels: 'gpt-4o', idempotencyKey: 'ticket-7' } });
+
+		await tool.invoke({ action: 'run', serviceSlug: 'lead-scorer', inputs: { lead: 'Jane, CTO' } });
+		await tool.invoke({ action: 'run', serviceSlug: 'lead-scorer', inputs: { lead: 'John, CFO' } });
+
+		const keys = mock.requests.filter((r) => r.path === '/run').map((r) => r.headers['idempotency-key']);
+		expect(keys).toEqual([
+			expect.stringMatching(/^ticket-7-[0-9a-f]{16}$/),
+			expect.stringMatching(/^ticket-7-[0-9a-f]{16}-gpt-4o$/),
+			expect.stringMatching(/^ticket-7-[0-9a-f]{16}$/),
+			expect.stringMatching(/^ticket-7-[0-9a-f]{16}-gpt-4o$/),
+		]);
+		expect(keys[1]).toBe(`${keys[0]}-gpt-4o`);
+		expect(keys[2]).not.toBe(keys[0]);
+	});
+
+	it('returns schema violations to the agent without running', async () => {
+		const tool = await getTool();
+
+		const result = JSON.parse(await tool.invoke({ action: 'run', serviceSlug: 'lead-scorer', inputs: { threshold: 120 } }));
+
+		expect(result).toMatchObject({
+			code: 'INVALID_INPUT',
+			fieldErrors: [
+				{ field: 'lead', rule: 'required' },
+				{ field: 'threshold', rule: 'max', message: 'threshold must be at most 100' },
+			],
+		});
+		expect(mock.requests.map((r) => r.path)).toEqual(['/glyph/lead-scorer']);
+	});
+
+	it('returns lifecycle warnings with the result', async () => {
+		const tool = await getTool();
+
+		const result = JSON.parse(
+			await tool.invoke({ action: 'run', serviceSlug: 'legacy-translator', inputs: { text: 'Hello', target_language: 'fr' } }),
+		);
+
+		expect(result).toMatchObject({ status: 'completed', serviceVersion: '1.0.0', warnings: [{ code: 'SERVICE_DEPRECATED' }] });
+	});
+
+	it('does not run archived services or deprecated ones when asked to stop', async () => {
+		mock.state.fixtures.glyphs.find((g) => g.slug === 'lead-scorer').status = 'archived';
+		const archived = JSON.parse(
+			await (await getTool()).invoke({ action: 'run', serviceSlug: 'lead-scorer', inputs: { lead: 'Jane, CTO' } }),
+		);
+		const deprecated = JSON.parse(
+			await (await getTool({ options: { retryDelay: 1, serviceChangeAction: 'error' } })).invoke({
+				action: 'run',
+				serviceSlug: 'legacy-translator',
+				inputs: { text: 'Hello', target_language: 'fr' },
+			}),
+		);
+
+		expect(archived).toMatchObject({ code: 'SERVICE_UNAVAILABLE', serviceSlug: 'lead-scorer' });
+		expect(deprecated).toMatchObject({ code: 'SERVICE_DEPRECATED', serviceSlug: 'legacy-translator' });
+		expect(mock.requests.some((r) => r.path === '/run')).toBe(false);
+	});
+
+	it('asks the agent to discover first when no service is given', async () => {
+		const tool = await getTool();
+
+		const result = JSON.parse(await tool.invoke({ action: 'run' }));
+
+		expect(result.error).toMatch(/serviceSlug is required/);
+		expect(mock.requests).toHaveLength(0);
+	});
+
+	it('returns structured errors to the agent', async () => {
+		const tool = await getTool();
+
+		const result = JSON.parse(await tool.invoke({ action: 'run', serviceSlug: 'missing-service' }));
+
+		expect(result).toMatchObject({ code: 'NOT_FOUND', statusCode: 404, action: 'run', serviceSlug: 'missing-service' });
+	});
+});
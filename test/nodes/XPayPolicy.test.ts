@@ -0,0 +1,71 @@
+import { XPayPolicy } from '../../nodes/XPayPolicy/XPayPolicy.node';
+import { createMockServer, type MockServerUrls } from '../mock-server/server';
+import { createExecuteContext, mockCredentials, type ContextOptions } from '../helpers';
+
+describe('XPayPolicy', () => {
+	const mock = createMockServer();
+	const node = new XPayPolicy();
+	let urls: MockServerUrls;
+
+	beforeAll(async () => {
+		urls = await mock.start();
+	});
+
+	afterAll(() => mock.stop());
+
+	beforeEach(() => mock.reset());
+
+	async function execute(parameters: Record<string, any>, options: ContextOptions = {}) {
+		const context = createExecuteContext(node, {
+			credentials: mockCredentials(urls),
+			...options,
+			parameters: { requestOptions: { retryDelay: 1 }, ...parameters },
+		});
+		const [output] = await node.execute.call(context);
+		return output;
+	}
+
+	it('gets the wallet balance', async () => {
+		const [item] = await execute({ operation: 'getBalance' });
+
+		expect(item.json.balance).toEqual({ available: 42.5, credits: 120, currency: 'USDC' });
+	});
+
+	it('builds a policy from the node parameters', async () => {
+		const [item] = await execute({
+			operation: 'setPolicy',
+			workflowDescription: 'Researches companies for the SDR team',
+			walletSource: 'custom',
+			walletId: 'wallet_abc',
+			spendingLimits: { perCall: 0.5, perDay: 5 },
+			domainRules: { allowedDomains: 'api.openai.com, anthropic.com', blockedDomains: '' },
+		});
+
+		expect(item.json.policy).toMatchObject({
+			description: 'Researches companies for the SDR team',
+			wallet: { source: 'custom', walletId: 'wallet_abc' },
+			limits: { perCall: 0.5, perDay: 5, perMonth: 100, lifetime: 0 },
+			domains: { allowed: ['api.openai.com', 'anthropic.com'], blocked: [] },
+		});
+		expect(mock.requests).toHaveLength(0);
+	});
+
+	it('combines account stats and wallet data for spending', async () => {
+		const [item] = await execute({ operation: 'getSpending' });
+
+		expect(item.json).toMatchObject({
+			spending: { totalSpent: 57.5, creditsUsed: 80 },
+			balance: { available: 42.5, credits: 120 },
+			stats: { totalRuns: 4, successfulRuns: 3 },
+		});
+	});
+
+	it('reports invalid credentials as AUTH_INVALID', async () => {
+		mock.intercept('GET', 'core', '/wallet/balance', { status: 401, body: { error: 'Invalid API key' } });
+
+		const [item] = await execute({ operation: 'getBalance' }, { continueOnFail: true });
+
+		expect(item.json).toMatchObject({ code: 'AUTH_INVALID', statusCode: 401 });
+		expect(item.json.remediation).toEqual(expect.any(String));
+	});
+});
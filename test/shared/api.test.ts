@@ -0,0 +1,98 @@
+import {
+	canonicalJson,
+	glyphCoreRequest,
+	getIdempotencyKey,
+	getRetryDelay,
+	isIdempotentRequest,
+	isReplayedResponse,
+	parseRetryAfter,
+} from '../../shared/api';
+import { XPayPayPerUse } from '../../nodes/XPayPayPerUse/XPayPayPerUse.node';
+import { createExecuteContext } from '../helpers';
+
+describe('shared/api', () => {
+	describe('parseRetryAfter', () => {
+		it('parses delays in seconds', () => {
+			expect(parseRetryAfter('3')).toBe(3000);
+			expect(parseRetryAfter(['0.5'])).toBe(500);
+		});
+
+		it('parses HTTP dates', () => {
+			const date = new Date(Date.now() + 10_000).toUTCString();
+			expect(parseRetryAfter(date)).toBeGreaterThan(8000);
+			expect(parseRetryAfter(new Date(Date.now() - 10_000).toUTCString())).toBe(0);
+		});
+
+		it('ignores missing or invalid values', () => {
+			expect(parseRetryAfter(undefined)).toBeUndefined();
+			expect(parseRetryAfter('soon')).toBeUndefined();
+		});
+	});
+
+	describe('getRetryDelay', () => {
+		const options = { maxRetries: 3, initialDelayMs: 100, maxDelayMs: 1000 };
+
+		it('honours Retry-After up to the maximum delay', () => {
+			const error = { response: { status: 429, headers: { 'retry-after': '2' } } };
+			expect(getRetryDelay(error, 0, options)).toBe(1000);
+		});
+
+		it('uses exponential backoff with jitter otherwise', () => {
+			jest.spyOn(Math, 'random').mockReturnValue(0.5);
+			try {
+				expect(getRetryDelay({}, 0, options)).toBe(50);
+				expect(getRetryDelay({}, 2, options)).toBe(200);
+				expect(getRetryDelay({}, 10, options)).toBe(500);
+			} finally {
+				jest.restoreAllMocks();
+			}
+		});
+	});
+
+	describe('isIdempotentRequest', () => {
+		it('only treats POST as safe to retry with an idempotency key', () => {
+			expect(isIdempotentRequest('GET')).toBe(true);
+			expect(isIdempotentRequest('DELETE')).toBe(true);
+			expect(isIdempotentRequest('POST')).toBe(false);
+			expect(isIdempotentRequest('POST', { 'Idempotency-Key': 'abc' })).toBe(true);
+		});
+	});
+
+	describe('idempotency keys', () => {
+		const node = new XPayPayPerUse();
+
+		it('serialises objects independently of key order', () => {
+			expect(canonicalJson({ b: 1, a: { d: [1, 2], c: undefined } })).toBe('{"a":{"d":[1,2]},"b":1}');
+		});
+
+		it('derives stable keys from the execution, item and payload', () => {
+			const context = createExecuteContext(node);
+			const key = getIdempotencyKey(context, 0, { slug: 'a', inputs: { x: 1, y: 2 } });
+
+			expect(key).toMatch(/^n8n_[0-9a-f]{48}$/);
+			expect(getIdempotencyKey(context, 0, { inputs: { y: 2, x: 1 }, slug: 'a' })).toBe(key);
+			expect(getIdempotencyKey(context, 1, { slug: 'a', inputs: { x: 1, y: 2 } })).not.toBe(key);
+			expect(getIdempotencyKey(createExecuteContext(node, { executionId: 'other' }), 0, { slug: 'a', inputs: { x: 1, y: 2 } })).not.toBe(key);
+		});
+
+		it('prefers a custom key', () => {
+			expect(getIdempotencyKey(createExecuteContext(node), 0, {}, 'order-1')).toBe('order-1');
+		});
+
+		it('detects replayed responses', () => {
+			expect(isReplayedResponse({ body: {}, headers: { 'idempotent-replayed': 'true' }, statusCode: 200 })).toBe(true);
+			expect(isReplayedResponse({ body: { replayed: true }, headers: {}, statusCode: 200 })).toBe(true);
+			expect(isReplayedResponse({ body: {}, headers: {}, statusCode: 200 })).toBe(false);
+		});
+	});
+
+	describe('base URLs', () => {
+		it('rejects a Custom credential without the URL instead of using the sandbox', async () => {
+			const context = createExecuteContext(new XPayPayPerUse(), {
+				credentials: { apiKey: 'xpay_sk_test', environment: 'custom', coreUrl: ' ' },
+			});
+
+			await expect(glyphCoreRequest(context, 'GET', '/glyphs')).rejects.toThrow('The xpay✦ credential has no Core API URL');
+		});
+	});
+});
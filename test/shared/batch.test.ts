@@ -0,0 +1,66 @@
+import { HostRateLimiter, getBatchOptions, runWithConcurrency } from '../../shared/batch';
+
+describe('shared/batch', () => {
+	it('runs items one after another by default', () => {
+		expect(getBatchOptions()).toEqual({ concurrency: 1, requestsPerSecond: 0 });
+		expect(getBatchOptions({ concurrency: 0, requestsPerSecond: -1 })).toEqual({ concurrency: 1, requestsPerSecond: 0 });
+		expect(getBatchOptions({ concurrency: 8, requestsPerSecond: 2.5 })).toEqual({ concurrency: 8, requestsPerSecond: 2.5 });
+	});
+
+	it('keeps at most the given number of tasks in flight', async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const started: number[] = [];
+
+		await runWithConcurrency(10, 3, async (index) => {
+			started.push(index);
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 5 + (index % 3) * 5));
+			running--;
+		});
+
+		expect(maxRunning).toBe(3);
+		expect(started).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+	});
+
+	it('stops starting tasks after a failure and throws it', async () => {
+		const started: number[] = [];
+
+		await expect(
+			runWithConcurrency(10, 2, async (index) => {
+				started.push(index);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				if (index === 1) throw new Error('item 1 failed');
+			}),
+		).rejects.toThrow('item 1 failed');
+		expect(started).toEqual([0, 1, 2]);
+	});
+
+	it('spaces out requests per host', async () => {
+		jest.useFakeTimers({ now: 0 });
+		try {
+			const limiter = new HostRateLimiter(10);
+			const started: Array<[string, number]> = [];
+			const acquire = (url: string) => limiter.acquire(url).then(() => started.push([new URL(url).host, Date.now()]));
+
+			const done = Promise.all([
+				acquire('https://core.example.test/glyphs'),
+				acquire('https://core.example.test/models'),
+				acquire('https://router.example.test/run'),
+				acquire('https://core.example.test/collections'),
+			]);
+			await jest.advanceTimersByTimeAsync(500);
+			await done;
+
+			expect(started).toEqual([
+				['core.example.test', 0],
+				['router.example.test', 0],
+				['core.example.test', 100],
+				['core.example.test', 200],
+			]);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+});
@@ -0,0 +1,50 @@
+import { TtlCache } from '../../shared/cache';
+
+describe('shared/cache', () => {
+	afterEach(() => jest.useRealTimers());
+
+	it('expires entries after their TTL', () => {
+		jest.useFakeTimers({ now: 0 });
+		const cache = new TtlCache<number>(10);
+		cache.set('a', Promise.resolve(1), 1000);
+
+		jest.setSystemTime(999);
+		expect(cache.get('a')).toBeDefined();
+		jest.setSystemTime(1000);
+		expect(cache.get('a')).toBeUndefined();
+		expect(cache.size).toBe(0);
+	});
+
+	it('evicts the oldest entry when full', () => {
+		const cache = new TtlCache<number>(2);
+		cache.set('a', Promise.resolve(1), 1000);
+		cache.set('b', Promise.resolve(2), 1000);
+		cache.set('a', Promise.resolve(3), 1000);
+		cache.set('c', Promise.resolve(4), 1000);
+
+		expect(cache.get('b')).toBeUndefined();
+		expect(cache.get('a')).toBeDefined();
+		expect(cache.get('c')).toBeDefined();
+	});
+
+	it('only deletes an entry that still holds the given value', () => {
+		const cache = new TtlCache<number>(10);
+		const stale = Promise.resolve(1);
+		cache.set('a', stale, 1000);
+		cache.set('a', Promise.resolve(2), 1000);
+
+		cache.delete('a', stale);
+		expect(cache.size).toBe(1);
+	});
+
+	it('clears entries by key prefix', () => {
+		const cache = new TtlCache<number>(10);
+		cache.set('one:/glyphs', Promise.resolve(1), 1000);
+		cache.set('one:/models', Promise.resolve(2), 1000);
+		cache.set('two:/glyphs', Promise.resolve(3), 1000);
+
+		cache.clear('one:');
+		expect(cache.size).toBe(1);
+		expect(cache.get('two:/glyphs')).toBeDefined();
+	});
+});
@@ -0,0 +1,37 @@
+import { scoreSimilarity, summarizeComparison, textSimilarity, toComparableText, type ModelComparisonRow } from '../../shared/compare';
+
+describe('shared/compare', () => {
+	it('scores text similarity by shared words', () => {
+		expect(textSimilarity('The risk is low', 'the RISK is low!')).toBe(1);
+		expect(textSimilarity('low risk', 'high reward')).toBe(0);
+		expect(textSimilarity('risk is low', 'risk is high')).toBeCloseTo(0.667, 3);
+		expect(textSimilarity('', '')).toBe(1);
+		expect(textSimilarity('', 'text')).toBe(0);
+	});
+
+	it('compares structured outputs by their canonical JSON', () => {
+		expect(toComparableText({ b: 2, a: 1 })).toBe(toComparableText({ a: 1, b: 2 }));
+		expect(toComparableText(undefined)).toBe('');
+	});
+
+	it('scores each successful row against the others and summarizes', () => {
+		const rows: ModelComparisonRow[] = [
+			{ modelId: 'a', success: true, status: 'completed', output: 'risk is low', cost: 0.01, latencyMs: 300 },
+			{ modelId: 'b', success: true, status: 'completed', output: 'risk is low', cost: 0.05, latencyMs: 100 },
+			{ modelId: 'c', success: false, status: 'error', cost: null, latencyMs: 50 },
+		];
+
+		scoreSimilarity(rows);
+
+		expect(rows.map((row) => row.similarity)).toEqual([1, 1, null]);
+		expect(summarizeComparison(rows)).toEqual({
+			models: 3,
+			succeeded: 2,
+			failed: 1,
+			skipped: 0,
+			cheapestModelId: 'a',
+			fastestModelId: 'b',
+			totalCost: 0.06,
+		});
+	});
+});
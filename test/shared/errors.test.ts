@@ -0,0 +1,68 @@
+import { NodeApiError } from 'n8n-workflow';
+import type { INode, JsonObject } from 'n8n-workflow';
+
+import { getErrorOutput, toXPayError, XPayOperationError } from '../../shared/errors';
+
+const node: INode = {
+	id: 'node-1',
+	name: 'xpay',
+	type: 'n8n-nodes-xpay.xPayPayPerUse',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+function httpError(status: number, data: unknown, headers: Record<string, string> = {}) {
+	return Object.assign(new Error(`Request failed with status code ${status}`), {
+		response: { status, headers, data },
+	});
+}
+
+function apiError(status: number, data: unknown) {
+	return new NodeApiError(node, httpError(status, data) as unknown as JsonObject);
+}
+
+describe('shared/errors', () => {
+	it.each([
+		[401, { error: 'Invalid API key' }, 'AUTH_INVALID'],
+		[402, { error: 'Insufficient balance' }, 'PAYMENT_REQUIRED'],
+		[402, { error: 'Per-call limit exceeded' }, 'POLICY_LIMIT_EXCEEDED'],
+		[403, { error: 'Forbidden' }, 'ACCESS_DENIED'],
+		[403, { error: 'Blocked', code: 'POLICY_DOMAIN_BLOCKED' }, 'POLICY_LIMIT_EXCEEDED'],
+		[404, { error: 'Glyph not found' }, 'NOT_FOUND'],
+		[429, { error: 'Slow down' }, 'RATE_LIMITED'],
+		[503, { error: 'Unavailable' }, 'SERVICE_FAILED'],
+		[400, { error: 'Bad input' }, 'REQUEST_FAILED'],
+	])('maps HTTP %i %j to %s', (status, body, code) => {
+		expect(toXPayError(node, apiError(status, body), 'run').xpayCode).toBe(code);
+	});
+
+	it('maps connection failures to NETWORK_ERROR', () => {
+		const error = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+		expect(toXPayError(node, error, 'run').xpayCode).toBe('NETWORK_ERROR');
+	});
+
+	it('keeps errors that are already mapped', () => {
+		const error = new XPayOperationError(node, 'Bad wallet');
+		expect(toXPayError(node, error, 'run')).toBe(error);
+	});
+
+	it('builds structured output with upstream details', () => {
+		const error = toXPayError(
+			node,
+			httpError(429, { error: 'Slow down', code: 'RATE_LIMIT', requestId: 'req_1' }, { 'retry-after': '2' }),
+			'discover',
+		);
+
+		expect(getErrorOutput(error)).toEqual({
+			error: 'Rate limit exceeded for discover. Please try again later.',
+			code: 'RATE_LIMITED',
+			remediation: expect.any(String),
+			statusCode: 429,
+			requestId: 'req_1',
+			upstreamCode: 'RATE_LIMIT',
+			retryAfterMs: 2000,
+			upstream: { error: 'Slow down', code: 'RATE_LIMIT', requestId: 'req_1' },
+		});
+	});
+});
@@ -0,0 +1,55 @@
+import { getAttemptsCost, getModelChain, runWithModelFallback } from '../../shared/fallback';
+
+const httpError = (status: number, body: object = {}) =>
+	Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data: body } });
+
+describe('shared/fallback', () => {
+	it('builds the model chain without blanks and duplicates', () => {
+		expect(getModelChain('gpt-4o-mini', ' gpt-4o, ,gpt-4o-mini, claude-3.5-sonnet ')).toEqual([
+			'gpt-4o-mini',
+			'gpt-4o',
+			'claude-3.5-sonnet',
+		]);
+		expect(getModelChain('gpt-4o-mini')).toEqual(['gpt-4o-mini']);
+	});
+
+	it('moves to the next model on retryable failures', async () => {
+		const run = jest.fn(async (modelId: string) => {
+			if (modelId === 'a') throw httpError(429, { cost: 0.001 });
+			return { runId: `run_${modelId}`, cost: 0.02 };
+		});
+
+		const { result, modelId, attempts } = await runWithModelFallback(['a', 'b'], run, {
+			getRunId: (r) => r.runId,
+			getCost: (r) => r.cost,
+		});
+
+		expect(result.runId).toBe('run_b');
+		expect(modelId).toBe('b');
+		expect(attempts).toEqual([
+			expect.objectContaining({ modelId: 'a', status: 'failed', cost: 0.001, statusCode: 429 }),
+			expect.objectContaining({ modelId: 'b', status: 'success', cost: 0.02, runId: 'run_b' }),
+		]);
+		expect(getAttemptsCost(attempts)).toBe(0.021);
+	});
+
+	it('throws errors that are not retryable right away', async () => {
+		const run = jest.fn(async () => {
+			throw httpError(400);
+		});
+
+		await expect(runWithModelFallback(['a', 'b'], run)).rejects.toThrow('status code 400');
+		expect(run).toHaveBeenCalledTimes(1);
+	});
+
+	it('throws the last error when no model succeeds', async () => {
+		const run = jest.fn(async (modelId: string) => {
+			throw httpError(modelId === 'a' ? 503 : 502);
+		});
+
+		await expect(
+			runWithModelFallback(['a', 'b', 'c'], run, { skip: async (modelId) => (modelId === 'c' ? 'over budget' : undefined) }),
+		).rejects.toThrow('status code 502');
+		expect(run.mock.calls.map(([modelId]) => modelId)).toEqual(['a', 'b']);
+	});
+});
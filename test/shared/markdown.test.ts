@@ -0,0 +1,50 @@
+import { extractCodeBlocks, markdownToHtml } from '../../shared/markdown';
+
+describe('shared/markdown', () => {
+	it('extracts fenced code blocks with their language', () => {
+		const markdown = 'Intro\n\n```json\n{"risk": "low"}\n```\n\n~~~\nplain\n~~~\n';
+
+		expect(extractCodeBlocks(markdown)).toEqual([{ language: 'json', code: '{"risk": "low"}' }, { code: 'plain' }]);
+		expect(extractCodeBlocks('no code here')).toEqual([]);
+	});
+
+	it('renders headings, paragraphs, lists and code', () => {
+		const markdown = [
+			'## Summary',
+			'',
+			'The agreement runs for **12 months** and renews _automatically_.',
+			'',
+			'- Term: `12m`',
+			'- Notice: 30 days',
+			'',
+			'1. Sign',
+			'2. Return',
+			'',
+			'```json',
+			'{"risk": "low"}',
+			'```',
+		].join('\n');
+
+		expect(markdownToHtml(markdown)).toBe(
+			[
+				'<h2>Summary</h2>',
+				'<p>The agreement runs for <strong>12 months</strong> and renews <em>automatically</em>.</p>',
+				'<ul><li>Term: <code>12m</code></li><li>Notice: 30 days</li></ul>',
+				'<ol><li>Sign</li><li>Return</li></ol>',
+				'<pre><code class="language-json">{&quot;risk&quot;: &quot;low&quot;}</code></pre>',
+			].join('\n'),
+		);
+	});
+
+	it('renders quotes, rules and links', () => {
+		expect(markdownToHtml('> Quoted *text*\n\n---\n\nSee [docs](https://docs.xpay.sh).')).toBe(
+			'<blockquote><p>Quoted <em>text</em></p></blockquote>\n<hr>\n<p>See <a href="https://docs.xpay.sh">docs</a>.</p>',
+		);
+	});
+
+	it('escapes HTML and drops unsafe links', () => {
+		expect(markdownToHtml('<script>alert(1)</script> [x](javascript:void) snake_case_name')).toBe(
+			'<p>&lt;script&gt;alert(1)&lt;/script&gt; x snake_case_name</p>',
+		);
+	});
+});
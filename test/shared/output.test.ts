@@ -0,0 +1,103 @@
+import { getOutputOptions, normalizeOutput, validateJsonSchema } from '../../shared/output';
+
+describe('shared/output', () => {
+	describe('normalizeOutput', () => {
+		const json = { type: 'json', mimeType: 'application/json' };
+
+		it('parses JSON strings and fenced JSON', () => {
+			expect(normalizeOutput('{"score": 82}', json)).toEqual({ output: { score: 82 }, rawOutput: '{"score": 82}' });
+			expect(normalizeOutput('```json\n{"score": 82}\n```', json).output).toEqual({ score: 82 });
+		});
+
+		it('leaves structured outputs alone', () => {
+			expect(normalizeOutput({ score: 82 }, json)).toEqual({ output: { score: 82 } });
+		});
+
+		it('reports JSON that does not parse', () => {
+			const fields = normalizeOutput('score: 82', json);
+
+			expect(fields.output).toBe('score: 82');
+			expect(fields.outputParseError).toMatch(/^Output is not valid JSON/);
+			expect(fields.rawOutput).toBeUndefined();
+		});
+
+		it('takes code out of its fence', () => {
+			const output = 'Here you go:\n\n```sql\nSELECT 1;\n```\n```python\nprint(1)\n```';
+
+			expect(normalizeOutput(output, { type: 'code', language: 'python' })).toEqual({
+				output: 'print(1)',
+				language: 'python',
+				rawOutput: output,
+			});
+			expect(normalizeOutput(output, { type: 'code' })).toMatchObject({ output: 'SELECT 1;', language: 'sql' });
+		});
+
+		it('lists code blocks of markdown and optionally converts it to HTML', () => {
+			const markdown = '## Summary\n\n```json\n{"risk": "low"}\n```\n';
+			const outputs = { type: 'markdown', mimeType: 'text/markdown' };
+
+			expect(normalizeOutput(markdown, outputs)).toEqual({
+				output: markdown,
+				codeBlocks: [{ language: 'json', code: '{"risk": "low"}' }],
+			});
+			expect(normalizeOutput(markdown, outputs, { markdownToHtml: true })).toMatchObject({
+				output: expect.stringMatching(/^<h2>Summary<\/h2>/),
+				rawOutput: markdown,
+			});
+		});
+
+		it('keeps plain text', () => {
+			expect(normalizeOutput('Bonjour', { type: 'text', mimeType: 'text/plain' })).toEqual({ output: 'Bonjour' });
+		});
+	});
+
+	describe('validateJsonSchema', () => {
+		const schema = {
+			type: 'object',
+			required: ['score', 'qualified'],
+			additionalProperties: false,
+			properties: {
+				score: { type: 'integer', minimum: 0, maximum: 100 },
+				qualified: { type: 'boolean' },
+				tier: { enum: ['a', 'b'] },
+				tags: { type: 'array', maxItems: 2, items: { type: 'string', pattern: '^[a-z]+$' } },
+			},
+		};
+
+		it('accepts matching values', () => {
+			expect(validateJsonSchema({ score: 82, qualified: true, tags: ['sdr'] }, schema)).toEqual([]);
+		});
+
+		it('lists every mismatch with its path', () => {
+			expect(validateJsonSchema({ score: 120, tier: 'c', tags: ['SDR', 'x', 'y'], extra: 1 }, schema)).toEqual([
+				{ path: '$.qualified', message: 'is required' },
+				{ path: '$.score', message: 'must be at most 100' },
+				{ path: '$.tier', message: 'must be one of: "a", "b"' },
+				{ path: '$.tags', message: 'must have at most 2 items' },
+				{ path: '$.tags[0]', message: 'must match ^[a-z]+$' },
+				{ path: '$.extra', message: 'is not allowed' },
+			]);
+		});
+
+		it('checks the type first', () => {
+			expect(validateJsonSchema('82', schema)).toEqual([{ path: '$', message: 'must be object, got string' }]);
+			expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual([{ path: '$', message: 'must be integer, got number' }]);
+			expect(validateJsonSchema(2, { type: 'number' })).toEqual([]);
+		});
+	});
+
+	describe('getOutputOptions', () => {
+		const node = { typeVersion: 1.1 } as any;
+
+		it('parses outputs by default from version 1.1', () => {
+			expect(getOutputOptions(node, {}).parse).toBe(true);
+			expect(getOutputOptions({ typeVersion: 1 } as any, {}).parse).toBe(false);
+			expect(getOutputOptions({ typeVersion: 1 } as any, { parseOutput: true }).parse).toBe(true);
+		});
+
+		it('rejects schemas that are not valid JSON', () => {
+			expect(() => getOutputOptions(node, { outputSchema: '{ type: object' })).toThrow(/^Output JSON Schema is not valid JSON/);
+			expect(getOutputOptions(node, { outputSchema: '{"type": "object"}' }).jsonSchema).toEqual({ type: 'object' });
+		});
+	});
+});
@@ -0,0 +1,132 @@
+import * as api from '../../shared/api';
+import { DEFAULTS } from '../../shared/constants';
+import { pollRunStatus } from '../../shared/polling';
+import { XPayPayPerUse } from '../../nodes/XPayPayPerUse/XPayPayPerUse.node';
+import { createExecuteContext } from '../helpers';
+
+describe('shared/polling', () => {
+	const defaults = { ...DEFAULTS };
+	let sleeps: number[];
+
+	function createContext(responses: Array<object | Error>) {
+		const context = createExecuteContext(new XPayPayPerUse(), {
+			credentials: { apiKey: 'xpay_sk_test', environment: 'custom', routerUrl: 'https://router.example.test' },
+		});
+		const request = jest.fn(async () => {
+			const response = responses.length > 1 ? responses.shift()! : responses[0];
+			if (response instanceof Error) throw response;
+			return response;
+		});
+		(context.helpers as any).httpRequestWithAuthentication = request;
+		return { context, request };
+	}
+
+	const processing = (progress?: number, extra: object = {}) => ({ runId: 'run_1', status: 'processing', progress, ...extra });
+	const unavailable = () => Object.assign(new Error('Service Unavailable'), { response: { status: 503 } });
+
+	beforeEach(() => {
+		jest.useFakeTimers({ now: 0 });
+		sleeps = [];
+		jest.spyOn(api, 'sleep').mockImplementation(async (ms) => {
+			sleeps.push(ms);
+			jest.setSystemTime(Date.now() + ms);
+		});
+		Object.assign(DEFAULTS, { POLLING_INTERVAL_MS: 100, POLLING_MAX_INTERVAL_MS: 200, POLLING_BACKOFF_FACTOR: 1.5 });
+	});
+
+	afterEach(() => {
+		Object.assign(DEFAULTS, defaults);
+		jest.restoreAllMocks();
+		jest.useRealTimers();
+	});
+
+	it('backs off while nothing changes and speeds up on progress', async () => {
+		const { context } = createContext([
+			processing(10),
+			processing(10),
+			processing(10),
+			processing(60),
+			{ runId: 'run_1', status: 'success', output: 'done' },
+		]);
+
+		const outcome = await pollRunStatus(context, 'run_1', 60_000, { retry: { maxRetries: 0 } });
+
+		expect(sleeps).toEqual([100, 100, 150, 200, 100]);
+		expect(outcome).toMatchObject({ status: 'completed', polls: 5, pollErrors: 0, elapsedMs: 650 });
+		expect(outcome.timeline).toEqual([
+			{ status: 'processing', progress: 10, at: new Date(100).toISOString(), elapsedMs: 100 },
+			{ status: 'processing', progress: 60, at: new Date(550).toISOString(), elapsedMs: 550 },
+			{ status: 'success', at: new Date(650).toISOString(), elapsedMs: 650 },
+		]);
+	});
+
+	it('keeps the last partial output', async () => {
+		const { context } = createContext([
+			processing(30, { step: 'drafting', partialOutput: 'Example' }),
+			processing(60, { step: 'drafting' }),
+			processing(90, { step: 'reviewing', partialOutput: 'Example Corp' }),
+			{ runId: 'run_1', status: 'failed', error: 'Model refused' },
+		]);
+
+		const outcome = await pollRunStatus(context, 'run_1', 60_000, { retry: { maxRetries: 0 } });
+
+		expect(outcome.status).toBe('failed');
+		expect(outcome.partialOutput).toBe('Example Corp');
+		expect(outcome.statusResult).toMatchObject({ error: 'Model refused' });
+		expect(outcome.timeline.map((entry) => entry.step)).toEqual(['drafting', 'drafting', 'reviewing', undefined]);
+	});
+
+	it('rides out transient status errors', async () => {
+		const { context } = createContext([unavailable(), unavailable(), processing(50), { runId: 'run_1', status: 'completed' }]);
+
+		const outcome = await pollRunStatus(context, 'run_1', 60_000, { retry: { maxRetries: 0 } });
+
+		expect(outcome).toMatchObject({ status: 'completed', polls: 4, pollErrors: 2 });
+		expect(sleeps).toEqual([100, 150, 200, 100]);
+	});
+
+	it('gives up after too many transient errors in a row', async () => {
+		const { context, request } = createContext([unavailable()]);
+
+		await expect(pollRunStatus(context, 'run_1', 60_000, { retry: { maxRetries: 0 } })).rejects.toThrow('Service Unavailable');
+		expect(request).toHaveBeenCalledTimes(DEFAULTS.POLLING_MAX_CONSECUTIVE_ERRORS);
+	});
+
+	it('fails at once on errors that are not transient', async () => {
+		const { context, request } = createContext([Object.assign(new Error('Not Found'), { response: { status: 404 } })]);
+
+		await expect(pollRunStatus(context, 'run_1', 60_000, { retry: { maxRetries: 0 } })).rejects.toThrow('Not Found');
+		expect(request).toHaveBeenCalledTimes(1);
+	});
+
+	it('stops when the execution is aborted', async () => {
+		const controller = new AbortController();
+		const { context, request } = createContext([processing(10)]);
+		request.mockImplementationOnce(async () => {
+			controller.abort();
+			return processing(10);
+		});
+
+		const outcome = await pollRunStatus(context, 'run_1', 60_000, {}, controller.signal);
+
+		expect(outcome).toMatchObject({ status: 'aborted', polls: 1 });
+	});
+
+	it('reports runs cancelled elsewhere', async () => {
+		const { context } = createContext([{ runId: 'run_1', status: 'cancelled' }]);
+
+		const outcome = await pollRunStatus(context, 'run_1', 60_000);
+
+		expect(outcome.status).toBe('cancelled');
+	});
+
+	it('stops at the timeout', async () => {
+		const { context } = createContext([processing(10)]);
+
+		const outcome = await pollRunStatus(context, 'run_1', 1000, { retry: { maxRetries: 0 } });
+
+		expect(outcome.status).toBe('timeout');
+		expect(sleeps.reduce((total, ms) => total + ms, 0)).toBe(1000);
+		expect(outcome.timeline).toHaveLength(1);
+	});
+});
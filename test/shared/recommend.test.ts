@@ -0,0 +1,101 @@
+import {
+	DEFAULT_RECOMMEND_WEIGHTS,
+	getConstraintViolations,
+	getRecommendWeights,
+	getRunPrice,
+	recommendServices,
+} from '../../shared/recommend';
+import type { Glyph } from '../../shared/types';
+
+function glyph(slug: string, overrides: Partial<Glyph> = {}, stats: Partial<Glyph['stats']> = {}): Glyph {
+	return {
+		id: `id_${slug}`,
+		slug,
+		name: slug,
+		status: 'published',
+		verified: true,
+		tags: ['sdr'],
+		pricing: { model: 'per-run', amount: 0.01, currency: 'USDC' },
+		...overrides,
+		stats: {
+			totalRuns: 100,
+			totalRevenue: 1,
+			averageRating: 4,
+			totalRatings: 50,
+			successRate: 0.95,
+			averageLatency: 1000,
+			...stats,
+		},
+	} as Glyph;
+}
+
+describe('shared/recommend', () => {
+	it('fills unset weights with the defaults', () => {
+		expect(getRecommendWeights({ price: 0, latency: 5 })).toEqual({ ...DEFAULT_RECOMMEND_WEIGHTS, price: 0, latency: 5 });
+		expect(getRecommendWeights()).toEqual(DEFAULT_RECOMMEND_WEIGHTS);
+	});
+
+	it('prices runs only when the price is fixed', () => {
+		expect(getRunPrice(glyph('a'))).toBe(0.01);
+		expect(getRunPrice(glyph('a', { pricing: { model: 'free', amount: 0, currency: 'USDC' } }))).toBe(0);
+		expect(getRunPrice(glyph('a', { pricing: { model: 'per-token', amount: 0, currency: 'USDC' } }))).toBeUndefined();
+	});
+
+	it('explains every broken constraint', () => {
+		const service = glyph('a', { status: 'deprecated', tags: ['Legal'], pricing: { model: 'per-second', amount: 0, currency: 'USDC' } }, { successRate: 0.8 });
+
+		expect(getConstraintViolations(service, { maxPrice: 1, minSuccessRate: 0.9, requiredTags: ['legal', 'sdr', 'code'] })).toEqual([
+			'status is deprecated',
+			'price is not fixed (per-second)',
+			'success rate 80% is below the minimum of 90%',
+			'missing tags sdr, code',
+		]);
+		expect(getConstraintViolations(glyph('b'), { maxPrice: 0.01, minSuccessRate: 0.95, requiredTags: ['SDR'] })).toEqual([]);
+	});
+
+	it('ranks by the weighted scores and explains them', () => {
+		const { recommendations, excluded } = recommendServices(
+			[
+				glyph('slow', {}, { averageLatency: 5000 }),
+				glyph('fast', {}, { averageLatency: 500 }),
+				glyph('pricey', { pricing: { model: 'per-run', amount: 1, currency: 'USDC' } }),
+			],
+			DEFAULT_RECOMMEND_WEIGHTS,
+			{ maxPrice: 0.5 },
+		);
+
+		expect(recommendations.map((r) => [r.rank, r.serviceSlug])).toEqual([[1, 'fast'], [2, 'slow']]);
+		expect(recommendations[1].scores).toEqual({ successRate: 0.95, latency: 0, rating: 0.743, price: 1, verified: 1 });
+		expect(recommendations[0].explanation).toEqual([
+			'success rate 95% → 0.95 × 3',
+			'latency 0.5 s → 1 × 2',
+			'rating 4 from 50 ratings → 0.743 × 2',
+			'price 0.01 USDC per run → 1 × 2',
+			'verified yes → 1 × 1',
+		]);
+		expect(excluded).toEqual([{ serviceSlug: 'pricey', reasons: ['price 1 USDC is above the max price of 0.5 USDC'] }]);
+	});
+
+	it('weighs ratings by how many there are', () => {
+		const { recommendations } = recommendServices(
+			[glyph('few', {}, { averageRating: 5, totalRatings: 2 }), glyph('many', {}, { averageRating: 4.7, totalRatings: 400 })],
+			{ successRate: 0, latency: 0, rating: 1, price: 0, verified: 0 },
+		);
+
+		expect(recommendations.map((r) => r.serviceSlug)).toEqual(['many', 'few']);
+		expect(recommendations[0].explanation).toEqual(['rating 4.7 from 400 ratings → 0.924 × 1']);
+	});
+
+	it('scores unknown values in the middle', () => {
+		const { recommendations } = recommendServices(
+			[glyph('usage', { pricing: { model: 'per-token', amount: 0, currency: 'USDC' } })],
+			{ successRate: 0, latency: 0, rating: 0, price: 1, verified: 0 },
+		);
+
+		expect(recommendations[0]).toMatchObject({
+			score: 0.5,
+			scores: { price: null },
+			explanation: ['price per-token pricing → 0.5 (unknown) × 1'],
+		});
+	});
+});
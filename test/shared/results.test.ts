@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+	type CachedResult,
+	FileResultStore,
+	RedisResultStore,
+	StaticDataResultStore,
+	getResultCacheKey,
+	getResultCacheOptions,
+	readCachedResult,
+} from '../../shared/results';
+import { createRedisStandIn } from '../mock-server/redis';
+
+describe('shared/results', () => {
+	const entry: CachedResult = { runId: 'run_1', modelId: 'gpt-4o-mini', output: { score: 82 }, cost: 0.05, cachedAt: '2026-01-01T00:00:00.000Z' };
+	const run = { serviceSlug: 'lead-scorer', serviceVersion: '1.2.0', modelId: 'gpt-4o-mini', inputs: { a: 1, b: 'x' } };
+
+	afterEach(() => jest.useRealTimers());
+
+	it('keys runs by credential, service, version, model chain and canonical inputs', () => {
+		const key = getResultCacheKey('scope', run);
+
+		expect(key).toMatch(/^xpay:result:[0-9a-f]{64}$/);
+		expect(getResultCacheKey('scope', { ...run, inputs: { b: 'x', a: 1 } })).toBe(key);
+		expect(getResultCacheKey('other', run)).not.toBe(key);
+		expect(getResultCacheKey('scope', { ...run, serviceVersion: '1.3.0' })).not.toBe(key);
+		expect(getResultCacheKey('scope', { ...run, modelId: 'gpt-4o' })).not.toBe(key);
+		expect(getResultCacheKey('scope', { ...run, fallbackModels: ['gpt-4o'] })).not.toBe(key);
+		expect(getResultCacheKey('scope', { ...run, inputs: { a: 2, b: 'x' } })).not.toBe(key);
+		expect(getResultCacheKey('scope', { ...run, temperature: 0 })).not.toBe(key);
+	});
+
+	it('reads the options with defaults', () => {
+		expect(getResultCacheOptions({})).toMatchObject({ enabled: false, ttlMs: 86400000, store: 'staticData' });
+		expect(getResultCacheOptions({ cacheResults: true, resultCacheTtl: 60, resultCacheStore: 'file' })).toMatchObject({
+			enabled: true,
+			ttlMs: 60000,
+			store: 'file',
+		});
+	});
+
+	it('expires static data entries after their TTL', async () => {
+		jest.useFakeTimers({ now: 0 });
+		const staticData = {};
+		const store = new StaticDataResultStore(staticData);
+		await store.set('a', entry, 1000);
+
+		expect(await store.get('a')).toEqual(entry);
+		jest.setSystemTime(1000);
+		expect(await store.get('a')).toBeUndefined();
+
+		await store.set('b', entry, 1000);
+		expect(Object.keys((staticData as any).xpayResultCache)).toEqual(['b']);
+	});
+
+	it('keeps entries of concurrent writes in a local file', async () => {
+		const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xpay-results-'));
+		try {
+			const store = new FileResultStore(path.join(directory, 'cache', 'results.json'));
+			expect(await store.get('a')).toBeUndefined();
+
+			await Promise.all(['a', 'b', 'c'].map((key) => store.set(key, { ...entry, runId: key }, 60000)));
+
+			expect((await new FileResultStore(path.join(directory, 'cache', 'results.json')).get('b'))?.runId).toBe('b');
+			expect(await store.get('c')).toMatchObject({ runId: 'c' });
+		} finally {
+			await fs.promises.rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	it('reports store errors as a cache miss', async () => {
+		const lookup = await readCachedResult(new FileResultStore(os.tmpdir()), 'a');
+
+		expect(lookup).toEqual({ cacheError: expect.stringMatching(/^Result cache not read: EISDIR/) });
+	});
+
+	describe('redis', () => {
+		const redis = createRedisStandIn({ password: 'secret' });
+		let redisUrl: string;
+
+		beforeAll(async () => {
+			redisUrl = await redis.start();
+		});
+		afterAll(() => redis.stop());
+		beforeEach(() => redis.reset());
+
+		it('stores entries with an expiry in the selected database', async () => {
+			const store = new RedisResultStore(`${redisUrl.replace('redis://', 'redis://:secret@')}/2`);
+			await store.set('a', entry, 60000);
+
+			expect(await store.get('a')).toEqual(entry);
+			expect(await store.get('missing')).toBeUndefined();
+			expect(redis.state.commands.find((command) => command[0] === 'SET')).toEqual([
+				'SET',
+				'a',
+				JSON.stringify(entry),
+				'PX',
+				'60000',
+			]);
+			expect(redis.state.entries.has('2:a')).toBe(true);
+		});
+
+		it('reports store errors as a cache miss', async () => {
+			const lookup = await readCachedResult(new RedisResultStore(redisUrl), 'a');
+
+			expect(lookup).toEqual({ cacheError: 'Result cache not read: Redis error: NOAUTH Authentication required.' });
+		});
+
+		it('rejects URLs that are not redis://', () => {
+			expect(() => new RedisResultStore('http://localhost:6379')).toThrow('Unsupported Redis URL');
+		});
+	});
+});
@@ -0,0 +1,97 @@
+import { getSchemaChanges, getSchemaHash, toResourceMapperField, validateInputs } from '../../shared/schema';
+import type { GlyphSchemaField } from '../../shared/types';
+
+describe('shared/schema', () => {
+	describe('validateInputs', () => {
+		const field = (overrides: Partial<GlyphSchemaField>): GlyphSchemaField => ({
+			name: 'value',
+			label: 'Value',
+			type: 'text',
+			required: false,
+			...overrides,
+		});
+		const rules = (inputs: Record<string, any>, fields: GlyphSchemaField[]) =>
+			validateInputs(inputs, fields).map((error) => `${error.field}:${error.rule}`);
+
+		it('reports missing required fields', () => {
+			const fields = [field({ name: 'a', required: true }), field({ name: 'b', required: true }), field({ name: 'c' })];
+
+			expect(rules({ a: 'set', b: '' }, fields)).toEqual(['b:required']);
+		});
+
+		it('checks numbers against min and max', () => {
+			const fields = [field({ type: 'number', min: 0, max: 100 })];
+
+			expect(rules({ value: 50 }, fields)).toEqual([]);
+			expect(rules({ value: '50' }, fields)).toEqual([]);
+			expect(rules({ value: -1 }, fields)).toEqual(['value:min']);
+			expect(rules({ value: 101 }, fields)).toEqual(['value:max']);
+			expect(rules({ value: 'many' }, fields)).toEqual(['value:type']);
+		});
+
+		it('checks select options and checkboxes', () => {
+			expect(rules({ value: 'deep' }, [field({ type: 'select', options: ['quick', 'deep'] })])).toEqual([]);
+			expect(rules({ value: 'slow' }, [field({ type: 'select', options: ['quick', 'deep'] })])).toEqual(['value:option']);
+			expect(rules({ value: 'true' }, [field({ type: 'checkbox' })])).toEqual([]);
+			expect(rules({ value: 'yes' }, [field({ type: 'checkbox' })])).toEqual(['value:type']);
+		});
+
+		it('checks URLs', () => {
+			const fields = [field({ type: 'url' })];
+
+			expect(rules({ value: 'https://example.com/a?b=1' }, fields)).toEqual([]);
+			expect(rules({ value: 'example.com' }, fields)).toEqual(['value:url']);
+			expect(rules({ value: 'ftp://example.com' }, fields)).toEqual(['value:url']);
+		});
+
+		it('checks file types against accept', () => {
+			const fields = [field({ type: 'file', accept: '.pdf,.docx,image/*' })];
+
+			expect(rules({ value: 'https://files.example.com/contract.PDF' }, fields)).toEqual([]);
+			expect(rules({ value: 'data:image/png;base64,iVBORw0KGgo=' }, fields)).toEqual([]);
+			expect(rules({ value: { fileName: 'notes.docx' } }, fields)).toEqual([]);
+			expect(rules({ value: 'contract.txt' }, fields)).toEqual(['value:accept']);
+			expect(rules({ value: 'data:text/plain;base64,aGk=' }, fields)).toEqual(['value:accept']);
+			// Type cannot be determined, so the API decides
+			expect(rules({ value: 'https://files.example.com/download' }, fields)).toEqual([]);
+		});
+
+		it('ignores inputs without a schema field', () => {
+			expect(validateInputs({ extra: 'x' }, [])).toEqual([]);
+		});
+	});
+
+	describe('schema changes', () => {
+		const fields: GlyphSchemaField[] = [
+			{ name: 'company', label: 'Company', type: 'text', required: true },
+			{ name: 'depth', label: 'Depth', type: 'number', required: false },
+			{ name: 'url', label: 'Website', type: 'url', required: false },
+		];
+
+		it('lists removed, retyped, newly required and added inputs', () => {
+			const saved = fields.map(toResourceMapperField);
+			const current: GlyphSchemaField[] = [
+				{ ...fields[0] },
+				{ ...fields[1], type: 'text' },
+				{ ...fields[2], required: true },
+				{ name: 'region', label: 'Region', type: 'text', required: true },
+			];
+
+			expect(getSchemaChanges(saved, current)).toEqual([
+				'input depth changed type from number to string',
+				'input url is now required',
+				'required input region was added',
+			]);
+			expect(getSchemaChanges(saved, fields.slice(1))).toEqual(['input company was removed']);
+			expect(getSchemaChanges(saved, fields)).toEqual([]);
+		});
+
+		it('fingerprints the schema regardless of key order', () => {
+			const hash = getSchemaHash({ inputs: fields, outputs: { type: 'json' } });
+
+			expect(hash).toMatch(/^[0-9a-f]{16}$/);
+			expect(getSchemaHash({ outputs: { type: 'json' }, inputs: fields })).toBe(hash);
+			expect(getSchemaHash({ inputs: fields, outputs: { type: 'text' } })).not.toBe(hash);
+		});
+	});
+});
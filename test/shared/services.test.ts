@@ -0,0 +1,93 @@
+import type { INode } from 'n8n-workflow';
+
+import { toResourceMapperField } from '../../shared/schema';
+import { checkServiceLifecycle, getServiceWarnings, parseServiceLocator, parseServiceUrl } from '../../shared/services';
+import type { Glyph } from '../../shared/types';
+
+describe('shared/services', () => {
+	it('parses marketplace links', () => {
+		expect(parseServiceUrl('https://app.xpay.sh/marketplace/account-intel')).toBe('account-intel');
+		expect(parseServiceUrl('https://app.xpay.sh/marketplace/account-intel/?ref=x#top')).toBe('account-intel');
+		expect(parseServiceUrl('http://localhost:3000/en/glyph/lead-scorer')).toBe('lead-scorer');
+		expect(parseServiceUrl('https://app.xpay.sh/settings')).toBeUndefined();
+		expect(parseServiceUrl('account-intel')).toBeUndefined();
+	});
+
+	it('reads locator values and plain strings', () => {
+		expect(parseServiceLocator({ __rl: true, mode: 'list', value: 'account-intel' })).toBe('account-intel');
+		expect(parseServiceLocator({ __rl: true, mode: 'slug', value: ' glyph_001 ' })).toBe('glyph_001');
+		expect(parseServiceLocator({ __rl: true, mode: 'url', value: 'https://app.xpay.sh/marketplace/lead-scorer' })).toBe('lead-scorer');
+		expect(parseServiceLocator('https://app.xpay.sh/marketplace/lead-scorer')).toBe('lead-scorer');
+		expect(parseServiceLocator('account-intel')).toBe('account-intel');
+	});
+
+	it('returns undefined for empty and malformed values', () => {
+		expect(parseServiceLocator(undefined)).toBeUndefined();
+		expect(parseServiceLocator({ __rl: true, mode: 'list', value: '' })).toBeUndefined();
+		expect(parseServiceLocator({ __rl: true, mode: 'url', value: 'not a link' })).toBeUndefined();
+		expect(parseServiceLocator('account intel')).toBeUndefined();
+	});
+
+	describe('lifecycle', () => {
+		const node = { name: 'xpay✦ Pay-per-Use' } as INode;
+		const glyph = {
+			slug: 'legacy-translator',
+			status: 'published',
+			version: '1.0.0',
+			schema: { inputs: [{ name: 'text', label: 'Text', type: 'textarea', required: true }] },
+		} as Glyph;
+
+		it('warns about deprecated services', () => {
+			expect(getServiceWarnings(glyph)).toEqual([]);
+			expect(getServiceWarnings({ ...glyph, status: 'deprecated' })).toEqual([
+				{
+					code: 'SERVICE_DEPRECATED',
+					message: 'Service legacy-translator is deprecated and may be archived; move to a replacement service',
+				},
+			]);
+		});
+
+		it('warns about the current version of a pinned service', () => {
+			const pinned = { ...glyph, version: '0.9.0' };
+
+			expect(getServiceWarnings(pinned, { current: glyph })).toEqual([]);
+			expect(getServiceWarnings(pinned, { current: { ...glyph, status: 'deprecated' } })).toEqual([
+				{
+					code: 'SERVICE_DEPRECATED',
+					message:
+						'The current version (1.0.0) of service legacy-translator is deprecated and may be archived; move to a replacement service',
+				},
+			]);
+			expect(getServiceWarnings(pinned, { current: { ...glyph, status: 'archived' } })).toEqual([
+				{
+					code: 'SERVICE_UNAVAILABLE',
+					message:
+						'The current version (1.0.0) of service legacy-translator is not published (status: archived); the pinned version 0.9.0 may be withdrawn',
+				},
+			]);
+			expect(getServiceWarnings({ ...glyph, status: 'deprecated' }, { current: { ...glyph, status: 'deprecated' } })).toHaveLength(1);
+		});
+
+		it('flags schema changes against the saved fields and the expected hash', () => {
+			const savedFields = [
+				toResourceMapperField(glyph.schema.inputs[0]),
+				toResourceMapperField({ name: 'tone', label: 'Tone', type: 'text', required: false }),
+			];
+
+			expect(getServiceWarnings(glyph, { savedFields, expectedSchemaHash: '0000000000000000' })).toEqual([
+				{
+					code: 'SCHEMA_CHANGED',
+					message: 'Inputs of service legacy-translator changed since the workflow was saved: input tone was removed',
+				},
+				{ code: 'SCHEMA_CHANGED', message: expect.stringMatching(/expected 0000000000000000\)$/) },
+			]);
+		});
+
+		it('throws the first warning when asked to stop', () => {
+			expect(() => checkServiceLifecycle(node, { ...glyph, status: 'deprecated' }, { action: 'error' }, 2)).toThrow(
+				expect.objectContaining({ xpayCode: 'SERVICE_DEPRECATED' }),
+			);
+			expect(checkServiceLifecycle(node, glyph, { action: 'error' })).toEqual([]);
+		});
+	});
+});
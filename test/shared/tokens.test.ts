@@ -0,0 +1,49 @@
+import {
+	countTokens,
+	estimateFromPricing,
+	getTextField,
+	getTokenizer,
+	projectOutputTokens,
+} from '../../shared/tokens';
+
+describe('shared/tokens', () => {
+	const gpt4oMini = { modelId: 'gpt-4o-mini', provider: 'openai' as const, maxOutputTokens: 16384 };
+	const haiku = { modelId: 'claude-3.5-haiku', provider: 'anthropic' as const, maxOutputTokens: 8192 };
+
+	it('picks the tokenizer for the model provider', () => {
+		expect(getTokenizer(gpt4oMini)).toEqual({ encoding: 'o200k_base', scale: 1 });
+		expect(getTokenizer({ modelId: 'gpt-4-turbo', provider: 'openai' })).toEqual({ encoding: 'cl100k_base', scale: 1 });
+		expect(getTokenizer(haiku)).toEqual({ encoding: 'cl100k_base', scale: 1.15 });
+	});
+
+	it('counts tokens, scaled for providers without a public tokenizer', async () => {
+		expect(await countTokens('hello world', gpt4oMini)).toBe(2);
+		expect(await countTokens('hello world', haiku)).toBe(3);
+		expect(await countTokens('', haiku)).toBe(0);
+	});
+
+	it('projects output tokens from a ratio or the output limit', () => {
+		expect(projectOutputTokens(1000, haiku, { source: 'ratio', ratio: 0.5 })).toBe(500);
+		expect(projectOutputTokens(10000, haiku, { source: 'ratio', ratio: 2 })).toBe(8192);
+		expect(projectOutputTokens(1000, haiku, { source: 'maxOutputTokens' })).toBe(8192);
+	});
+
+	it('prices tokens from the effective rates, else with the markup', () => {
+		expect(estimateFromPricing({ input: 0.15, output: 0.6, xpayMarkupPercent: 5, effectiveInput: 0.1575, effectiveOutput: 0.63 }, 1e6, 1e6)).toEqual({
+			inputCost: 0.1575,
+			outputCost: 0.63,
+			total: 0.7875,
+			currency: 'USDC',
+		});
+		expect(estimateFromPricing({ input: 1, output: 2, xpayMarkupPercent: 10 }, 1e6, 5e5).total).toBe(2.2);
+	});
+
+	it('reads text from top-level or nested fields', () => {
+		expect(getTextField({ 'a.b': 'flat', a: { b: 'nested' } }, 'a.b')).toBe('flat');
+		expect(getTextField({ message: { content: 'hi' } }, 'message.content')).toBe('hi');
+		expect(getTextField({ data: { n: 1 } }, 'data')).toBe('{"n":1}');
+		expect(getTextField({ empty: null }, 'empty')).toBe('');
+		expect(getTextField({ message: {} }, 'message.content')).toBeUndefined();
+		expect(getTextField({}, 'missing')).toBeUndefined();
+	});
+});